@@ -52,6 +52,10 @@
     $('countryCode').value = config.countryCode;
   }
 
+  // OAuth sign-in needs a developer app
+  const developerApp = () => (config.appId && config.appSecret ? { appId: config.appId, appSecret: config.appSecret } : {});
+  $('oauth-form').classList.toggle('d-none', !(config.appId && config.appSecret));
+
   // Pre-fill Settings tab from config
   const prefillSettingsTab = () => {
     $('settings-mode').value = config.mode || 'auto';
@@ -80,6 +84,18 @@
           ? '<span class="badge badge-lan-warn ms-1">LAN: No IP</span>'
           : '<span class="badge bg-secondary ms-1">Cloud</span>';
       const rfBadge = d.isRfSubdevice ? '<span class="badge badge-rf ms-1">RF</span>' : '';
+      const ignoredBadge = (config.ignoredHomes || []).includes(d.homeId)
+        ? '<span class="badge bg-secondary ms-1">Ignored home</span>'
+        : '';
+      const homeInfo = d.homeId
+        ? `<div class="device-meta"><span>Home: ${escapeHtml(d.homeName || 'Unknown')}</span>
+            <span class="font-monospace ms-2">(${escapeHtml(d.homeId)})</span></div>`
+        : '';
+      const configureButton = d.options
+        ? `<button class="btn btn-outline-secondary btn-sm" data-configure="${escapeHtml(d.deviceId)}" title="Device options">
+            <i class="bi bi-sliders"></i>
+           </button>`
+        : '';
       const buttonInfo = d.buttons && d.buttons.length > 0
         ? `<div class="device-buttons mt-1">
             ${d.buttons.map(b => `<span class="button-name">${escapeHtml(b)}</span>`).join(' ')}
@@ -93,23 +109,139 @@
               <span class="font-monospace me-2">ID: ${escapeHtml(d.deviceId)}</span>
               <span>${escapeHtml(d.brand || 'Unknown')} — ${escapeHtml(d.model || 'Unknown')} (UIID: ${d.uiid ?? 'N/A'})</span>
             </div>
+            ${homeInfo}
             ${buttonInfo}
           </div>
           <div class="d-flex align-items-center gap-2 flex-shrink-0 ms-3 mt-1">
-            ${rfBadge}${lanBadge}${onlineBadge}
+            ${ignoredBadge}${rfBadge}${lanBadge}${onlineBadge}${configureButton}
           </div>
         </div>
+        ${d.options ? `<div class="device-options d-none" data-options-for="${escapeHtml(d.deviceId)}"></div>` : ''}
       `;
     }).join('');
   };
 
+  // ── Per-device options ─────────────────────────────────────────
+
+  // Entry of the device in its config array (singleDevices, multiDevices, ...)
+  const getDeviceEntry = d => (config[d.options.configKey] || []).find(e => e.deviceId === d.deviceId);
+
+  // Set or clear one option; entries left without options are removed
+  const setDeviceOption = (d, key, value) => {
+    const { configKey } = d.options;
+    const entries = config[configKey] || [];
+    let entry = entries.find(e => e.deviceId === d.deviceId);
+    if (!entry) {
+      entry = { deviceId: d.deviceId, label: d.name };
+      entries.push(entry);
+    }
+
+    if (value === undefined) {
+      delete entry[key];
+    } else {
+      entry[key] = value;
+    }
+
+    const remaining = entries.filter(e => Object.keys(e).some(k => k !== 'deviceId' && k !== 'label'));
+    if (remaining.length) {
+      config[configKey] = remaining;
+    } else {
+      delete config[configKey];
+    }
+  };
+
+  const renderOptionField = (d, field, entry) => {
+    const id = `opt-${d.deviceId}-${field.key}`;
+    const value = entry?.[field.key];
+    const help = field.description ? `<div class="form-text">${escapeHtml(field.description)}</div>` : '';
+
+    switch (field.type) {
+      case 'boolean':
+        return `
+          <div class="form-check mb-2">
+            <input class="form-check-input" type="checkbox" id="${id}" data-key="${field.key}" ${value ? 'checked' : ''}>
+            <label class="form-check-label" for="${id}">${escapeHtml(field.label)}</label>
+            ${help}
+          </div>`;
+      case 'select':
+        return `
+          <div class="mb-2">
+            <label class="form-label" for="${id}">${escapeHtml(field.label)}</label>
+            <select class="form-select form-select-sm" id="${id}" data-key="${field.key}">
+              <option value="">Default</option>
+              ${field.choices.map(c => `<option value="${c.value}" ${c.value === value ? 'selected' : ''}>${escapeHtml(c.label)}</option>`).join('')}
+            </select>
+            ${help}
+          </div>`;
+      default: {
+        const limits = `${field.min !== undefined ? `min="${field.min}"` : ''} ${field.max !== undefined ? `max="${field.max}"` : ''}`;
+        return `
+          <div class="mb-2">
+            <label class="form-label" for="${id}">${escapeHtml(field.label)}</label>
+            <input class="form-control form-control-sm" type="${field.type === 'number' ? 'number' : 'text'}" id="${id}"
+              data-key="${field.key}" value="${value !== undefined ? escapeHtml(String(value)) : ''}" ${limits}>
+            ${help}
+          </div>`;
+      }
+    }
+  };
+
+  // Only the catalog's valid options, and only those that apply to the chosen showAs
+  const renderDeviceOptions = d => {
+    const panel = document.querySelector(`[data-options-for="${d.deviceId}"]`);
+    const { catalog, showAs: showAsChoices, fields } = d.options;
+    const entry = getDeviceEntry(d);
+    const showAs = entry?.showAs || 'default';
+
+    const showAsField = showAsChoices.length
+      ? `
+        <div class="mb-2">
+          <label class="form-label" for="opt-${d.deviceId}-showAs">Show As</label>
+          <select class="form-select form-select-sm" id="opt-${d.deviceId}-showAs" data-key="showAs">
+            ${showAsChoices.map(c => `<option value="${c.value}" ${c.value === showAs ? 'selected' : ''}>${escapeHtml(c.label)}</option>`).join('')}
+          </select>
+        </div>`
+      : '';
+    const visibleFields = fields.filter(f => !f.showAs || f.showAs.includes(showAs));
+
+    panel.innerHTML = `
+      <div class="device-meta mb-2">
+        ${escapeHtml(catalog.name)} · ${escapeHtml(catalog.primaryService)}
+        ${catalog.capabilities.channels > 1 ? ` · ${catalog.capabilities.channels} channels` : ''}
+        · saved in <span class="font-monospace">${d.options.configKey}</span>
+      </div>
+      ${showAsField}
+      ${visibleFields.map(f => renderOptionField(d, f, entry)).join('')}
+      ${!showAsField && !visibleFields.length ? '<div class="device-meta">No options for this device.</div>' : ''}
+    `;
+  };
+
+  const readOptionValue = (d, input) => {
+    const key = input.dataset.key;
+    if (key === 'showAs') {
+      return input.value === 'default' ? undefined : input.value;
+    }
+
+    const field = d.options.fields.find(f => f.key === key);
+    switch (field.type) {
+      case 'boolean':
+        return input.checked || undefined;
+      case 'number': {
+        const value = parseFloat(input.value);
+        return Number.isNaN(value) ? undefined : value;
+      }
+      default:
+        return input.value.trim() || undefined;
+    }
+  };
+
   // ── Load devices ───────────────────────────────────────────────
 
   const loadDevices = async () => {
     $('refresh-spinner').classList.remove('d-none');
     $('btn-refresh').disabled = true;
     try {
-      const res = await homebridge.request('/get-devices', credentials);
+      const res = await homebridge.request('/get-devices', { ...credentials, ...developerApp() });
       if (res.success) {
         devices = res.devices;
         $('device-count').textContent = devices.length;
@@ -125,6 +257,82 @@
     }
   };
 
+  // ── Live status ────────────────────────────────────────────────
+
+  let liveTimer = null;
+
+  const timeAgo = ts => {
+    if (!ts) {
+      return '—';
+    }
+    const seconds = Math.max(0, Math.round((Date.now() - ts) / 1000));
+    if (seconds < 60) {
+      return `${seconds} s ago`;
+    }
+    return seconds < 3600 ? `${Math.round(seconds / 60)} min ago` : `${Math.round(seconds / 3600)} h ago`;
+  };
+
+  // Scalar params as "key: value", with multi-channel states as "1: on"
+  const summarizeParams = params => {
+    const parts = Object.entries(params)
+      .filter(([, value]) => value !== null && typeof value !== 'object')
+      .map(([key, value]) => `${key}: ${value}`);
+    if (Array.isArray(params.switches)) {
+      parts.unshift(...params.switches.map(s => `${s.outlet + 1}: ${s.switch}`));
+    }
+    return parts.slice(0, 6).join(', ') + (parts.length > 6 ? ', …' : '');
+  };
+
+  const renderStatus = (status, stale) => {
+    $('live-notice').classList.toggle('d-none', !stale);
+    if (!status) {
+      $('live-summary').textContent = '';
+      $('live-table').innerHTML = '';
+      return;
+    }
+
+    const { cloudState, queue } = status;
+    $('live-summary').textContent =
+      `Cloud: ${cloudState} · Queue: ${queue.queueSize} waiting, ${queue.activeCount} running · Updated ${timeAgo(status.timestamp)}`;
+
+    $('live-table').innerHTML = status.accessories.map(a => {
+      const reach = [
+        a.reachableLAN ? '<span class="badge badge-lan">LAN</span>' : '',
+        a.reachableWAN ? '<span class="badge bg-success">Cloud</span>' : '',
+      ].join(' ') || (a.online ? '' : MpKit.StatusBadge.offline());
+      return `
+        <tr>
+          <td><div class="fw-medium">${escapeHtml(a.name)}</div><div class="small text-body-secondary font-monospace">${escapeHtml(a.id)}</div></td>
+          <td class="small">${a.handler ? escapeHtml(a.handler) : '<span class="text-body-secondary">none</span>'}</td>
+          <td>${reach}</td>
+          <td class="small live-state" title="${escapeHtml(JSON.stringify(a.params))}">${escapeHtml(summarizeParams(a.params))}</td>
+          <td class="small text-nowrap">${timeAgo(a.lastUpdate)}</td>
+          <td class="small text-nowrap">${a.latencyMs === null ? '—' : `${a.latencyMs} ms`}</td>
+          <td class="small">${a.lastError ? `<span class="text-danger">${escapeHtml(a.lastError)}</span> <span class="text-body-secondary">${timeAgo(a.lastErrorAt)}</span>` : ''}</td>
+        </tr>`;
+    }).join('');
+  };
+
+  const stopLiveUpdates = () => {
+    clearInterval(liveTimer);
+    liveTimer = null;
+  };
+
+  const loadStatus = async () => {
+    try {
+      const res = await homebridge.request('/get-status');
+      renderStatus(res.status, res.stale);
+    } catch (e) {
+      homebridge.toast.error(e.message || 'Failed to load the plugin status');
+      stopLiveUpdates();
+    }
+  };
+
+  const startLiveUpdates = () => {
+    loadStatus();
+    liveTimer = setInterval(loadStatus, 5000);
+  };
+
   // ── Session check ──────────────────────────────────────────────
 
   const checkSession = async () => {
@@ -196,7 +404,7 @@
     $('btn-login').disabled = true;
 
     try {
-      const res = await homebridge.request('/login', { username, password, countryCode });
+      const res = await homebridge.request('/login', { username, password, countryCode, ...developerApp() });
       if (res.success) {
         credentials = { accessToken: res.accessToken, region: res.region, apiKey: res.apiKey };
         const newConfig = {
@@ -224,11 +432,108 @@
     }
   });
 
+  // ── Events: OAuth sign-in ──────────────────────────────────────
+
+  let oauthPending = false;
+
+  const completeOAuth = async callback => {
+    if (!oauthPending || !callback) {
+      return;
+    }
+    $('oauth-spinner').classList.remove('d-none');
+    $('btn-oauth-complete').disabled = true;
+
+    try {
+      const res = await homebridge.request('/oauth/complete', { callback, encryptTokens: config.encryptTokens });
+      oauthPending = false;
+      credentials = { accessToken: res.accessToken, region: res.region, apiKey: res.apiKey };
+
+      // The plugin runs on the saved session, so no password is kept
+      const newConfig = {
+        ...config,
+        platform: 'eWeLink',
+        name: config.name || 'eWeLink',
+        username: res.username || config.username,
+      };
+      delete newConfig.password;
+      await homebridge.updatePluginConfig([newConfig]);
+      Object.keys(config).forEach(key => delete config[key]);
+      Object.assign(config, newConfig);
+
+      $('oauth-paste').classList.add('d-none');
+      prefillSettingsTab();
+      homebridge.toast.success('Successfully connected to eWeLink!');
+      await loadDevices();
+      showStep('devices');
+    } catch (e) {
+      homebridge.toast.error(e.message || 'Sign-in failed');
+    } finally {
+      $('oauth-spinner').classList.add('d-none');
+      $('btn-oauth-complete').disabled = false;
+    }
+  };
+
+  $('btn-oauth').addEventListener('click', async () => {
+    try {
+      const redirectUrl = config.oauthRedirectUrl || new window.URL('oauth-callback.html', window.location.href).href;
+      const res = await homebridge.request('/oauth/start', { ...developerApp(), redirectUrl });
+      oauthPending = true;
+      $('oauth-callback').value = '';
+      $('oauth-paste').classList.remove('d-none');
+      window.open(res.url, 'ewelink-oauth', 'width=480,height=720');
+    } catch (e) {
+      homebridge.toast.error(e.message || 'Failed to start the sign-in');
+    }
+  });
+
+  $('btn-oauth-complete').addEventListener('click', () => completeOAuth($('oauth-callback').value.trim()));
+
+  // Sent by oauth-callback.html when the redirect lands on this UI
+  window.addEventListener('message', e => {
+    if (e.origin === window.location.origin && e.data?.type === 'ewelink-oauth') {
+      completeOAuth(e.data.callback);
+    }
+  });
+
   // ── Events: Devices tab ────────────────────────────────────────
 
   $('btn-refresh').addEventListener('click', loadDevices);
+
+  $('device-list').addEventListener('click', e => {
+    const button = e.target.closest('[data-configure]');
+    if (!button) {
+      return;
+    }
+    const d = devices.find(x => x.deviceId === button.dataset.configure);
+    const panel = document.querySelector(`[data-options-for="${d.deviceId}"]`);
+    if (panel.classList.toggle('d-none')) {
+      return;
+    }
+    renderDeviceOptions(d);
+  });
+
+  $('device-list').addEventListener('change', e => {
+    const input = e.target.closest('[data-key]');
+    const panel = input?.closest('[data-options-for]');
+    if (!panel) {
+      return;
+    }
+    const d = devices.find(x => x.deviceId === panel.dataset.optionsFor);
+    setDeviceOption(d, input.dataset.key, readOptionValue(d, input));
+
+    // Other fields apply to the new simulation
+    if (input.dataset.key === 'showAs') {
+      renderDeviceOptions(d);
+    }
+  });
   $('btn-save').addEventListener('click', saveConfiguration);
 
+  // ── Events: Live tab ───────────────────────────────────────────
+
+  // Poll only while the tab is shown; the plugin stops writing the status soon after
+  $('tab-live').addEventListener('shown.bs.tab', startLiveUpdates);
+  $('tab-live').addEventListener('hidden.bs.tab', stopLiveUpdates);
+
   // ── Events: Settings tab ───────────────────────────────────────
 
   $('btn-save-settings').addEventListener('click', saveConfiguration);
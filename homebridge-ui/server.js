@@ -18,25 +18,34 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
 
     this.onRequest('/login', this.handleLogin.bind(this));
     this.onRequest('/get-tokens', this.handleGetTokens.bind(this));
+    this.onRequest('/oauth/start', this.handleOAuthStart.bind(this));
+    this.onRequest('/oauth/complete', this.handleOAuthComplete.bind(this));
     this.onRequest('/get-devices', this.handleGetDevices.bind(this));
     this.onRequest('/test-device', this.handleTestDevice.bind(this));
     this.onRequest('/getCachedAccessories', this.handleGetCachedAccessories.bind(this));
+    this.onRequest('/get-status', this.handleGetStatus.bind(this));
 
     this.ready();
   }
 
   /**
    * Create an authenticated API instance
+   * The stand-in platform points at the Homebridge storage path, so the token
+   * file and its refresh lock are the plugin's
    */
   async createApi(config, accessToken = null) {
     const { EWeLinkAPI } = await import(path.join(distDir, 'api', 'ewelink-api.js'));
     const api = new EWeLinkAPI({
       log: console,
       config,
+      api: { user: { storagePath: () => this.homebridgeStoragePath } },
     });
 
     if (accessToken) {
       api.setCredentials(accessToken);
+      // Switch to the shared session when the plugin rotated the tokens, so a
+      // refresh by this process spends the current refresh token and is saved
+      await api.reloadTokensFromStorage();
     }
 
     return api;
@@ -74,6 +83,55 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
     }
   }
 
+  /**
+   * Start an OAuth2 sign-in with the configured developer app
+   * Returns the eWeLink sign-in page to open
+   */
+  async handleOAuthStart(payload) {
+    this.validate(payload, ['appId', 'appSecret', 'redirectUrl']);
+
+    const { EWeLinkOAuth } = await import(path.join(distDir, 'api', 'ewelink-oauth.js'));
+    this.oauth = new EWeLinkOAuth({
+      appId: payload.appId,
+      appSecret: payload.appSecret,
+      redirectUrl: payload.redirectUrl,
+    });
+
+    return { success: true, ...this.oauth.createAuthorization() };
+  }
+
+  /**
+   * Finish an OAuth2 sign-in from the redirect and save the session for the plugin
+   */
+  async handleOAuthComplete(payload) {
+    this.validate(payload, ['callback']);
+
+    if (!this.oauth) {
+      throw new RequestError('No sign-in in progress, please start again', { status: 400 });
+    }
+
+    const { TokenStorage, TOKEN_SECRET_ENV, getEncryptionSecret } = await import(path.join(distDir, 'utils', 'token-storage.js'));
+    if (payload.encryptTokens && !getEncryptionSecret()) {
+      throw new RequestError(`Encrypt Tokens requires the ${TOKEN_SECRET_ENV} environment variable`, { status: 400 });
+    }
+
+    try {
+      const session = await this.oauth.completeAuthorization(payload.callback);
+
+      new TokenStorage(this.homebridgeStoragePath, undefined, payload.encryptTokens).save(session);
+
+      return {
+        success: true,
+        apiKey: session.apiKey,
+        accessToken: session.accessToken,
+        region: session.region,
+        username: session.username,
+      };
+    } catch (error) {
+      throw new RequestError(error.message || 'Sign-in failed', { status: 401 });
+    }
+  }
+
   /**
    * Handle get tokens request
    */
@@ -148,9 +206,15 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
       const lanDiscoveryPromise = this.discoverLanDevices();
 
       // Fetch devices from cloud API
-      const api = await this.createApi({ countryCode: payload.region || 'us' }, payload.accessToken);
+      const api = await this.createApi({
+        countryCode: payload.region || 'us',
+        appId: payload.appId,
+        appSecret: payload.appSecret,
+      }, payload.accessToken);
       const result = await api.getDevices();
+      const { getDeviceConfigOptions } = await import(path.join(distDir, 'utils', 'device-config-options.js'));
       const devices = Array.isArray(result) ? result : (result.devices || []);
+      const homeNames = new Map((result.homes || []).map(home => [home.id, home.name]));
 
       // Wait for LAN discovery to complete
       const lanDevices = await lanDiscoveryPromise;
@@ -166,6 +230,8 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
         const lanIp = lanInfo?.ip || d.ip || null;
         const lanEnabled = d.localtype === 1 || !!lanInfo;
         const uiid = d.extra?.uiid;
+        const homeId = d.family?.familyid || null;
+        const homeName = homeNames.get(homeId) || null;
 
         // Add the main device
         deviceList.push({
@@ -178,6 +244,10 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
           lanEnabled,
           lanIp,
           lanPort: lanInfo?.port || d.port || null,
+          homeId,
+          homeName,
+          // Catalog entry and editable per-device options
+          options: getDeviceConfigOptions(uiid) || null,
         });
 
         // If this is an RF Bridge, expand sub-devices from zyx_info
@@ -220,6 +290,8 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
               lanEnabled,
               lanIp,
               lanPort: lanInfo?.port || d.port || null,
+              homeId,
+              homeName,
               isRfSubdevice: true,
               parentDeviceId: d.deviceid,
               buttons: buttonNames,
@@ -248,7 +320,11 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
     this.validate(payload, ['accessToken', 'deviceId']);
 
     try {
-      const api = await this.createApi({ countryCode: payload.region }, payload.accessToken);
+      const api = await this.createApi({
+        countryCode: payload.region,
+        appId: payload.appId,
+        appSecret: payload.appSecret,
+      }, payload.accessToken);
       const success = await api.setDeviceState(payload.deviceId, payload.params || { switch: 'on' });
 
       return {
@@ -260,6 +336,28 @@ class EWeLinkUiServer extends HomebridgePluginUiServer {
     }
   }
 
+  /**
+   * Handle get status request
+   * Reads the status file written by the running plugin and asks it to keep
+   * writing; the first request after opening the UI may return an old status
+   */
+  async handleGetStatus() {
+    try {
+      const { StatusStorage } = await import(path.join(distDir, 'utils', 'status-storage.js'));
+      const storage = new StatusStorage(this.homebridgeStoragePath);
+      storage.watch();
+      const status = storage.load();
+
+      return {
+        success: true,
+        status,
+        stale: StatusStorage.isStale(status),
+      };
+    } catch (error) {
+      throw new RequestError(error.message || 'Failed to get status', { status: 500 });
+    }
+  }
+
   /**
    * Handle get cached accessories request
    */
@@ -12,11 +12,19 @@ import type {
   EWeLinkDevice,
   SingleDeviceConfig,
   MultiDeviceConfig,
+  RFSubdeviceConfig,
 } from '../types/index.js';
 import { SwitchHelper } from '../utils/switch-helper.js';
 import { EVE_CHARACTERISTIC_UUIDS } from '../utils/eve-characteristics.js';
-import { TIMING, TEMPERATURE, POLLING } from '../constants/timing-constants.js';
-import { TEMPERATURE_MIN, TEMPERATURE_MAX, HUMIDITY_MIN, HUMIDITY_MAX } from '../constants/device-constants.js';
+import { EveHistory, type EveHistoryType } from '../utils/eve-history.js';
+import { EnergyMeter } from '../utils/energy-meter.js';
+import { WriteConfirmation } from '../utils/write-confirmation.js';
+import { mergeDeviceParams } from '../utils/command-queue.js';
+import { DEFAULTS } from '../settings.js';
+import { TIMING, TEMPERATURE, POLLING, ENERGY_TIMING } from '../constants/timing-constants.js';
+import {
+  TEMPERATURE_MIN, TEMPERATURE_MAX, HUMIDITY_MIN, HUMIDITY_MAX, CHANNEL_SUFFIX_PATTERN,
+} from '../constants/device-constants.js';
 
 /**
  * Base class for all accessory types
@@ -33,6 +41,16 @@ export abstract class BaseAccessory {
   /** Current device parameters */
   protected deviceParams: DeviceParams;
 
+  /** Writes sent with sendConfirmedCommand() that the device has not reported yet */
+  private writeConfirmation?: WriteConfirmation;
+
+  /** Cleanup for polls and history recording, run by dispose() */
+  private readonly disposers: (() => void)[] = [];
+
+  /** Energy total changed since it was last saved to the accessory cache */
+  private energyUnsaved = false;
+  private energySavedAt = 0;
+
   constructor(
     platform: EWeLinkPlatform,
     accessory: PlatformAccessory<AccessoryContext>,
@@ -111,6 +129,84 @@ export abstract class BaseAccessory {
     }
   }
 
+  /**
+   * Send a command the device must report back
+   * If no update with the written values arrives within `writeConfirmationTimeout`
+   * seconds, the state is queried once more and HomeKit is rolled back to the
+   * last values the device reported
+   */
+  protected async sendConfirmedCommand(params: DeviceParams): Promise<boolean> {
+    const confirmation = this.getWriteConfirmation();
+    const writeId = confirmation?.track(params, this.deviceParams);
+
+    const success = await this.sendCommand(params);
+    if (!success && writeId !== undefined) {
+      confirmation?.cancel(writeId);
+    }
+
+    return success;
+  }
+
+  /**
+   * Get the write tracker, or undefined when `writeConfirmationTimeout` is 0
+   */
+  private getWriteConfirmation(): WriteConfirmation | undefined {
+    const seconds = this.platform.config.writeConfirmationTimeout ?? DEFAULTS.writeConfirmationTimeout;
+    if (seconds <= 0) {
+      return undefined;
+    }
+
+    this.writeConfirmation ??= new WriteConfirmation({
+      timeoutMs: seconds * 1000,
+      verify: () => this.platform.queryDeviceState(this.deviceId.replace(CHANNEL_SUFFIX_PATTERN, '')),
+      onUnconfirmed: (expected, confirmed) => this.rollbackWrite(expected, confirmed, seconds),
+    });
+    return this.writeConfirmation;
+  }
+
+  /**
+   * Restore the last reported values of an unconfirmed write and refresh HomeKit
+   */
+  private rollbackWrite(expected: DeviceParams, confirmed: DeviceParams, seconds: number): void {
+    const reverting = Object.keys(confirmed).length > 0 ? `, reverting to ${JSON.stringify(confirmed)}` : '';
+    this.platform.log.warn(
+      `[${this.accessory.displayName}] Device did not confirm ${JSON.stringify(expected)} within ${seconds}s${reverting}`,
+    );
+
+    Object.assign(this.deviceParams, mergeDeviceParams(this.deviceParams, confirmed));
+    this.updateState({ ...this.deviceParams });
+  }
+
+  /**
+   * Stop the handler's polls, history recording and pending write checks,
+   * and save an energy total that changed since the last save
+   * Called by the platform before the handler is replaced, when its accessory
+   * is removed and on shutdown. One-shot timers that finish a command (e.g. a
+   * valve's auto-off) are left to run.
+   */
+  dispose(): void {
+    for (const cleanup of this.disposers.splice(0)) {
+      cleanup();
+    }
+    this.writeConfirmation?.clear();
+  }
+
+  /**
+   * Apply a device update (WebSocket, LAN or query response)
+   * Called by the platform; confirms pending writes before updating HomeKit
+   */
+  receiveUpdate(params: DeviceParams): void {
+    this.writeConfirmation?.confirm(params);
+    this.updateState(params);
+  }
+
+  /**
+   * Copy of the current device params, for the platform status
+   */
+  getDeviceParams(): DeviceParams {
+    return { ...this.deviceParams };
+  }
+
   /**
    * Update accessory state from device params
    * Must be implemented by subclasses
@@ -145,6 +241,18 @@ export abstract class BaseAccessory {
     );
   }
 
+  /**
+   * Get RF subdevice configuration from rfDevices[].subdevices
+   * @returns RF subdevice configuration or undefined if not found
+   */
+  protected getRFSubdeviceConfig(): RFSubdeviceConfig | undefined {
+    return this.platform.getRFSubdeviceConfig(
+      this.accessory.context.device?.deviceid,
+      this.accessory.context.rfButtonIndex,
+      this.accessory.context.name,
+    );
+  }
+
   /**
    * Apply temperature offset and factor, then clamp to valid range
    * @param temp - Raw temperature value
@@ -309,12 +417,90 @@ export abstract class BaseAccessory {
     }
   }
 
+  /**
+   * Setup Eve TotalConsumption and ResetTotal backed by an energy meter
+   * The meter state is kept in accessory.context so totals survive restarts;
+   * callers report a changed total with saveEnergyTotal()
+   * @param service - The service to add characteristics to
+   * @returns The energy meter to feed power samples and device kWh readings into
+   */
+  protected setupEnergyMeter(service: Service): EnergyMeter {
+    const { TotalConsumption, ResetTotal } = this.platform.eveCharacteristics;
+
+    this.accessory.context.energyMeter ??= EnergyMeter.createState();
+    const meter = new EnergyMeter(this.accessory.context.energyMeter);
+
+    if (!service.testCharacteristic(EVE_CHARACTERISTIC_UUIDS.TotalConsumption)) {
+      service.addCharacteristic(TotalConsumption);
+    }
+    if (!service.testCharacteristic(EVE_CHARACTERISTIC_UUIDS.ResetTotal)) {
+      service.addCharacteristic(ResetTotal);
+    }
+
+    service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.TotalConsumption, meter.totalKwh);
+    service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.ResetTotal, meter.resetTime);
+
+    // Reset from the Eve app, which writes the reset time
+    service.getCharacteristic(EVE_CHARACTERISTIC_UUIDS.ResetTotal)?.onSet((value) => {
+      meter.reset((value as number) || undefined);
+      service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.TotalConsumption, 0);
+      this.writeEnergyTotal();
+      this.logInfo('Energy total reset');
+    });
+
+    this.disposers.push(() => {
+      if (this.energyUnsaved) {
+        this.writeEnergyTotal();
+      }
+    });
+
+    return meter;
+  }
+
+  /**
+   * Save a changed energy total with the accessory cache
+   * Each save rewrites the whole cache, so it happens at most once per
+   * `ENERGY_TIMING.SAVE_INTERVAL_MS`; dispose() saves what is left
+   */
+  protected saveEnergyTotal(): void {
+    this.energyUnsaved = true;
+    if (Date.now() - this.energySavedAt >= ENERGY_TIMING.SAVE_INTERVAL_MS) {
+      this.writeEnergyTotal();
+    }
+  }
+
+  /**
+   * Write the accessory cache now
+   */
+  private writeEnergyTotal(): void {
+    this.energyUnsaved = false;
+    this.energySavedAt = Date.now();
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  /**
+   * Setup the Eve history service so the Eve app can show graphs
+   * History is persisted by fakegato-history in the Homebridge storage path
+   * @param type - History type (energy, weather or door)
+   * @returns The history recorder to add samples to
+   */
+  protected setupEveHistory(type: EveHistoryType): EveHistory {
+    const history = new EveHistory(this.platform.api, this.accessory, type, {
+      storagePath: this.platform.api.user.storagePath(),
+      log: this.platform.log,
+      debug: this.platform.config.debugFakegato,
+    });
+    this.disposers.push(() => history.stop());
+
+    return history;
+  }
+
   /**
    * Setup polling interval for periodic updates (e.g., power monitoring)
    * @param updateFn - Function to call on each interval
    * @param intervalMs - Polling interval in milliseconds (default: POLLING.UPDATE_INTERVAL_MS)
    * @param initialDelayMs - Initial delay before first poll (default: POLLING.INITIAL_DELAY_MS)
-   * @returns Cleanup function to clear the interval
+   * @returns Cleanup function to clear the interval (also run by dispose())
    */
   protected setupPollingInterval(
     updateFn: () => Promise<void>,
@@ -323,18 +509,19 @@ export abstract class BaseAccessory {
   ): () => void {
     let intervalPoll: NodeJS.Timeout | undefined;
 
-    setTimeout(() => {
+    const initialPoll = setTimeout(() => {
       updateFn();
       intervalPoll = setInterval(() => updateFn(), intervalMs);
     }, initialDelayMs);
 
     const cleanup = () => {
+      clearTimeout(initialPoll);
       if (intervalPoll) {
         clearInterval(intervalPoll);
       }
     };
 
-    this.platform.api.on('shutdown', cleanup);
+    this.disposers.push(cleanup);
 
     return cleanup;
   }
@@ -103,10 +103,10 @@ export class FanAccessory extends BaseAccessory {
           switches[index] = { ...switches[index], switch: DeviceValueParser.boolToSwitch(on === 1) };
         }
 
-        return await this.sendCommand({ switches });
+        return await this.sendConfirmedCommand({ switches });
       }
 
-      return await this.sendCommand({ speed: on === 1 ? 1 : 0 });
+      return await this.sendConfirmedCommand({ speed: on === 1 ? 1 : 0 });
     });
   }
 
@@ -131,7 +131,7 @@ export class FanAccessory extends BaseAccessory {
       let speed = Math.round((pct / 100) * this.maxSpeed);
       speed = this.clamp(speed, 0, this.maxSpeed);
 
-      return await this.sendCommand({ speed });
+      return await this.sendConfirmedCommand({ speed });
     });
   }
 
@@ -161,7 +161,7 @@ export class FanAccessory extends BaseAccessory {
           switches[index] = { ...switches[index], switch: DeviceValueParser.boolToSwitch(on) };
         }
 
-        return await this.sendCommand({ switches });
+        return await this.sendConfirmedCommand({ switches });
       }
       return false;
     });
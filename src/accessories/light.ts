@@ -1,10 +1,16 @@
-import type { PlatformAccessory, CharacteristicValue } from 'homebridge';
+import type { PlatformAccessory, CharacteristicValue, AdaptiveLightingController } from 'homebridge';
 import { BaseAccessory } from './base.js';
 import type { EWeLinkPlatform } from '../platform.js';
-import type { AccessoryContext, DeviceParams } from '../types/index.js';
+import type { AccessoryContext, DeviceParams, LightDeviceConfig } from '../types/index.js';
 import { ColorUtils } from '../utils/color-utils.js';
 import { DeviceValueParser } from '../utils/device-parsers.js';
-import { COLOR_TEMP_MIN_MIRED, COLOR_TEMP_MAX_MIRED, DEFAULT_COLOR_TEMP_MIRED } from '../constants/device-constants.js';
+import { getDeviceByUIID, getLightType } from '../constants/device-catalog.js';
+import {
+  COLOR_TEMP_MIN_MIRED,
+  COLOR_TEMP_MAX_MIRED,
+  DEFAULT_COLOR_TEMP_MIRED,
+  ADAPTIVE_LIGHTING_DISABLED,
+} from '../constants/device-constants.js';
 
 /**
  * Light Accessory with brightness and color support
@@ -19,6 +25,15 @@ export class LightAccessory extends BaseAccessory {
   /** Whether device supports RGB color */
   private readonly supportsColor: boolean;
 
+  /** Device color temperature scale from the catalog, for the param it names */
+  private readonly colorTempScale?: { param: string; min: number; max: number };
+
+  /** HomeKit Adaptive Lighting controller (CCT/RGBCCT lights only) */
+  private adaptiveLightingController?: AdaptiveLightingController;
+
+  /** Last color temperature sent to the device, used to spot changes made outside HomeKit */
+  private lastSentMired?: number;
+
   constructor(
     platform: EWeLinkPlatform,
     accessory: PlatformAccessory<AccessoryContext>,
@@ -33,6 +48,9 @@ export class LightAccessory extends BaseAccessory {
     this.supportsColor = this.deviceParams.color !== undefined ||
                           this.deviceParams.ltype === 'color';
 
+    const uiid = this.device.extra?.uiid || 0;
+    this.colorTempScale = getDeviceByUIID(uiid)?.params.colorTemp;
+
     // Set up the lightbulb service
     this.service = this.getOrAddService(this.Service.Lightbulb);
 
@@ -66,10 +84,88 @@ export class LightAccessory extends BaseAccessory {
         .onSet(this.setSaturation.bind(this));
     }
 
+    this.setupAdaptiveLighting(uiid);
+
     // Set initial state
     this.updateState(this.deviceParams);
   }
 
+  /**
+   * Get light device configuration
+   */
+  private getLightDeviceConfig(): LightDeviceConfig | undefined {
+    return this.platform.config.lightDevices?.find(d => d.deviceId === this.deviceId);
+  }
+
+  /**
+   * Remove the Adaptive Lighting controller so a new handler can register its own
+   */
+  dispose(): void {
+    super.dispose();
+    if (this.adaptiveLightingController) {
+      this.accessory.removeController(this.adaptiveLightingController);
+      this.adaptiveLightingController = undefined;
+    }
+  }
+
+  /**
+   * Register the HAP Adaptive Lighting controller for CCT/RGBCCT lights
+   * adaptiveLightingShift adds a mired offset to every update; -1 turns the feature off
+   */
+  private setupAdaptiveLighting(uiid: number): void {
+    const lightType = getLightType(uiid);
+    if (!this.supportsBrightness || !this.supportsColorTemp || (lightType !== 'cct' && lightType !== 'rgbcct')) {
+      return;
+    }
+
+    const shift = this.getLightDeviceConfig()?.adaptiveLightingShift ?? 0;
+    if (shift === ADAPTIVE_LIGHTING_DISABLED) {
+      // Drop the transition characteristics a previous run may have added
+      const { SupportedCharacteristicValueTransitionConfiguration, CharacteristicValueTransitionControl, CharacteristicValueActiveTransitionCount } =
+        this.Characteristic;
+      this.removeCharacteristicIfExists(this.service, SupportedCharacteristicValueTransitionConfiguration.UUID);
+      this.removeCharacteristicIfExists(this.service, CharacteristicValueTransitionControl.UUID);
+      this.removeCharacteristicIfExists(this.service, CharacteristicValueActiveTransitionCount.UUID);
+      this.logDebug('Adaptive Lighting disabled by config');
+      return;
+    }
+
+    const { AdaptiveLightingController, AdaptiveLightingControllerMode } = this.platform.api.hap;
+    this.adaptiveLightingController = new AdaptiveLightingController(this.service, {
+      controllerMode: AdaptiveLightingControllerMode.AUTOMATIC,
+      customTemperatureAdjustment: shift,
+    });
+    this.accessory.configureController(this.adaptiveLightingController);
+
+    this.logDebug(`Adaptive Lighting enabled (shift: ${shift} mired)`);
+  }
+
+  /**
+   * Scale of a color temperature param: the catalog's when it names that param,
+   * otherwise the value is taken as mired
+   */
+  private getColorTempRange(param: 'white.ct' | 'colorTemp'): { min: number; max: number } {
+    if (this.colorTempScale?.param === param) {
+      return this.colorTempScale;
+    }
+    return { min: COLOR_TEMP_MIN_MIRED, max: COLOR_TEMP_MAX_MIRED };
+  }
+
+  /**
+   * Convert the device color temperature to mired
+   */
+  private deviceCtToMired(params: DeviceParams): number {
+    if (params.white?.ct !== undefined) {
+      const { min, max } = this.getColorTempRange('white.ct');
+      return ColorUtils.scaleToMired(params.white.ct, min, max);
+    }
+    if (params.colorTemp !== undefined) {
+      const { min, max } = this.getColorTempRange('colorTemp');
+      return ColorUtils.scaleToMired(params.colorTemp, min, max);
+    }
+    return DEFAULT_COLOR_TEMP_MIRED;
+  }
+
   /**
    * Get on state
    */
@@ -82,7 +178,7 @@ export class LightAccessory extends BaseAccessory {
    */
   private async setOn(value: CharacteristicValue): Promise<void> {
     await this.handleSet(value as boolean, 'On', async (on) => {
-      return await this.sendCommand({ switch: DeviceValueParser.boolToSwitch(on) });
+      return await this.sendConfirmedCommand({ switch: DeviceValueParser.boolToSwitch(on) });
     });
   }
 
@@ -107,11 +203,11 @@ export class LightAccessory extends BaseAccessory {
     await this.handleSet(brightness, 'Brightness', async (br) => {
       // Different devices use different params
       if (this.deviceParams.white !== undefined) {
-        return await this.sendCommand({
+        return await this.sendConfirmedCommand({
           white: { ...this.deviceParams.white, br },
         });
       }
-      return await this.sendCommand({ bright: br });
+      return await this.sendConfirmedCommand({ bright: br });
     });
   }
 
@@ -120,38 +216,38 @@ export class LightAccessory extends BaseAccessory {
    */
   private async getColorTemperature(): Promise<CharacteristicValue> {
     return this.handleGet(() => {
-      let ct: number;
-
-      if (this.deviceParams.white?.ct !== undefined) {
-        // ct is 0-100, need to convert to mired
-        ct = ColorUtils.ct0_100ToMired(this.deviceParams.white.ct);
-      } else if (this.deviceParams.colorTemp !== undefined) {
-        ct = this.deviceParams.colorTemp;
-      } else {
-        ct = DEFAULT_COLOR_TEMP_MIRED;
-      }
-
-      return this.clamp(ct, COLOR_TEMP_MIN_MIRED, COLOR_TEMP_MAX_MIRED);
+      return this.clamp(this.deviceCtToMired(this.deviceParams), COLOR_TEMP_MIN_MIRED, COLOR_TEMP_MAX_MIRED);
     }, 'ColorTemperature');
   }
 
   /**
    * Set color temperature
+   * Also called every minute by the Adaptive Lighting controller
    */
   private async setColorTemperature(value: CharacteristicValue): Promise<void> {
     const mired = value as number;
+    const { min, max } = this.getColorTempRange(this.deviceParams.white !== undefined ? 'white.ct' : 'colorTemp');
+    const deviceCt = ColorUtils.miredToScale(mired, min, max);
+
+    if (this.adaptiveLightingController?.isAdaptiveLightingActive()) {
+      // Skip Adaptive Lighting steps while off or when the device value would not change
+      const currentCt = this.deviceParams.white?.ct ?? this.deviceParams.colorTemp;
+      if (this.deviceParams.switch !== 'on' || (currentCt === deviceCt && this.deviceParams.ltype !== 'color')) {
+        this.logDebug(`Adaptive Lighting: skipping update to ${mired} mired`);
+        return;
+      }
+    }
 
-    await this.handleSet(mired, 'ColorTemperature', async (ct) => {
-      // Convert mired to device's 0-100 scale
-      const deviceCt = ColorUtils.miredToCt0_100(ct);
+    await this.handleSet(mired, 'ColorTemperature', async () => {
+      this.lastSentMired = ColorUtils.scaleToMired(deviceCt, min, max);
 
       if (this.deviceParams.white !== undefined) {
-        return await this.sendCommand({
+        return await this.sendConfirmedCommand({
           ltype: 'white',
           white: { ...this.deviceParams.white, ct: deviceCt },
         });
       }
-      return await this.sendCommand({ colorTemp: ct });
+      return await this.sendConfirmedCommand({ colorTemp: deviceCt });
     });
   }
 
@@ -178,7 +274,7 @@ export class LightAccessory extends BaseAccessory {
       const hsv = ColorUtils.rgbToHsv(currentColor.r, currentColor.g, currentColor.b);
       const rgb = ColorUtils.hsvToRgb(hue, hsv.s, hsv.v);
 
-      return await this.sendCommand({
+      return await this.sendConfirmedCommand({
         ltype: 'color',
         color: { ...rgb, br: currentColor.br },
       });
@@ -208,7 +304,7 @@ export class LightAccessory extends BaseAccessory {
       const hsv = ColorUtils.rgbToHsv(currentColor.r, currentColor.g, currentColor.b);
       const rgb = ColorUtils.hsvToRgb(hsv.h, sat, hsv.v);
 
-      return await this.sendCommand({
+      return await this.sendConfirmedCommand({
         ltype: 'color',
         color: { ...rgb, br: currentColor.br },
       });
@@ -232,17 +328,17 @@ export class LightAccessory extends BaseAccessory {
     }
 
     // Update ColorTemperature
-    if (this.supportsColorTemp) {
-      let ct: number;
-      if (params.white?.ct !== undefined) {
-        ct = ColorUtils.ct0_100ToMired(params.white.ct);
-      } else {
-        ct = params.colorTemp ?? DEFAULT_COLOR_TEMP_MIRED;
-      }
+    if (this.supportsColorTemp && (params.white?.ct !== undefined || params.colorTemp !== undefined)) {
+      const mired = this.deviceCtToMired(params);
       this.service.updateCharacteristic(
         this.Characteristic.ColorTemperature,
-        this.clamp(ct, COLOR_TEMP_MIN_MIRED, COLOR_TEMP_MAX_MIRED),
+        this.clamp(mired, COLOR_TEMP_MIN_MIRED, COLOR_TEMP_MAX_MIRED),
       );
+
+      // A temperature we did not send was set from the eWeLink app or the device itself
+      if (this.lastSentMired !== undefined && mired !== this.lastSentMired) {
+        this.disableAdaptiveLighting('color temperature changed outside HomeKit');
+      }
     }
 
     // Update Color
@@ -252,6 +348,22 @@ export class LightAccessory extends BaseAccessory {
       this.service.updateCharacteristic(this.Characteristic.Saturation, hsv.s);
     }
 
+    // Switching to color mode ends Adaptive Lighting (HomeKit writes are handled by HAP itself)
+    if (params.ltype === 'color') {
+      this.disableAdaptiveLighting('light switched to color mode');
+    }
+
     this.logDebug(`State updated: ${isOn ? 'ON' : 'OFF'}`);
   }
+
+  /**
+   * Turn off Adaptive Lighting after a manual change
+   */
+  private disableAdaptiveLighting(reason: string): void {
+    if (this.adaptiveLightingController?.isAdaptiveLightingActive()) {
+      this.adaptiveLightingController.disableAdaptiveLighting();
+      this.logInfo(`Adaptive Lighting disabled: ${reason}`);
+    }
+    this.lastSentMired = undefined;
+  }
 }
@@ -2,10 +2,12 @@ import type { PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { BaseAccessory } from './base.js';
 import type { EWeLinkPlatform } from '../platform.js';
 import type { AccessoryContext, DeviceParams, SingleDeviceConfig } from '../types/index.js';
-import { TIMING } from '../constants/timing-constants.js';
+import { TIMING, ENERGY_TIMING } from '../constants/timing-constants.js';
 import { SwitchHelper } from '../utils/switch-helper.js';
 import { DeviceValueParser } from '../utils/device-parsers.js';
 import { EVE_CHARACTERISTIC_UUIDS } from '../utils/eve-characteristics.js';
+import type { EveHistory } from '../utils/eve-history.js';
+import type { EnergyMeter } from '../utils/energy-meter.js';
 import { hasFullPowerReadings as hasFullPowerReadingsUIID } from '../constants/device-catalog.js';
 
 /**
@@ -36,6 +38,15 @@ export class OutletAccessory extends BaseAccessory {
   /** Power reading UIIDs (5: wattage only, 32/182/190: wattage+voltage+current) */
   private readonly hasFullPowerReadings: boolean;
 
+  /** Eve power history (power monitoring devices only) */
+  private history?: EveHistory;
+
+  /** Accumulated energy (power monitoring devices only) */
+  private energyMeter?: EnergyMeter;
+
+  /** Channel whose power params this outlet reads (0 = device-level `power`, 1-N = `actPow_00`...) */
+  private readonly powerChannel: number;
+
   constructor(
     platform: EWeLinkPlatform,
     accessory: PlatformAccessory<AccessoryContext>,
@@ -56,6 +67,7 @@ export class OutletAccessory extends BaseAccessory {
     // Check if device has full power readings (voltage + current)
     const uiid = this.device.extra?.uiid || 0;
     this.hasFullPowerReadings = hasFullPowerReadingsUIID(uiid);
+    this.powerChannel = accessory.context.switchNumber ?? 0;
 
     // Set up the outlet service
     this.service = this.getOrAddService(this.Service.Outlet);
@@ -87,7 +99,64 @@ export class OutletAccessory extends BaseAccessory {
    * Check if device supports power monitoring
    */
   private supportsPowerMonitoring(): boolean {
-    return DeviceValueParser.hasPowerReadings(this.deviceParams);
+    return this.powerChannel > 0
+      ? DeviceValueParser.hasChannelPowerReadings(this.deviceParams, this.powerChannel)
+      : DeviceValueParser.hasPowerReadings(this.deviceParams);
+  }
+
+  /**
+   * Parse power readings for this outlet (device-level or per channel)
+   */
+  private parsePowerReadings(params: DeviceParams): ReturnType<typeof DeviceValueParser.parsePowerReadings> {
+    return this.powerChannel > 0
+      ? DeviceValueParser.parseChannelPowerReadings(params, this.powerChannel)
+      : DeviceValueParser.parsePowerReadings(params);
+  }
+
+  /**
+   * Params that request the device's own kWh history, if the device keeps one
+   * Single outlets use `hundredDaysKwh`, DUALR3-style channels `getKwh_XX`
+   */
+  private getDeviceKwhRequest(): DeviceParams | undefined {
+    if (this.powerChannel > 0) {
+      const suffix = DeviceValueParser.channelPowerSuffix(this.powerChannel);
+      const supported = this.deviceParams[`getKwh${suffix}`] !== undefined || this.deviceParams[`kwhHistories${suffix}`] !== undefined;
+      return supported ? { [`getKwh${suffix}`]: 2 } : undefined;
+    }
+
+    const supported = this.deviceParams.hundredDaysKwh !== undefined || this.deviceParams.hundredDaysKwhData !== undefined;
+    return supported ? { hundredDaysKwh: 'get' } : undefined;
+  }
+
+  /**
+   * Feed power and device kWh readings into the energy meter
+   */
+  private updateEnergy(params: DeviceParams, power: number | undefined): void {
+    if (!this.energyMeter) {
+      return;
+    }
+    const previousKwh = this.energyMeter.totalKwh;
+
+    if (power !== undefined) {
+      this.energyMeter.addPowerSample(power);
+    }
+
+    const kwhHistory = this.powerChannel > 0
+      ? params[`kwhHistories${DeviceValueParser.channelPowerSuffix(this.powerChannel)}`]
+      : params.hundredDaysKwhData;
+    const todayKwh = DeviceValueParser.parseTodayKwh(kwhHistory);
+    if (todayKwh !== undefined) {
+      this.energyMeter.addDeviceKwh(todayKwh, 'hundredDaysKwh');
+    } else if (this.powerChannel === 0 && params.oneKwhData !== undefined) {
+      this.energyMeter.addDeviceKwh(parseFloat(String(params.oneKwhData)), 'oneKwh');
+    }
+
+    this.service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.TotalConsumption, this.energyMeter.totalKwh);
+
+    // Save the total with the accessory cache, not only on a clean shutdown
+    if (this.energyMeter.totalKwh !== previousKwh) {
+      this.saveEnergyTotal();
+    }
   }
 
   /**
@@ -95,6 +164,18 @@ export class OutletAccessory extends BaseAccessory {
    */
   private setupPowerMonitoring(): void {
     this.setupPowerMonitoringCharacteristics(this.service, this.hasFullPowerReadings);
+    this.energyMeter = this.setupEnergyMeter(this.service);
+    this.history = this.setupEveHistory('energy');
+
+    // Poll the device's own kWh counter where available; it is more accurate than integrating samples
+    const kwhRequest = this.getDeviceKwhRequest();
+    if (kwhRequest) {
+      this.setupPollingInterval(async () => {
+        if (this.isOnline) {
+          await this.sendCommand(kwhRequest);
+        }
+      }, ENERGY_TIMING.DEVICE_KWH_POLL_MS);
+    }
     this.logDebug(`Power monitoring enabled (full readings: ${this.hasFullPowerReadings})`);
   }
 
@@ -124,7 +205,7 @@ export class OutletAccessory extends BaseAccessory {
     } else {
       await this.handleSet(value as boolean, 'On', async (on) => {
         const params = SwitchHelper.buildSwitchParams(this.deviceParams, this.channelIndex, on);
-        return await this.sendCommand(params);
+        return await this.sendConfirmedCommand(params);
       });
     }
   }
@@ -135,7 +216,7 @@ export class OutletAccessory extends BaseAccessory {
   private async getOutletInUse(): Promise<CharacteristicValue> {
     return this.handleGet(() => {
       // If power monitoring is available, use it with threshold
-      const { power } = DeviceValueParser.parsePowerReadings(this.deviceParams);
+      const { power } = this.parsePowerReadings(this.deviceParams);
       if (power !== undefined) {
         return power > this.inUsePowerThreshold;
       }
@@ -179,7 +260,7 @@ export class OutletAccessory extends BaseAccessory {
 
       // Update OutletInUse based on power or cache state
       let inUse = this.cacheState;
-      const { power: powerValue } = DeviceValueParser.parsePowerReadings(params);
+      const { power: powerValue } = this.parsePowerReadings(params);
       if (powerValue !== undefined) {
         inUse = powerValue > this.inUsePowerThreshold;
       }
@@ -191,7 +272,7 @@ export class OutletAccessory extends BaseAccessory {
 
       // Update OutletInUse
       let inUse = isOn;
-      const { power: powerVal } = DeviceValueParser.parsePowerReadings(params);
+      const { power: powerVal } = this.parsePowerReadings(params);
       if (powerVal !== undefined) {
         inUse = powerVal > this.inUsePowerThreshold;
       }
@@ -202,10 +283,11 @@ export class OutletAccessory extends BaseAccessory {
 
     // Update Eve power monitoring characteristics if supported
     if (this.supportsPowerMonitoring()) {
-      const { power, voltage, current } = DeviceValueParser.parsePowerReadings(params);
+      const { power, voltage, current } = this.parsePowerReadings(params);
 
       if (power !== undefined) {
         this.service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.CurrentConsumption, power);
+        this.history?.addEntry({ power });
       }
 
       if (this.hasFullPowerReadings) {
@@ -216,6 +298,8 @@ export class OutletAccessory extends BaseAccessory {
           this.service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.ElectricCurrent, current);
         }
       }
+
+      this.updateEnergy(params, power);
     }
   }
 }
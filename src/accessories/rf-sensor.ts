@@ -1,8 +1,10 @@
 import type { PlatformAccessory, CharacteristicValue, Service, WithUUID } from 'homebridge';
 import { BaseAccessory } from './base.js';
 import type { EWeLinkPlatform } from '../platform.js';
-import type { AccessoryContext, DeviceParams, RFSubdeviceConfig } from '../types/index.js';
+import type { AccessoryContext, BridgeSensorConfig, DeviceParams } from '../types/index.js';
 import { SENSOR_TIMING } from '../constants/timing-constants.js';
+import { sendWebhook } from '../utils/webhook.js';
+import { getErrorMessage } from '../utils/error-utils.js';
 
 type SensorType = 'motion' | 'contact' | 'water' | 'smoke' | 'co' | 'co2' | 'occupancy' | 'button' | 'doorbell';
 
@@ -16,6 +18,7 @@ export class RFSensorAccessory extends BaseAccessory {
   private sensorType: SensorType;
   private sensorTimeLength: number;
   private sensorTimeDifference: number;
+  private sensorWebHook?: string;
   private lastActivationTime?: string;
 
   constructor(
@@ -25,10 +28,12 @@ export class RFSensorAccessory extends BaseAccessory {
     super(platform, accessory);
 
     // Get sensor configuration
-    const sensorConfig = this.getSensorConfig();
+    const sensorConfig = this.getRFSubdeviceConfig();
+    const bridgeSensorConfig = this.getBridgeSensorConfig();
     this.sensorType = (sensorConfig?.showAs || 'motion') as SensorType;
     this.sensorTimeLength = sensorConfig?.resetTime || 60;
-    this.sensorTimeDifference = SENSOR_TIMING.MAX_TIME_DIFF_S;
+    this.sensorTimeDifference = bridgeSensorConfig?.sensorTimeDifference || SENSOR_TIMING.MAX_TIME_DIFF_S;
+    this.sensorWebHook = bridgeSensorConfig?.sensorWebHook?.trim() || undefined;
 
     // Set up the appropriate sensor service
     this.setupSensorService();
@@ -37,20 +42,11 @@ export class RFSensorAccessory extends BaseAccessory {
   }
 
   /**
-   * Get sensor-specific configuration
+   * Get the bridgeSensors entry matching this sub-device (e.g. 1000ab23cdSW2)
    */
-  private getSensorConfig(): RFSubdeviceConfig | undefined {
-    const rfDevices = this.platform.config.rfDevices || [];
-    const bridgeDevice = rfDevices.find(
-      d => d.deviceId === this.accessory.context.device?.deviceid,
-    );
-
-    if (!bridgeDevice?.subdevices) {
-      return undefined;
-    }
-
-    const buttonIndex = this.accessory.context.rfButtonIndex;
-    return bridgeDevice.subdevices.find(s => s.index === buttonIndex);
+  private getBridgeSensorConfig(): BridgeSensorConfig | undefined {
+    const fullDeviceId = this.accessory.context.deviceId;
+    return this.platform.config.bridgeSensors?.find(s => s.fullDeviceId === fullDeviceId);
   }
 
   /**
@@ -253,6 +249,10 @@ export class RFSensorAccessory extends BaseAccessory {
     // Update sensor state
     this.updateSensorCharacteristic(1);
 
+    if (this.sensorWebHook) {
+      this.callWebHook(this.sensorWebHook, timestamp);
+    }
+
     // For non-stateless sensors, reset after timeout
     if (this.sensorType !== 'button' && this.sensorType !== 'doorbell') {
       setTimeout(() => {
@@ -262,6 +262,23 @@ export class RFSensorAccessory extends BaseAccessory {
     }
   }
 
+  /**
+   * Notify the configured webhook of a sensor trigger
+   * Runs in the background so HomeKit updates are not delayed by slow endpoints
+   */
+  private callWebHook(url: string, timestamp: string): void {
+    const payload = {
+      deviceId: this.accessory.context.deviceId,
+      type: this.sensorType,
+      label: this.getBridgeSensorConfig()?.label || this.accessory.displayName,
+      timestamp,
+    };
+
+    sendWebhook(url, payload)
+      .then(() => this.logDebug(`Webhook sent to ${url}`))
+      .catch((error) => this.logError(`Webhook to ${url} failed: ${getErrorMessage(error)}`));
+  }
+
   /**
    * Update state from device params (no-op for RF sensors)
    */
@@ -3,6 +3,8 @@ import { BaseAccessory } from './base.js';
 import type { EWeLinkPlatform } from '../platform.js';
 import type { AccessoryContext, DeviceParams, SensorDeviceConfig } from '../types/index.js';
 import { DeviceValueParser } from '../utils/device-parsers.js';
+import { EVE_CHARACTERISTIC_UUIDS } from '../utils/eve-characteristics.js';
+import type { EveHistory } from '../utils/eve-history.js';
 import { BATTERY_MIN, BATTERY_MAX, DEFAULT_BATTERY } from '../constants/device-constants.js';
 import {
   isMotionSensor as isMotionSensorUIID,
@@ -37,6 +39,9 @@ export class SensorAccessory extends BaseAccessory {
   /** Hide switch service */
   private readonly hideSwitch: boolean;
 
+  /** Eve door history (contact sensors only) */
+  private history?: EveHistory;
+
   constructor(
     platform: EWeLinkPlatform,
     accessory: PlatformAccessory<AccessoryContext>,
@@ -125,6 +130,11 @@ export class SensorAccessory extends BaseAccessory {
       this.contactService.getCharacteristic(this.Characteristic.ContactSensorState)
         .onGet(this.getContactState.bind(this));
 
+      if (!this.contactService.testCharacteristic(EVE_CHARACTERISTIC_UUIDS.LastActivation)) {
+        this.contactService.addCharacteristic(this.platform.eveCharacteristics.LastActivation);
+      }
+      this.history = this.setupEveHistory('door');
+
       this.service = this.contactService;
     }
 
@@ -320,12 +330,21 @@ export class SensorAccessory extends BaseAccessory {
     // Update contact
     if (this.contactService) {
       const isOpen = DeviceValueParser.parseContactState(params);
-      this.contactService.updateCharacteristic(
-        this.Characteristic.ContactSensorState,
-        isOpen
-          ? this.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
-          : this.Characteristic.ContactSensorState.CONTACT_DETECTED,
-      );
+      const state = isOpen
+        ? this.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+        : this.Characteristic.ContactSensorState.CONTACT_DETECTED;
+      const changed = this.contactService.getCharacteristic(this.Characteristic.ContactSensorState).value !== state;
+
+      this.contactService.updateCharacteristic(this.Characteristic.ContactSensorState, state);
+
+      // Record open/close changes for the Eve door graph
+      if (changed && this.history) {
+        this.history.addEntry({ status: isOpen ? 1 : 0 });
+        if (isOpen) {
+          const lastActivation = Math.floor(Date.now() / 1000) - this.history.getInitialTime();
+          this.contactService.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.LastActivation, lastActivation);
+        }
+      }
     }
 
     // Update battery
@@ -0,0 +1,163 @@
+import type { PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { BaseAccessory } from '../base.js';
+import type { EWeLinkPlatform } from '../../platform.js';
+import type { AccessoryContext, DeviceParams, RFSubdeviceConfig } from '../../types/index.js';
+import { sleep, generateRandomString } from '../../utils/sleep.js';
+import { SIMULATION_TIMING } from '../../constants/timing-constants.js';
+import { getRFGarageOptions } from '../../utils/rf-subdevices.js';
+
+/**
+ * RF Garage Door Simulation Accessory
+ * Uses RF bridge buttons to operate a garage door with timed state tracking
+ * Buttons: open, close (stored in accessory.context.buttons); a single button toggles the door
+ */
+export class RFGarageAccessory extends BaseAccessory {
+  /** Device configuration from platform.config.rfDevices */
+  private readonly deviceConfig?: RFSubdeviceConfig;
+
+  /** Operation time for opening in milliseconds */
+  private readonly operationTimeUp: number;
+
+  /** Operation time for closing in milliseconds */
+  private readonly operationTimeDown: number;
+
+  /** RF button channels */
+  private readonly chOpen: string;
+  private readonly chClose: string;
+
+  /** Update key to prevent race conditions */
+  private updateKey?: string;
+
+  constructor(
+    platform: EWeLinkPlatform,
+    accessory: PlatformAccessory<AccessoryContext>,
+  ) {
+    super(platform, accessory);
+
+    // Get RF subdevice configuration from rfDevices[].subdevices
+    this.deviceConfig = this.getRFSubdeviceConfig();
+
+    // Operation times (ms) and the open/close RF channels from the learned buttons
+    const options = getRFGarageOptions(this.deviceConfig, accessory.context.buttons);
+    this.operationTimeUp = options.operationTimeUp;
+    this.operationTimeDown = options.operationTimeDown;
+    this.chOpen = options.chOpen;
+    this.chClose = options.chClose;
+
+    // Remove any switch services from before simulation was configured
+    this.accessory.services
+      .filter(service => service.constructor.name === 'Switch')
+      .forEach(service => this.accessory.removeService(service));
+
+    // Restore cached state; a restart mid-operation leaves the door in its target state
+    const targetState = this.accessory.context.cacheTargetDoorState ?? this.Characteristic.TargetDoorState.CLOSED;
+    this.accessory.context.cacheTargetDoorState = targetState;
+    this.accessory.context.cacheDoorState = targetState;
+
+    // Set up GarageDoorOpener service
+    this.service = this.getOrAddService(this.Service.GarageDoorOpener);
+
+    this.service.updateCharacteristic(this.Characteristic.CurrentDoorState, targetState);
+    this.service.updateCharacteristic(this.Characteristic.TargetDoorState, targetState);
+    this.service.updateCharacteristic(this.Characteristic.ObstructionDetected, false);
+
+    this.service.getCharacteristic(this.Characteristic.TargetDoorState)
+      .onGet(this.getTargetDoorState.bind(this))
+      .onSet(this.setTargetDoorState.bind(this));
+
+    this.service.getCharacteristic(this.Characteristic.CurrentDoorState)
+      .onGet(this.getCurrentDoorState.bind(this));
+
+    this.logInfo(`Initialized as RF garage door (operation time: ${this.operationTimeUp / 1000}s open, ${this.operationTimeDown / 1000}s close)`);
+  }
+
+  /**
+   * Get current door state
+   */
+  private async getCurrentDoorState(): Promise<CharacteristicValue> {
+    return this.handleGet(() => {
+      return this.accessory.context.cacheDoorState ?? this.Characteristic.CurrentDoorState.CLOSED;
+    }, 'CurrentDoorState');
+  }
+
+  /**
+   * Get target door state
+   */
+  private async getTargetDoorState(): Promise<CharacteristicValue> {
+    return this.handleGet(() => {
+      return this.accessory.context.cacheTargetDoorState ?? this.Characteristic.TargetDoorState.CLOSED;
+    }, 'TargetDoorState');
+  }
+
+  /**
+   * Set target door state - sends the open/close RF code and tracks movement by time
+   */
+  private async setTargetDoorState(value: CharacteristicValue): Promise<void> {
+    const targetState = value as number;
+    const isOpening = targetState === this.Characteristic.TargetDoorState.OPEN;
+
+    if (targetState === this.accessory.context.cacheTargetDoorState) {
+      return;
+    }
+
+    try {
+      const updateKey = generateRandomString(5);
+      this.updateKey = updateKey;
+
+      const params: DeviceParams = {
+        cmd: 'transmit',
+        rfChl: parseInt(isOpening ? this.chOpen : this.chClose, 10),
+      };
+
+      const success = await this.sendCommand(params);
+      if (!success) {
+        throw new Error('RF transmit failed');
+      }
+
+      this.accessory.context.cacheTargetDoorState = targetState;
+      this.accessory.context.cacheDoorState = isOpening
+        ? this.Characteristic.CurrentDoorState.OPENING
+        : this.Characteristic.CurrentDoorState.CLOSING;
+      this.service.updateCharacteristic(this.Characteristic.CurrentDoorState, this.accessory.context.cacheDoorState);
+
+      this.logInfo(`Garage door ${isOpening ? 'opening' : 'closing'}`);
+
+      // Wait for movement to complete
+      await sleep(isOpening ? this.operationTimeUp : this.operationTimeDown);
+
+      // Check if this update was superseded
+      if (this.updateKey !== updateKey) {
+        return;
+      }
+
+      this.accessory.context.cacheDoorState = isOpening
+        ? this.Characteristic.CurrentDoorState.OPEN
+        : this.Characteristic.CurrentDoorState.CLOSED;
+      this.service.updateCharacteristic(this.Characteristic.CurrentDoorState, this.accessory.context.cacheDoorState);
+
+      this.logInfo(`Garage door ${isOpening ? 'open' : 'closed'}`);
+    } catch (err) {
+      this.logError('Failed to operate garage door:', err);
+
+      // Revert to previous target after error
+      setTimeout(() => {
+        this.service.updateCharacteristic(
+          this.Characteristic.TargetDoorState,
+          this.accessory.context.cacheTargetDoorState ?? this.Characteristic.TargetDoorState.CLOSED,
+        );
+      }, SIMULATION_TIMING.POSITION_CLEANUP_MS);
+
+      throw new this.platform.api.hap.HapStatusError(
+        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+      );
+    }
+  }
+
+  /**
+   * Update state from device params
+   * RF simulations don't receive state updates, so this is a no-op
+   */
+  updateState(_params: DeviceParams): void {
+    // No state updates for RF simulations
+  }
+}
@@ -34,18 +34,14 @@ export class RFWindowAccessory extends BaseAccessory {
   ) {
     super(platform, accessory);
 
-    // Get RF subdevice configuration from platform config
-    // Look up subdevice config in rfDevices array by matching device ID
-    const rfDeviceConfig = platform.config.rfDevices?.find(
-      d => d.deviceId === accessory.context.device?.deviceid,
-    );
-    this.deviceConfig = rfDeviceConfig?.subdevices?.find(
-      s => s.label === accessory.context.name,
-    );
+    // Get RF subdevice configuration from rfDevices[].subdevices
+    this.deviceConfig = this.getRFSubdeviceConfig();
 
     // Set operation times (convert seconds to deciseconds)
     this.operationTimeUp = (this.deviceConfig?.operationTime || SIMULATION_TIMING.DEFAULT_OPERATION_TIME_S) * 10;
-    this.operationTimeDown = this.operationTimeUp; // Use same time for both directions unless specified
+    this.operationTimeDown = this.deviceConfig?.operationTimeDown
+      ? this.deviceConfig.operationTimeDown * 10
+      : this.operationTimeUp; // Use same time for both directions unless specified
 
     // Get RF button channels from accessory context
     const buttons = accessory.context.buttons || {};
@@ -4,6 +4,7 @@ import type { EWeLinkPlatform } from '../../platform.js';
 import type { AccessoryContext, DeviceParams, SingleDeviceConfig, MultiDeviceConfig } from '../../types/index.js';
 import { SwitchHelper } from '../../utils/switch-helper.js';
 import { EVE_CHARACTERISTIC_UUIDS } from '../../utils/eve-characteristics.js';
+import type { EveHistory } from '../../utils/eve-history.js';
 import { POWER_DIVISOR, VOLTAGE_DIVISOR, CURRENT_DIVISOR } from '../../constants/device-constants.js';
 import {
   hasPowerMonitoring,
@@ -41,12 +42,12 @@ export class SensorAccessory extends BaseAccessory {
   /** Has full power readings (voltage + current) */
   private readonly hasFullPowerReadings: boolean;
 
-  /** Power update interval */
-  private powerInterval?: NodeJS.Timeout;
-
   /** Last activation time (Eve initial time) */
   private eveInitialTime = 0;
 
+  /** Eve door history (contact sensor type only) */
+  private history?: EveHistory;
+
   constructor(
     platform: EWeLinkPlatform,
     accessory: PlatformAccessory<AccessoryContext>,
@@ -142,18 +143,17 @@ export class SensorAccessory extends BaseAccessory {
       this.setupPowerMonitoring();
     }
 
-    // Initialize Eve history service
-    // Note: In TypeScript version, we'll need to integrate with fakegato-history separately
-    // For now, we'll store the initial time for LastActivation calculations
+    // Initialize Eve history service for contact sensors (door graph in the Eve app)
+    // LastActivation is measured from the history's initial time when there is one
+    if (this.sensorType === 'contact') {
+      this.history = this.setupEveHistory('door');
+    }
     this.eveInitialTime = Math.floor(Date.now() / 1000);
 
     // Set up power polling if supported
     if (this.powerReadings && (!this.isDualR3 || this.platform.config.mode !== 'lan')) {
       // Start polling after initial delay, then at regular interval
-      setTimeout(() => {
-        this.requestPowerUpdate();
-        this.powerInterval = setInterval(() => this.requestPowerUpdate(), POLLING.UPDATE_INTERVAL_MS);
-      }, POLLING.INITIAL_DELAY_MS);
+      this.setupPollingInterval(() => this.requestPowerUpdate());
     }
 
     // Set initial state
@@ -239,10 +239,11 @@ export class SensorAccessory extends BaseAccessory {
     const currentValue = this.service.getCharacteristic(this.sensorCharacteristic).value;
     if (currentValue !== sensorDetected) {
       this.service.updateCharacteristic(this.sensorCharacteristic, sensorDetected);
+      this.history?.addEntry({ status: sensorDetected });
 
       // Update LastActivation for motion and contact sensors when triggered
       if (this.useLastActivation && sensorDetected === 1) {
-        const timeSinceInitial = Math.floor(Date.now() / 1000) - this.eveInitialTime;
+        const timeSinceInitial = Math.floor(Date.now() / 1000) - (this.history?.getInitialTime() ?? this.eveInitialTime);
         this.service.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.LastActivation, timeSinceInitial);
       }
 
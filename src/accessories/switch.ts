@@ -82,7 +82,7 @@ export class SwitchAccessory extends BaseAccessory {
     } else {
       await this.handleSet(value as boolean, 'On', async (on) => {
         const params = SwitchHelper.buildSwitchParams(this.deviceParams, this.channelIndex, on);
-        return await this.sendCommand(params);
+        return await this.sendConfirmedCommand(params);
       });
     }
   }
@@ -3,6 +3,7 @@ import { BaseAccessory } from './base.js';
 import type { EWeLinkPlatform } from '../platform.js';
 import type { AccessoryContext, DeviceParams, ThermostatDeviceConfig } from '../types/index.js';
 import { DeviceValueParser } from '../utils/device-parsers.js';
+import type { EveHistory } from '../utils/eve-history.js';
 
 /**
  * Temperature/Humidity Sensor Accessory (UIID 15)
@@ -18,6 +19,9 @@ export class THSensorAccessory extends BaseAccessory {
   /** Device config */
   private readonly deviceConfig?: ThermostatDeviceConfig;
 
+  /** Eve temperature/humidity history */
+  private readonly history: EveHistory;
+
   constructor(
     platform: EWeLinkPlatform,
     accessory: PlatformAccessory<AccessoryContext>,
@@ -52,6 +56,9 @@ export class THSensorAccessory extends BaseAccessory {
     // Set the main service
     this.service = this.temperatureService;
 
+    // Record temperature/humidity for Eve graphs
+    this.history = this.setupEveHistory('weather');
+
     // Set initial state
     this.updateState(this.deviceParams);
   }
@@ -90,10 +97,13 @@ export class THSensorAccessory extends BaseAccessory {
   updateState(params: DeviceParams): void {
     this.mergeDeviceParams(params);
 
+    let temp: number | undefined;
+    let humidity: number | undefined;
+
     // Update temperature
     if (this.temperatureService) {
       const rawTemp = DeviceValueParser.parseTemperature(this.deviceParams);
-      const temp = this.applyTemperatureOffset(rawTemp, this.deviceConfig?.tempOffset || 0);
+      temp = this.applyTemperatureOffset(rawTemp, this.deviceConfig?.tempOffset || 0);
 
       this.temperatureService.updateCharacteristic(
         this.Characteristic.CurrentTemperature,
@@ -108,7 +118,7 @@ export class THSensorAccessory extends BaseAccessory {
     // Update humidity
     if (this.humidityService) {
       const rawHumidity = DeviceValueParser.parseHumidity(this.deviceParams);
-      const humidity = this.applyHumidityOffset(rawHumidity, this.deviceConfig?.humidityOffset || 0);
+      humidity = this.applyHumidityOffset(rawHumidity, this.deviceConfig?.humidityOffset || 0);
 
       this.humidityService.updateCharacteristic(
         this.Characteristic.CurrentRelativeHumidity,
@@ -116,5 +126,7 @@ export class THSensorAccessory extends BaseAccessory {
       );
       this.logDebug(`Humidity updated: ${humidity}%`);
     }
+
+    this.history.addEntry({ temp, humidity });
   }
 }
@@ -0,0 +1,334 @@
+import type { PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { BaseAccessory } from './base.js';
+import type { EWeLinkPlatform } from '../platform.js';
+import type { AccessoryContext, DeviceParams, ThermostatDeviceConfig } from '../types/index.js';
+import { getTrvParams } from '../constants/device-catalog.js';
+import { DeviceValueParser } from '../utils/device-parsers.js';
+import {
+  buildTrvModeParams,
+  buildTrvTargetParams,
+  getTrvMode,
+  getTrvTargetTemperature,
+  getTrvValvePosition,
+  isTrvHeating,
+  readTrvTemperature,
+  type TrvMode,
+  type TrvParams,
+} from '../utils/trv-params.js';
+import { EVE_CHARACTERISTIC_UUIDS } from '../utils/eve-characteristics.js';
+import {
+  THERMOSTAT_TEMP_STEP,
+  DEFAULT_TEMPERATURE,
+  DEFAULT_BATTERY,
+  BATTERY_MIN,
+  BATTERY_MAX,
+} from '../constants/device-constants.js';
+
+/**
+ * Zigbee Radiator Valve Accessory (UIID 7017)
+ * Param names, temperature scaling and range come from the catalog `trv` definition
+ */
+export class ZigbeeThermostatAccessory extends BaseAccessory {
+  /** Thermostat service */
+  private thermostatService: ReturnType<typeof this.getOrAddService>;
+
+  /** Battery service */
+  private batteryService: ReturnType<typeof this.getOrAddService>;
+
+  /** Child lock switch service */
+  private childLockService?: ReturnType<typeof this.getOrAddService>;
+
+  /** Window-open detection switch service */
+  private windowService?: ReturnType<typeof this.getOrAddService>;
+
+  /** TRV param definition */
+  private readonly trv: TrvParams;
+
+  /** Device config */
+  private readonly deviceConfig?: ThermostatDeviceConfig;
+
+  constructor(
+    platform: EWeLinkPlatform,
+    accessory: PlatformAccessory<AccessoryContext>,
+  ) {
+    super(platform, accessory);
+
+    this.trv = getTrvParams(this.device.extra?.uiid || 0)!;
+
+    this.deviceConfig = platform.config.thDevices?.find(
+      d => d.deviceId === this.deviceId,
+    );
+
+    // Set up thermostat service
+    this.thermostatService = this.getOrAddService(this.Service.Thermostat);
+
+    this.thermostatService.getCharacteristic(this.Characteristic.CurrentTemperature)
+      .setProps({ minStep: 0.1 })
+      .onGet(this.getCurrentTemperature.bind(this));
+
+    this.thermostatService.getCharacteristic(this.Characteristic.TargetTemperature)
+      .setProps({
+        minValue: this.trv.minTemp,
+        maxValue: this.trv.maxTemp,
+        minStep: THERMOSTAT_TEMP_STEP,
+      })
+      .onGet(this.getTargetTemperature.bind(this))
+      .onSet(this.setTargetTemperature.bind(this));
+
+    const { OFF, HEAT, AUTO } = this.Characteristic.TargetHeatingCoolingState;
+    this.thermostatService.getCharacteristic(this.Characteristic.TargetHeatingCoolingState)
+      .setProps({
+        minValue: OFF,
+        maxValue: AUTO,
+        validValues: [OFF, HEAT, AUTO],
+      })
+      .onGet(this.getTargetHeatingCoolingState.bind(this))
+      .onSet(this.setTargetHeatingCoolingState.bind(this));
+
+    this.thermostatService.getCharacteristic(this.Characteristic.CurrentHeatingCoolingState)
+      .onGet(this.getCurrentHeatingCoolingState.bind(this));
+
+    // Valve opening shown in the Eve app
+    if (this.trv.valvePosition &&
+        !this.thermostatService.testCharacteristic(EVE_CHARACTERISTIC_UUIDS.ValvePosition)) {
+      this.thermostatService.addCharacteristic(this.platform.eveCharacteristics.ValvePosition);
+    }
+
+    // Battery service
+    this.batteryService = this.getOrAddService(this.Service.Battery);
+
+    this.batteryService.getCharacteristic(this.Characteristic.BatteryLevel)
+      .onGet(this.getBatteryLevel.bind(this));
+
+    this.batteryService.getCharacteristic(this.Characteristic.StatusLowBattery)
+      .onGet(this.getStatusLowBattery.bind(this));
+
+    // Child lock and window-open detection settings as switches
+    if (this.trv.childLock) {
+      const param = this.trv.childLock;
+      this.childLockService = this.getOrAddService(this.Service.Switch, 'Child Lock', 'childlock');
+      this.childLockService.getCharacteristic(this.Characteristic.On)
+        .onGet(() => this.handleGet(() => this.isEnabled(param), 'ChildLock'))
+        .onSet(value => this.setFlag(param, value, 'ChildLock'));
+    }
+
+    if (this.trv.windowOpen) {
+      const param = this.trv.windowOpen;
+      this.windowService = this.getOrAddService(this.Service.Switch, 'Window Detection', 'window');
+      this.windowService.getCharacteristic(this.Characteristic.On)
+        .onGet(() => this.handleGet(() => this.isEnabled(param), 'WindowDetection'))
+        .onSet(value => this.setFlag(param, value, 'WindowDetection'));
+    }
+
+    // Set the main service
+    this.service = this.thermostatService;
+
+    // Set initial state
+    this.updateState(this.deviceParams);
+  }
+
+  /**
+   * Measured temperature with the configured offset
+   */
+  private currentTemperature(): number {
+    return this.applyTemperatureOffset(
+      readTrvTemperature(this.deviceParams, this.trv, this.trv.currentTemp, DEFAULT_TEMPERATURE),
+      this.deviceConfig?.tempOffset || 0,
+    );
+  }
+
+  /**
+   * Active target temperature, clamped to the valve's range
+   */
+  private targetTemperature(): number {
+    return getTrvTargetTemperature(this.deviceParams, this.trv, DEFAULT_TEMPERATURE);
+  }
+
+  /**
+   * Whether a boolean TRV setting is on (reported as a boolean or 'on')
+   */
+  private isEnabled(param: string): boolean {
+    const value = this.deviceParams[param];
+    return value === true || value === 'on';
+  }
+
+  /**
+   * Map power and work mode to a HomeKit target state
+   */
+  private targetState(): number {
+    const { OFF, HEAT, AUTO } = this.Characteristic.TargetHeatingCoolingState;
+    return { off: OFF, heat: HEAT, auto: AUTO }[getTrvMode(this.deviceParams, this.trv)];
+  }
+
+  /**
+   * Heating while switched on and the valve is open (or the room is below target)
+   */
+  private currentState(): number {
+    const { OFF, HEAT } = this.Characteristic.CurrentHeatingCoolingState;
+    return isTrvHeating(this.deviceParams, this.trv, this.currentTemperature(), DEFAULT_TEMPERATURE) ? HEAT : OFF;
+  }
+
+  /**
+   * Battery level in %
+   */
+  private batteryLevel(): number {
+    return this.clamp(
+      DeviceValueParser.parseBattery(this.deviceParams, DEFAULT_BATTERY),
+      BATTERY_MIN,
+      BATTERY_MAX,
+    );
+  }
+
+  /**
+   * Get current temperature
+   */
+  private async getCurrentTemperature(): Promise<CharacteristicValue> {
+    return this.handleGet(() => this.currentTemperature(), 'CurrentTemperature');
+  }
+
+  /**
+   * Get target temperature
+   */
+  private async getTargetTemperature(): Promise<CharacteristicValue> {
+    return this.handleGet(() => this.targetTemperature(), 'TargetTemperature');
+  }
+
+  /**
+   * Get target heating/cooling state
+   */
+  private async getTargetHeatingCoolingState(): Promise<CharacteristicValue> {
+    return this.handleGet(() => this.targetState(), 'TargetHeatingCoolingState');
+  }
+
+  /**
+   * Get current heating/cooling state
+   */
+  private async getCurrentHeatingCoolingState(): Promise<CharacteristicValue> {
+    return this.handleGet(() => this.currentState(), 'CurrentHeatingCoolingState');
+  }
+
+  /**
+   * Get battery level
+   */
+  private async getBatteryLevel(): Promise<CharacteristicValue> {
+    return this.handleGet(() => this.batteryLevel(), 'BatteryLevel');
+  }
+
+  /**
+   * Get low battery status
+   */
+  private async getStatusLowBattery(): Promise<CharacteristicValue> {
+    return this.handleGet(() => {
+      return this.batteryLevel() < 20
+        ? this.Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW
+        : this.Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL;
+    }, 'StatusLowBattery');
+  }
+
+  /**
+   * Set target temperature
+   * The valve keeps separate targets per mode, so a new target switches it to manual
+   */
+  private async setTargetTemperature(value: CharacteristicValue): Promise<void> {
+    await this.handleSet(value, 'TargetTemperature', async (val) => {
+      const { command, state, celsius } = buildTrvTargetParams(this.deviceParams, this.trv, Number(val));
+
+      const success = await this.sendCommand(command);
+      if (success) {
+        // The target is written to one param and reported in another; read back the new one until the valve reports
+        this.mergeDeviceParams(state);
+        this.logInfo(`Set target temperature: ${celsius}°C`);
+      }
+      return success;
+    });
+  }
+
+  /**
+   * Set target heating/cooling state
+   * OFF turns the valve off, HEAT selects manual mode and AUTO the device schedule
+   */
+  private async setTargetHeatingCoolingState(value: CharacteristicValue): Promise<void> {
+    await this.handleSet(value, 'TargetHeatingCoolingState', async (val) => {
+      const { OFF, AUTO } = this.Characteristic.TargetHeatingCoolingState;
+      const mode: TrvMode = val === OFF ? 'off' : val === AUTO ? 'auto' : 'heat';
+
+      const success = await this.sendCommand(buildTrvModeParams(this.trv, mode));
+      if (success) {
+        this.logInfo(`Set heating mode: ${mode}`);
+      }
+      return success;
+    });
+  }
+
+  /**
+   * Set a boolean TRV setting (child lock, window-open detection)
+   */
+  private async setFlag(param: string, value: CharacteristicValue, characteristic: string): Promise<void> {
+    await this.handleSet(value as boolean, characteristic, async (on) => {
+      return await this.sendCommand({ [param]: on });
+    });
+  }
+
+  /**
+   * Update state from device params
+   */
+  updateState(params: DeviceParams): void {
+    this.mergeDeviceParams(params);
+
+    const { currentTemp, targetTemp, power, mode, valvePosition, childLock, windowOpen } = this.trv;
+
+    if (params[currentTemp] !== undefined) {
+      const temp = this.currentTemperature();
+      this.thermostatService.updateCharacteristic(this.Characteristic.CurrentTemperature, temp);
+      this.logDebug(`Current temperature updated: ${temp}°C`);
+
+      // Cache temperature for cross-device sharing (heater/cooler simulations)
+      this.platform.setDeviceTemperature(this.deviceId, temp);
+    }
+
+    if (params[targetTemp] !== undefined) {
+      const temp = this.targetTemperature();
+      this.thermostatService.updateCharacteristic(this.Characteristic.TargetTemperature, temp);
+      this.logDebug(`Target temperature updated: ${temp}°C`);
+    }
+
+    if (params[power] !== undefined || params[mode.param] !== undefined) {
+      this.thermostatService.updateCharacteristic(
+        this.Characteristic.TargetHeatingCoolingState,
+        this.targetState(),
+      );
+    }
+
+    if (valvePosition && params[valvePosition] !== undefined) {
+      const position = getTrvValvePosition(this.deviceParams, this.trv);
+      if (position !== undefined) {
+        this.thermostatService.updateCharacteristic(EVE_CHARACTERISTIC_UUIDS.ValvePosition, position);
+        this.logDebug(`Valve position updated: ${position}%`);
+      }
+    }
+
+    this.thermostatService.updateCharacteristic(
+      this.Characteristic.CurrentHeatingCoolingState,
+      this.currentState(),
+    );
+
+    if (params.battery !== undefined) {
+      const level = this.batteryLevel();
+      this.batteryService.updateCharacteristic(this.Characteristic.BatteryLevel, level);
+      this.batteryService.updateCharacteristic(
+        this.Characteristic.StatusLowBattery,
+        level < 20
+          ? this.Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW
+          : this.Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL,
+      );
+    }
+
+    if (childLock && params[childLock] !== undefined) {
+      this.childLockService?.updateCharacteristic(this.Characteristic.On, this.isEnabled(childLock));
+    }
+
+    if (windowOpen && params[windowOpen] !== undefined) {
+      this.windowService?.updateCharacteristic(this.Characteristic.On, this.isEnabled(windowOpen));
+    }
+  }
+}
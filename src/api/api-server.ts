@@ -0,0 +1,321 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import type { EWeLinkPlatform } from '../platform.js';
+import type { DeviceParams, EWeLinkDevice } from '../types/index.js';
+import { DEVICE_UIID_MAP, DeviceCategory } from '../settings.js';
+import { getChannelCount } from '../constants/device-catalog.js';
+import { CHANNEL_SUFFIX_PATTERN } from '../constants/device-constants.js';
+import { API_SERVER } from '../constants/network-constants.js';
+import { SwitchHelper } from '../utils/switch-helper.js';
+import { getErrorMessage } from '../utils/error-utils.js';
+
+/**
+ * Error raised while handling an API request, carries the HTTP status to return
+ */
+class ApiRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Parsed device address (`<deviceid>` or `<deviceid>SW<n>`)
+ */
+interface DeviceAddress {
+  /** Address as given in the URL */
+  id: string;
+  /** Parent device ID without channel suffix */
+  deviceId: string;
+  /** Channel number, undefined when the whole device is addressed */
+  channel?: number;
+}
+
+/**
+ * Local HTTP API server for automation scripts
+ *
+ * Exposes the platform's device cache and routes commands through
+ * `EWeLinkPlatform.sendDeviceCommand`, so LAN/cloud routing and the
+ * command queue apply exactly as for HomeKit writes.
+ *
+ * Routes (all require `Authorization: Bearer <apiToken>`):
+ * - `GET  /devices`      - list known devices
+ * - `GET  /devices/:id`  - current params of a device or channel
+ * - `POST /devices/:id`  - send params to a device or channel
+ */
+export class ApiServer {
+  private readonly platform: EWeLinkPlatform;
+  private server: http.Server | null = null;
+
+  constructor(platform: EWeLinkPlatform) {
+    this.platform = platform;
+  }
+
+  /**
+   * Start listening on the configured host and port
+   */
+  async start(): Promise<void> {
+    const { apiPort, apiToken } = this.platform.config;
+    const host = this.platform.config.httpHost || API_SERVER.DEFAULT_HOST;
+
+    if (apiPort === undefined) {
+      return;
+    }
+
+    if (!apiToken) {
+      this.platform.log.warn('Local API server not started: apiToken must be set when apiPort is configured');
+      return;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server!.once('error', (error) => {
+        this.platform.log.error(`Local API server failed to start on ${host}:${apiPort}: ${error.message}`);
+        this.server = null;
+        resolve();
+      });
+      this.server!.listen(apiPort, host, () => {
+        this.platform.log.info(`Local API server listening on http://${host}:${apiPort}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop the server
+   */
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+      this.platform.log.debug('Local API server stopped');
+    }
+  }
+
+  /**
+   * Get the bound port (useful when configured with port 0)
+   */
+  getPort(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  /**
+   * Handle a single HTTP request
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      if (!this.isAuthorized(req)) {
+        throw new ApiRequestError(401, 'Unauthorized');
+      }
+
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      let segments: string[];
+      try {
+        segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+      } catch {
+        throw new ApiRequestError(400, 'Malformed URL encoding');
+      }
+
+      if (segments[0] !== 'devices' || segments.length > 2) {
+        throw new ApiRequestError(404, 'Not found');
+      }
+
+      if (segments.length === 1) {
+        if (req.method !== 'GET') {
+          throw new ApiRequestError(405, 'Method not allowed');
+        }
+        this.sendJson(res, 200, { success: true, devices: this.listDevices() });
+        return;
+      }
+
+      const address = this.parseAddress(segments[1]);
+
+      if (req.method === 'GET') {
+        this.sendJson(res, 200, { success: true, ...this.getDeviceState(address) });
+      } else if (req.method === 'POST') {
+        const body = await this.readBody(req);
+        const params = await this.sendCommand(address, body);
+        this.sendJson(res, 200, { success: true, deviceId: address.id, params });
+      } else {
+        throw new ApiRequestError(405, 'Method not allowed');
+      }
+
+    } catch (error) {
+      const status = error instanceof ApiRequestError ? error.status : 500;
+      if (status === 500) {
+        this.platform.log.error('Local API request failed:', getErrorMessage(error));
+      } else {
+        this.platform.log.debug(`Local API ${req.method} ${req.url} -> ${status}: ${getErrorMessage(error)}`);
+      }
+      if (status === 413) {
+        // The rest of the body is never read, so the connection cannot be reused
+        res.on('finish', () => req.destroy());
+        this.sendJson(res, status, { success: false, error: getErrorMessage(error) }, { Connection: 'close' });
+        return;
+      }
+      this.sendJson(res, status, { success: false, error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Check the bearer token using a constant-time comparison
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.platform.config.apiToken || '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Build the device list response
+   */
+  private listDevices(): Array<Record<string, unknown>> {
+    return Array.from(this.platform.deviceCache.values()).map(device => {
+      const uiid = device.extra?.uiid || 0;
+      return {
+        deviceId: device.deviceid,
+        name: device.name,
+        uiid,
+        category: DEVICE_UIID_MAP[uiid] || DeviceCategory.UNKNOWN,
+        channels: getChannelCount(uiid),
+        online: device.online,
+        reachableLAN: this.platform.lanControl?.isDeviceAvailable(device.deviceid) ?? false,
+      };
+    });
+  }
+
+  /**
+   * Resolve `<deviceid>` / `<deviceid>SW<n>` into its parts
+   */
+  private parseAddress(id: string): DeviceAddress {
+    const suffix = id.match(CHANNEL_SUFFIX_PATTERN);
+    const deviceId = id.replace(CHANNEL_SUFFIX_PATTERN, '');
+    const channel = suffix ? parseInt(suffix[0].slice(2), 10) : undefined;
+
+    const device = this.platform.deviceCache.get(deviceId);
+    if (!device) {
+      throw new ApiRequestError(404, `Device not found: ${id}`);
+    }
+
+    if (channel !== undefined && channel > getChannelCount(device.extra?.uiid || 0)) {
+      throw new ApiRequestError(404, `Channel ${channel} not found on device ${deviceId}`);
+    }
+
+    return { id, deviceId, channel };
+  }
+
+  /**
+   * Build the state response for a device or channel
+   */
+  private getDeviceState(address: DeviceAddress): Record<string, unknown> {
+    const device = this.getDevice(address);
+    const params = device.params || {};
+    const state: Record<string, unknown> = {
+      deviceId: address.id,
+      name: device.name,
+      online: device.online,
+      params,
+    };
+
+    if (address.channel !== undefined && address.channel > 0) {
+      state.switch = SwitchHelper.getCurrentState(params, address.channel) ? 'on' : 'off';
+    }
+
+    return state;
+  }
+
+  /**
+   * Send params to a device, translating `switch` for channel addresses
+   */
+  private async sendCommand(address: DeviceAddress, body: unknown): Promise<DeviceParams> {
+    if (!body || typeof body !== 'object' || Array.isArray(body) || Object.keys(body).length === 0) {
+      throw new ApiRequestError(400, 'Request body must be a non-empty JSON object of device params');
+    }
+
+    const device = this.getDevice(address);
+    if (device.online === false && !this.platform.lanControl?.isDeviceAvailable(address.deviceId)) {
+      throw new ApiRequestError(503, `Device is offline: ${address.id}`);
+    }
+
+    const params = address.channel !== undefined
+      ? SwitchHelper.buildChannelCommand(device.params || {}, address.channel, body as DeviceParams)
+      : body as DeviceParams;
+
+    const success = await this.platform.sendDeviceCommand(address.id, params);
+    if (!success) {
+      throw new ApiRequestError(502, `Device did not accept the command: ${address.id}`);
+    }
+
+    return params;
+  }
+
+  /**
+   * Get the cached device for an address
+   */
+  private getDevice(address: DeviceAddress): EWeLinkDevice {
+    const device = this.platform.deviceCache.get(address.deviceId);
+    if (!device) {
+      throw new ApiRequestError(404, `Device not found: ${address.id}`);
+    }
+    return device;
+  }
+
+  /**
+   * Read and parse a JSON request body
+   */
+  private readBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > API_SERVER.MAX_BODY_BYTES) {
+          // Stop reading; the connection is closed once the 413 is sent
+          req.pause();
+          req.removeAllListeners('data');
+          reject(new ApiRequestError(413, 'Request body too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => {
+        try {
+          const text = Buffer.concat(chunks).toString('utf8');
+          resolve(text ? JSON.parse(text) : {});
+        } catch {
+          reject(new ApiRequestError(400, 'Invalid JSON body'));
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private sendJson(
+    res: http.ServerResponse,
+    status: number,
+    body: Record<string, unknown>,
+    headers: http.OutgoingHttpHeaders = {},
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}
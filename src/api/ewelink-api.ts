@@ -1,42 +1,73 @@
-import type { AxiosInstance } from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import axios from 'axios';
 import { createHmac } from 'crypto';
 import type { EWeLinkPlatform } from '../platform.js';
 import { API_REGIONS, EWELINK_APP_ID, EWELINK_APP_SECRET } from '../settings.js';
 import { TokenStorage } from '../utils/token-storage.js';
+import { TokenManager, type RefreshedTokens, type TokenSet } from '../utils/token-manager.js';
+import { getErrorMessage } from '../utils/error-utils.js';
 import { CryptoUtils } from '../utils/crypto-utils.js';
 import { API_TIMEOUTS, WEBSOCKET_HOST_MAPPING, WEBSOCKET_FALLBACK_HOSTS } from '../constants/api-constants.js';
 import { getRegionFromCountryCode } from '../constants/region-constants.js';
 import type {
+  EWeLinkAccountConfig,
   EWeLinkDevice,
+  EWeLinkGroup,
+  EWeLinkHome,
   APIResponse,
   LoginResponse,
   RefreshTokenResponse,
 } from '../types/index.js';
 
+/**
+ * Request config flagged once it has been sent again with a renewed session
+ */
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
 /**
  * eWeLink HTTP API Client
+ * Uses the platform credentials, or those of an additional account from `accounts`
  */
 export class EWeLinkAPI {
   private readonly platform: EWeLinkPlatform;
+  private readonly credentials: Pick<EWeLinkAccountConfig, 'username' | 'password' | 'countryCode'>;
+  /** Name of an additional account, for the log */
+  public readonly label?: string;
   private readonly httpClient: AxiosInstance;
+  /** eWeLink developer app used to sign requests (`appId`/`appSecret`, or the built-in app) */
+  private readonly appId: string;
+  private readonly appSecret: string;
   private httpHost: string;
-  private readonly tokenStorage: TokenStorage;
+  private readonly tokenManager: TokenManager;
   public apiKey = '';
   public accessToken = '';
   public refreshToken = '';
   public region: keyof typeof API_REGIONS;
   private triedBase64 = false;
 
-  constructor(platform: EWeLinkPlatform) {
+  constructor(platform: EWeLinkPlatform, account?: EWeLinkAccountConfig) {
     this.platform = platform;
-
-    // Initialize token storage
-    const storagePath = platform.api?.user?.storagePath?.() || platform.api?.user?.persistPath?.() || '/tmp';
-    this.tokenStorage = new TokenStorage(storagePath);
+    this.credentials = account ?? {
+      username: platform.config.username ?? '',
+      password: platform.config.password ?? '',
+      countryCode: platform.config.countryCode,
+    };
+    this.label = account?.label;
+    this.appId = platform.config.appId || EWELINK_APP_ID;
+    this.appSecret = platform.config.appSecret || EWELINK_APP_SECRET;
+
+    // Initialize token storage in the Homebridge storage path (additional accounts keep their own file)
+    const storagePath = platform.api.user.storagePath();
+    this.tokenManager = new TokenManager({
+      storage: new TokenStorage(storagePath, account?.username, platform.config.encryptTokens),
+      log: platform.log,
+      username: this.credentials.username || undefined,
+      refresh: (refreshToken) => this.requestTokenRefresh(refreshToken),
+      apply: (tokens) => this.applyTokens(tokens),
+    });
 
     // Determine region from country code
-    this.region = getRegionFromCountryCode(platform.config.countryCode) as keyof typeof API_REGIONS;
+    this.region = getRegionFromCountryCode(this.credentials.countryCode) as keyof typeof API_REGIONS;
     this.httpHost = API_REGIONS[this.region].httpHost;
 
     // Create HTTP client
@@ -45,28 +76,29 @@ export class EWeLinkAPI {
       timeout: API_TIMEOUTS.HTTP_REQUEST,
       headers: {
         'Content-Type': 'application/json',
-        'X-CK-Appid': EWELINK_APP_ID,
+        'X-CK-Appid': this.appId,
       },
     });
 
     // Add response interceptor for token refresh
+    // The API reports an expired access token as HTTP 401 or as error 401 in the body
+    // Count failed calls for the metrics endpoint on the way (the UI server's stand-in platform has no metrics)
     this.httpClient.interceptors.response.use(
-      (response) => response,
-      async (error) => {
-        const originalRequest = error.config;
-
-        // If 401 and we haven't retried yet, refresh token
-        if (error.response?.status === 401 && !originalRequest._retry) {
-          originalRequest._retry = true;
-
-          try {
-            await this.refreshAccessToken();
-            originalRequest.headers.Authorization = `Bearer ${this.accessToken}`;
-            return this.httpClient(originalRequest);
-          } catch (refreshError) {
-            return Promise.reject(refreshError);
+      (response) => {
+        if (typeof response.data?.error === 'number' && response.data.error !== 0) {
+          this.platform.metrics?.recordApiError('api');
+          if (response.data.error === 401 && this.canRetryWithNewSession(response.config)) {
+            return this.retryWithNewSession(response.config);
           }
         }
+        return response;
+      },
+      async (error) => {
+        this.platform.metrics?.recordApiError('http');
+
+        if (error.response?.status === 401 && this.canRetryWithNewSession(error.config)) {
+          return this.retryWithNewSession(error.config);
+        }
 
         return Promise.reject(error);
       },
@@ -77,7 +109,7 @@ export class EWeLinkAPI {
    * Generate signature for API requests
    */
   private generateSignature(data: string): string {
-    return createHmac('sha256', EWELINK_APP_SECRET)
+    return createHmac('sha256', this.appSecret)
       .update(data)
       .digest('base64');
   }
@@ -90,7 +122,7 @@ export class EWeLinkAPI {
    */
   async login(): Promise<void> {
     this.platform.log.debug('=== LOGIN START ===');
-    const { username, password } = this.platform.config;
+    const { username, password } = this.credentials;
 
     this.platform.log.debug(`Username: ${username ? username.substring(0, 3) + '***' : 'EMPTY'}`);
     this.platform.log.debug(`Password: ${password ? '[REDACTED]' : 'EMPTY'}`);
@@ -117,7 +149,7 @@ export class EWeLinkAPI {
     // Build login data with specific key order (important for signature!)
     // Must be: countryCode, password, then email/phoneNumber
     const loginData: Record<string, string> = {
-      countryCode: this.platform.config.countryCode || '1',
+      countryCode: this.credentials.countryCode || '1',
       password: this.currentPassword,
     };
 
@@ -135,7 +167,7 @@ export class EWeLinkAPI {
     this.platform.log.debug(`FULL Signature: ${signature}`);
 
     this.platform.log.debug(`Full URL: https://${this.httpHost}/v2/user/login`);
-    this.platform.log.debug(`Headers - X-CK-Appid: ${EWELINK_APP_ID}`);
+    this.platform.log.debug(`Headers - X-CK-Appid: ${this.appId}`);
     this.platform.log.debug(`Headers - X-CK-Nonce: ${nonce}`);
     this.platform.log.debug(`Headers - Authorization: Sign ${signature.substring(0, 20)}...`);
 
@@ -179,6 +211,7 @@ export class EWeLinkAPI {
             throw new Error(`Unknown region received: ${givenRegion}`);
         }
 
+        this.region = givenRegion;
         this.httpClient.defaults.baseURL = `https://${this.httpHost}`;
         this.platform.log.debug(`Retrying login with new host: ${this.httpHost}`);
         return await this.login();
@@ -200,25 +233,17 @@ export class EWeLinkAPI {
       // Check for successful login
       if (body.data?.at) {
         this.platform.log.debug('Login successful - extracting tokens');
-        this.accessToken = body.data.at;
-        this.refreshToken = body.data.rt;
-        this.apiKey = body.data.user.apikey;
-
-        this.platform.log.debug('Tokens received and stored');
-
-        // Set default authorization header
-        this.httpClient.defaults.headers.common.Authorization = `Bearer ${this.accessToken}`;
 
-        // Save tokens to shared storage
-        this.tokenStorage.save({
-          accessToken: this.accessToken,
-          refreshToken: this.refreshToken,
-          apiKey: this.apiKey,
+        // Use the tokens and save them to shared storage
+        this.tokenManager.store({
+          accessToken: body.data.at,
+          refreshToken: body.data.rt,
+          apiKey: body.data.user.apikey,
           region: this.region,
         });
         this.platform.log.debug('Tokens saved to shared storage');
 
-        this.platform.log.info('✓ Successfully logged in to eWeLink');
+        this.platform.log.info(`✓ Successfully logged in to eWeLink${this.label ? ` (${this.label})` : ''}`);
         this.platform.log.debug('=== LOGIN END (SUCCESS) ===');
         return;
       }
@@ -248,33 +273,107 @@ export class EWeLinkAPI {
   }
 
   /**
-   * Refresh access token
+   * Resume the session saved in the token file, or log in with the password
+   * Then keeps the session renewed before the access token expires
+   */
+  async authenticate(): Promise<void> {
+    if (this.tokenManager.reload()) {
+      const expiry = new Date(this.tokenManager.getExpiry()!).toISOString();
+      this.platform.log.info(`✓ Resumed eWeLink session${this.label ? ` (${this.label})` : ''}, valid until ${expiry}`);
+      await this.tokenManager.renewIfDue();
+    } else if (!this.credentials.password) {
+      throw new Error('No saved eWeLink session, sign in with eWeLink in the plugin settings');
+    } else {
+      await this.login();
+    }
+
+    this.tokenManager.start();
+  }
+
+  /**
+   * Stop renewing the session
+   */
+  stopTokenRenewal(): void {
+    this.tokenManager.stop();
+  }
+
+  /**
+   * Refresh access token, persisting the new tokens
    */
   private async refreshAccessToken(): Promise<void> {
+    await this.tokenManager.refresh();
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   */
+  private async requestTokenRefresh(refreshToken: string): Promise<RefreshedTokens> {
     const response = await this.httpClient.post<APIResponse<RefreshTokenResponse>>(
       '/v2/user/refresh',
       {
-        rt: this.refreshToken,
+        rt: refreshToken,
       },
     );
 
-    if (response.data.error !== 0) {
-      throw new Error('Failed to refresh token');
+    if (response.data.error !== 0 || !response.data.data?.at) {
+      throw new Error(`Failed to refresh token${response.data.msg ? `: ${response.data.msg}` : ''}`);
+    }
+
+    return { accessToken: response.data.data.at, refreshToken: response.data.data.rt };
+  }
+
+  /**
+   * Use tokens from the token manager
+   */
+  private applyTokens(tokens: TokenSet): void {
+    this.accessToken = tokens.accessToken;
+    this.refreshToken = tokens.refreshToken;
+    this.apiKey = tokens.apiKey;
+
+    if (tokens.region in API_REGIONS && tokens.region !== this.region) {
+      this.region = tokens.region as keyof typeof API_REGIONS;
+      this.httpHost = API_REGIONS[this.region].httpHost;
+      this.httpClient.defaults.baseURL = `https://${this.httpHost}`;
     }
 
-    this.accessToken = response.data.data!.at;
-    this.refreshToken = response.data.data!.rt;
     this.httpClient.defaults.headers.common.Authorization = `Bearer ${this.accessToken}`;
+  }
 
-    this.platform.log.debug('Token refreshed successfully');
+  /**
+   * Whether a request rejected for an expired token may be sent again
+   * Token endpoints are never retried, so a failed refresh cannot trigger another one
+   */
+  private canRetryWithNewSession(config: RetryableRequestConfig | undefined): config is RetryableRequestConfig {
+    return !!config && !config._retry && !['/v2/user/refresh', '/v2/user/login'].includes(config.url ?? '');
   }
 
   /**
-   * Get list of homes/families
+   * Renew the session and send a request again
+   * Falls back to a password login when the refresh token is rejected too
    */
-  async getHomes(): Promise<string[]> {
+  private async retryWithNewSession(config: RetryableRequestConfig): Promise<AxiosResponse> {
+    config._retry = true;
+
     try {
-      const response = await this.httpClient.get<APIResponse<{ familyList: Array<{ id: string; name: string }> }>>(
+      await this.refreshAccessToken();
+    } catch (error) {
+      if (!this.credentials.username || !this.credentials.password) {
+        throw error;
+      }
+      this.platform.log.warn(`Token refresh failed (${getErrorMessage(error)}), logging in again`);
+      await this.login();
+    }
+
+    config.headers.Authorization = `Bearer ${this.accessToken}`;
+    return this.httpClient(config);
+  }
+
+  /**
+   * Get list of homes/families with their names
+   */
+  async getHomeList(): Promise<EWeLinkHome[]> {
+    try {
+      const response = await this.httpClient.get<APIResponse<{ familyList: EWeLinkHome[] }>>(
         '/v2/family',
       );
 
@@ -284,7 +383,7 @@ export class EWeLinkAPI {
 
       const homes = response.data.data.familyList.map(family => {
         this.platform.log.debug(`Found home: ${family.name} [${family.id}]`);
-        return family.id;
+        return { id: family.id, name: family.name };
       });
 
       this.platform.log.debug(`Retrieved ${homes.length} homes from API`);
@@ -299,57 +398,78 @@ export class EWeLinkAPI {
   }
 
   /**
-   * Get list of devices and groups
+   * Get list of home/family IDs
+   */
+  async getHomes(): Promise<string[]> {
+    const homes = await this.getHomeList();
+    return homes.map(home => home.id);
+  }
+
+  /**
+   * Get list of devices and groups, skipping homes listed in `ignoredHomes`
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  async getDevices(): Promise<{ devices: EWeLinkDevice[]; groups: any[] }> {
+  async getDevices(): Promise<{ devices: EWeLinkDevice[]; groups: EWeLinkGroup[]; homes: EWeLinkHome[] }> {
     try {
       // First get the list of homes
-      const homeIds = await this.getHomes();
+      const homes = await this.getHomeList();
 
-      if (homeIds.length === 0) {
+      if (homes.length === 0) {
         this.platform.log.warn('No homes found in eWeLink account');
-        return { devices: [], groups: [] };
+        return { devices: [], groups: [], homes };
       }
 
+      const ignoredHomes = new Set(this.platform.config.ignoredHomes || []);
       const allDevices: EWeLinkDevice[] = [];
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const allGroups: any[] = [];
+      const allGroups: EWeLinkGroup[] = [];
 
       // Get devices for each home
-      for (const homeId of homeIds) {
-        this.platform.log.debug(`Fetching devices for home: ${homeId}`);
+      for (const home of homes) {
+        if (ignoredHomes.has(home.id)) {
+          this.platform.log.info(`Skipping ignored home: ${home.name} [${home.id}]`);
+          continue;
+        }
+
+        this.platform.log.debug(`Fetching devices for home: ${home.id}`);
 
-        const response = await this.httpClient.get<APIResponse<{ thingList: Array<{ itemType: number; itemData: EWeLinkDevice }> }>>(
+        const response = await this.httpClient.get<APIResponse<{ thingList: Array<{ itemType: number; itemData: EWeLinkDevice | EWeLinkGroup }> }>>(
           '/v2/device/thing',
           {
             params: {
               num: 0,
-              familyid: homeId,
+              familyid: home.id,
             },
           },
         );
 
         if (response.data.error !== 0) {
-          this.platform.log.warn(`Failed to get devices for home ${homeId}: ${response.data.msg}`);
+          this.platform.log.warn(`Failed to get devices for home ${home.id}: ${response.data.msg}`);
           continue;
         }
 
         // Extract devices and groups from thingList
         const thingList = response.data.data?.thingList || [];
         for (const thing of thingList) {
-          if (thing.itemData?.extra?.uiid) {
+          if (!thing.itemData) {
+            continue;
+          }
+
+          // Make sure every device knows which home it was fetched from
+          if (!thing.itemData.family?.familyid) {
+            thing.itemData.family = { index: 0, ...thing.itemData.family, familyid: home.id };
+          }
+
+          if ('extra' in thing.itemData && thing.itemData.extra?.uiid) {
             // Regular device (has uiid)
             allDevices.push(thing.itemData);
           } else if (thing.itemType === 3) {
             // Group (itemType === 3)
-            allGroups.push(thing.itemData);
+            allGroups.push(thing.itemData as EWeLinkGroup);
           }
         }
       }
 
       this.platform.log.debug(`Retrieved ${allDevices.length} devices and ${allGroups.length} groups from API`);
-      return { devices: allDevices, groups: allGroups };
+      return { devices: allDevices, groups: allGroups, homes };
 
     } catch (error) {
       if (axios.isAxiosError(error)) {
@@ -444,6 +564,13 @@ export class EWeLinkAPI {
     return this.accessToken;
   }
 
+  /**
+   * Get the app ID requests are signed with
+   */
+  getAppId(): string {
+    return this.appId;
+  }
+
   /**
    * Get current http host
    */
@@ -463,7 +590,7 @@ export class EWeLinkAPI {
       const response = await this.httpClient.post<{ domain: string }>(
         '/dispatch/app',
         {
-          appid: EWELINK_APP_ID,
+          appid: this.appId,
           nonce: CryptoUtils.generateNonce(),
           ts: Math.floor(Date.now() / 1000),
           version: 8,
@@ -530,22 +657,11 @@ export class EWeLinkAPI {
    * Reload tokens from storage (for use when UI updates tokens)
    */
   async reloadTokensFromStorage(): Promise<boolean> {
-    const tokens = this.tokenStorage.load();
-
-    if (!tokens || !this.tokenStorage.isValid()) {
+    if (!this.tokenManager.reload()) {
       this.platform.log.debug('No valid tokens found in storage');
       return false;
     }
 
-    this.platform.log.debug('Reloading tokens from storage');
-    this.accessToken = tokens.accessToken;
-    this.refreshToken = tokens.refreshToken;
-    this.apiKey = tokens.apiKey;
-    this.region = tokens.region as keyof typeof API_REGIONS;
-
-    // Update HTTP client
-    this.httpClient.defaults.headers.common.Authorization = `Bearer ${this.accessToken}`;
-
     this.platform.log.debug('Tokens reloaded from storage');
     return true;
   }
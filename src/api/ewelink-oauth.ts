@@ -0,0 +1,181 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { API_REGIONS } from '../settings.js';
+import { API_TIMEOUTS, OAUTH } from '../constants/api-constants.js';
+import { CryptoUtils } from '../utils/crypto-utils.js';
+import type { StoredTokens } from '../utils/token-storage.js';
+import type { APIResponse } from '../types/index.js';
+
+export interface EWeLinkOAuthOptions {
+  /** eWeLink developer app, registered with `redirectUrl` */
+  appId: string;
+  appSecret: string;
+  /** Address eWeLink sends the user back to with the authorization code */
+  redirectUrl: string;
+  /** Sign-in page (default `OAUTH.AUTHORIZE_URL`) */
+  authorizeUrl?: string;
+  /** API base URL used instead of the region host, e.g. a local stub server */
+  apiBaseUrl?: string;
+}
+
+/**
+ * Sign-in started by `createAuthorization()`
+ */
+export interface OAuthAuthorization {
+  /** Page to open in the browser */
+  url: string;
+  /** Value eWeLink returns with the code, checked on completion */
+  state: string;
+}
+
+/**
+ * Session created from an authorization code, in token file format
+ */
+export type OAuthSession = Omit<StoredTokens, 'timestamp'> & {
+  accessTokenExpiresAt: number;
+  refreshTokenExpiresAt: number;
+};
+
+/**
+ * Response of `/v2/user/oauth/token`
+ */
+interface OAuthTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  /** Expiry in ms since epoch */
+  atExpiredTime: number;
+  rtExpiredTime: number;
+}
+
+/**
+ * Response of `/v2/user/profile`
+ */
+interface ProfileResponse {
+  user: {
+    apikey: string;
+    email?: string;
+    phoneNumber?: string;
+  };
+}
+
+/**
+ * eWeLink OAuth2 authorization-code flow
+ *
+ * The user signs in on eWeLink's page and is sent back to the redirect URL
+ * with `code`, `region` and `state`. The code is exchanged for tokens on the
+ * region's API host, so the account password never reaches Homebridge. Used
+ * by the UI server; requires a developer app (`appId`/`appSecret`) with the
+ * redirect URL registered.
+ */
+export class EWeLinkOAuth {
+  private readonly options: EWeLinkOAuthOptions;
+
+  /** Pending authorizations by state, with their start time */
+  private readonly pending: Map<string, number> = new Map();
+
+  constructor(options: EWeLinkOAuthOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start a sign-in: build the authorization page URL with a new state
+   */
+  createAuthorization(): OAuthAuthorization {
+    const state = randomBytes(16).toString('hex');
+    const seq = String(Date.now());
+    this.pending.set(state, Date.now());
+
+    const url = new URL(this.options.authorizeUrl || OAUTH.AUTHORIZE_URL);
+    url.search = new URLSearchParams({
+      clientId: this.options.appId,
+      seq,
+      authorization: this.sign(`${this.options.appId}_${seq}`),
+      redirectUrl: this.options.redirectUrl,
+      grantType: 'authorization_code',
+      state,
+      nonce: CryptoUtils.generateNonce(),
+      showQRCode: 'false',
+    }).toString();
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Finish a sign-in from the redirect (the full URL or its query string)
+   * Checks the state, then exchanges the code for a session
+   */
+  async completeAuthorization(callback: string): Promise<OAuthSession> {
+    const query = new URLSearchParams(callback.includes('?') ? callback.slice(callback.indexOf('?') + 1) : callback);
+    const code = query.get('code');
+    const region = query.get('region');
+    const state = query.get('state');
+
+    if (!code || !region) {
+      throw new Error('The redirect does not contain an authorization code');
+    }
+
+    const startedAt = state ? this.pending.get(state) : undefined;
+    if (startedAt === undefined || Date.now() - startedAt > OAUTH.STATE_TTL_MS) {
+      throw new Error('Unknown or expired sign-in, please start again');
+    }
+    this.pending.delete(state!);
+
+    return this.exchangeCode(code, region);
+  }
+
+  /**
+   * Exchange an authorization code for tokens and read the account's API key
+   */
+  async exchangeCode(code: string, region: string): Promise<OAuthSession> {
+    if (!(region in API_REGIONS)) {
+      throw new Error(`Unknown region received: ${region}`);
+    }
+    const baseURL = this.options.apiBaseUrl || `https://${API_REGIONS[region as keyof typeof API_REGIONS].httpHost}`;
+
+    const body = JSON.stringify({ code, redirectUrl: this.options.redirectUrl, grantType: 'authorization_code' });
+    const tokenResponse = await axios.post<APIResponse<OAuthTokenResponse>>(`${baseURL}/v2/user/oauth/token`, body, {
+      timeout: API_TIMEOUTS.HTTP_REQUEST,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CK-Appid': this.options.appId,
+        'X-CK-Nonce': CryptoUtils.generateNonce(),
+        'Authorization': `Sign ${this.sign(body)}`,
+      },
+    });
+
+    const tokens = tokenResponse.data.data;
+    if (tokenResponse.data.error !== 0 || !tokens?.accessToken) {
+      throw new Error(`Code exchange failed: ${tokenResponse.data.msg || `error ${tokenResponse.data.error}`}`);
+    }
+
+    const profileResponse = await axios.get<APIResponse<ProfileResponse>>(`${baseURL}/v2/user/profile`, {
+      timeout: API_TIMEOUTS.HTTP_REQUEST,
+      headers: {
+        'X-CK-Appid': this.options.appId,
+        'Authorization': `Bearer ${tokens.accessToken}`,
+      },
+    });
+
+    const user = profileResponse.data.data?.user;
+    if (profileResponse.data.error !== 0 || !user?.apikey) {
+      throw new Error(`Failed to read the account profile: ${profileResponse.data.msg || `error ${profileResponse.data.error}`}`);
+    }
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      apiKey: user.apikey,
+      region,
+      username: user.email || user.phoneNumber,
+      accessTokenExpiresAt: tokens.atExpiredTime,
+      refreshTokenExpiresAt: tokens.rtExpiredTime,
+    };
+  }
+
+  /**
+   * HMAC-SHA256 of the data with the app secret, base64 encoded
+   */
+  private sign(data: string): string {
+    return createHmac('sha256', this.options.appSecret).update(data).digest('base64');
+  }
+}
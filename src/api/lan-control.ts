@@ -2,8 +2,33 @@ import dgram from 'dgram';
 import crypto from 'crypto';
 import { Bonjour, type Service, type Browser } from 'bonjour-service';
 import type { EWeLinkPlatform } from '../platform.js';
-import type { LANDevice, DeviceParams } from '../types/index.js';
+import type { LANDevice, DeviceParams, BaseDeviceConfig } from '../types/index.js';
 import { CHANNEL_SUFFIX_PATTERN } from '../constants/device-constants.js';
+import { NETWORK_PORTS, LAN_POLL } from '../constants/network-constants.js';
+import { LanDeviceStorage } from '../utils/lan-device-storage.js';
+
+/**
+ * Where a registry entry's address came from
+ * - cache: restored from the persisted registry
+ * - api: `ip`/`port` from the cloud device list
+ * - discovery: mDNS service or UDP announcement
+ * - config: manual `ipAddress`, never replaced by the other sources
+ */
+type LanDeviceSource = 'cache' | 'api' | 'discovery' | 'config';
+
+/**
+ * Response from a device's `/zeroconf/*` endpoint
+ */
+interface LanResponse {
+  error: number;
+  /** State params; a JSON or encrypted string on some firmware */
+  data?: unknown;
+  iv?: string;
+  encrypt?: boolean;
+}
+
+/** State endpoints tried in order when polling; `info` is the DIY-mode fallback */
+const STATE_ENDPOINTS = ['getState', 'info'] as const;
 
 /**
  * LAN Control for local device communication
@@ -12,6 +37,11 @@ import { CHANNEL_SUFFIX_PATTERN } from '../constants/device-constants.js';
 export class LANControl {
   private readonly platform: EWeLinkPlatform;
   private readonly devices: Map<string, LANDevice> = new Map();
+  private readonly sources: Map<string, LanDeviceSource> = new Map();
+  private readonly storage: LanDeviceStorage;
+  private readonly pollTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly pollFailures: Map<string, number> = new Map();
+  private readonly pollEndpoints: Map<string, typeof STATE_ENDPOINTS[number]> = new Map();
   private bonjour: InstanceType<typeof Bonjour> | null = null;
   private browser: Browser | null = null;
   private udpSocket: dgram.Socket | null = null;
@@ -19,22 +49,41 @@ export class LANControl {
 
   constructor(platform: EWeLinkPlatform) {
     this.platform = platform;
+    this.storage = new LanDeviceStorage(platform.api.user.storagePath(), platform.log);
+
+    this.restoreDevices();
+    this.applyConfiguredAddresses();
   }
 
   /**
    * Register a device for LAN control using IP from API response
-   * This allows controlling devices before mDNS discovery finds them
+   * This allows controlling devices before mDNS discovery finds them, and is
+   * called again on re-discovery to pick up new addresses
    */
   registerDevice(deviceId: string, ip: string, port: number, deviceKey: string, encrypt: boolean = true): void {
     if (!ip || !port) {
       return;
     }
 
-    // Only add if not already discovered via mDNS
-    if (this.devices.has(deviceId)) {
+    // Discovered and manual addresses are more reliable than the API's
+    const source = this.sources.get(deviceId);
+    if (source === 'discovery' || source === 'config') {
+      return;
+    }
+
+    const cachedDevice = this.platform.deviceCache.get(deviceId);
+    const deviceName = cachedDevice?.name || deviceId;
+    const existing = this.devices.get(deviceId);
+
+    if (existing && existing.ip === ip && existing.port === port && existing.deviceKey === deviceKey) {
+      this.sources.set(deviceId, 'api');
       return;
     }
 
+    if (existing && (existing.ip !== ip || existing.port !== port)) {
+      this.logAddressChange(deviceName, existing, ip, port);
+    }
+
     const device: LANDevice = {
       deviceId,
       ip,
@@ -43,9 +92,7 @@ export class LANControl {
       encrypt,
     };
 
-    this.devices.set(deviceId, device);
-    const cachedDevice = this.platform.deviceCache.get(deviceId);
-    const deviceName = cachedDevice?.name || deviceId;
+    this.setDevice(device, 'api');
     this.platform.log.debug(`[LAN] Registered ${deviceName} at ${ip}:${port} from API`);
   }
 
@@ -68,6 +115,9 @@ export class LANControl {
 
     this.platform.log.info('LAN control started - listening for device announcements');
 
+    // Poll devices that have lanPollInterval set
+    this.startPolling();
+
     // Log discovery status after initial discovery period
     setTimeout(() => {
       this.logDiscoveryStatus();
@@ -176,7 +226,7 @@ export class LANControl {
         return;
       }
 
-      const port = service.port || 8081;
+      const port = service.port || NETWORK_PORTS.LAN_CONTROL_HTTP;
 
       // Parse TXT records for encryption info
       const txt = service.txt || {};
@@ -187,23 +237,33 @@ export class LANControl {
       const deviceKey = cachedDevice?.devicekey;
       const deviceName = cachedDevice?.name || deviceId;
 
+      // Manual addresses win over discovery
+      if (this.sources.get(deviceId) === 'config') {
+        return;
+      }
+
       // Check if we already have this device
       const existing = this.devices.get(deviceId);
       if (existing && existing.ip === ip && existing.port === port) {
         // No change
+        this.sources.set(deviceId, 'discovery');
         return;
       }
 
+      if (existing) {
+        this.logAddressChange(deviceName, existing, ip, port);
+      }
+
       const lanDevice: LANDevice = {
         deviceId,
         ip,
         port,
         encrypt,
-        deviceKey,
+        deviceKey: deviceKey ?? existing?.deviceKey,
         iv: txt.iv,
       };
 
-      this.devices.set(deviceId, lanDevice);
+      this.setDevice(lanDevice, 'discovery');
       this.platform.log.debug(`[LAN] Discovered device: ${deviceName} at ${ip}:${port}`);
 
     } catch (error) {
@@ -242,20 +302,21 @@ export class LANControl {
   /**
    * Handle UDP message from device
    */
-  private handleUdpMessage(msg: Buffer, _rinfo: dgram.RemoteInfo): void {
+  private handleUdpMessage(msg: Buffer, rinfo: dgram.RemoteInfo): void {
     try {
       const data = JSON.parse(msg.toString());
 
       if (data.deviceid && data.action === 'update') {
         const deviceId = data.deviceid;
-        const device = this.devices.get(deviceId);
+        const device = this.trackUdpSender(deviceId, rinfo.address, data.encrypt === true);
 
         if (device) {
           let params = data.params;
 
           // Decrypt if encrypted
-          if (device.encrypt && data.encrypt && device.deviceKey) {
-            params = this.decryptPayload(data.data, device.deviceKey, data.iv);
+          const deviceKey = device.deviceKey || this.platform.deviceCache.get(deviceId)?.devicekey;
+          if (device.encrypt && data.encrypt && deviceKey) {
+            params = this.decryptPayload(data.data, deviceKey, data.iv);
           }
 
           if (params) {
@@ -268,6 +329,233 @@ export class LANControl {
     }
   }
 
+  /**
+   * Follow the sender address of a UDP announcement
+   * Registers account devices that mDNS has not found and moves known ones to a new IP
+   * @returns The registry entry for the device, if any
+   */
+  private trackUdpSender(deviceId: string, address: string, encrypt: boolean): LANDevice | undefined {
+    const existing = this.devices.get(deviceId);
+    const cachedDevice = this.platform.deviceCache.get(deviceId);
+
+    if (!address || this.sources.get(deviceId) === 'config' || existing?.ip === address) {
+      return existing;
+    }
+
+    const deviceName = cachedDevice?.name || deviceId;
+
+    if (existing) {
+      this.logAddressChange(deviceName, existing, address, existing.port);
+      this.setDevice({ ...existing, ip: address }, 'discovery');
+    } else if (cachedDevice) {
+      this.setDevice({
+        deviceId,
+        ip: address,
+        port: NETWORK_PORTS.LAN_CONTROL_HTTP,
+        encrypt,
+        deviceKey: cachedDevice.devicekey,
+      }, 'discovery');
+      this.platform.log.debug(`[LAN] Discovered device: ${deviceName} at ${address} from UDP announcement`);
+    }
+
+    return this.devices.get(deviceId);
+  }
+
+  /**
+   * Log that a known device moved to a new address
+   */
+  private logAddressChange(deviceName: string, existing: LANDevice, ip: string, port: number): void {
+    this.platform.log.info(
+      `[LAN] ${deviceName} IP changed from ${existing.ip}:${existing.port} to ${ip}:${port}`,
+    );
+  }
+
+  /**
+   * Store a registry entry and persist the registry when the address or keys changed
+   */
+  private setDevice(device: LANDevice, source: LanDeviceSource): void {
+    const existing = this.devices.get(device.deviceId);
+
+    this.devices.set(device.deviceId, device);
+    this.sources.set(device.deviceId, source);
+
+    // The device key is not persisted, so a new key alone needs no save
+    const changed = !existing ||
+      existing.ip !== device.ip ||
+      existing.port !== device.port ||
+      existing.encrypt !== device.encrypt;
+
+    if (changed && source !== 'config') {
+      this.saveDevices();
+    }
+  }
+
+  /**
+   * Load the registry persisted by a previous run
+   * Device keys are not stored; they come from the cloud device list already in the cache
+   */
+  private restoreDevices(): void {
+    const stored = this.storage.load();
+
+    for (const device of stored) {
+      this.devices.set(device.deviceId, { ...device, deviceKey: this.platform.deviceCache.get(device.deviceId)?.devicekey });
+      this.sources.set(device.deviceId, 'cache');
+    }
+
+    if (stored.length > 0) {
+      this.platform.log.debug(`[LAN] Restored ${stored.length} device address(es) from storage`);
+    }
+  }
+
+  /**
+   * Persist the registry, leaving out manual addresses so removing one from the config takes effect
+   */
+  private saveDevices(): void {
+    const devices = [...this.devices.values()].filter(device => this.sources.get(device.deviceId) !== 'config');
+
+    this.storage.save(devices);
+  }
+
+  /**
+   * Apply `ipAddress` from the device configs
+   * Accepts `ip` or `ip:port`; the port defaults to 8081
+   */
+  private applyConfiguredAddresses(): void {
+    for (const deviceConfig of this.getDeviceConfigs()) {
+      const address = deviceConfig.ipAddress?.trim();
+      if (!deviceConfig.deviceId || !address) {
+        continue;
+      }
+
+      const match = address.match(/^([^\s:]+)(?::(\d{1,5}))?$/);
+      const port = match?.[2] ? parseInt(match[2], 10) : NETWORK_PORTS.LAN_CONTROL_HTTP;
+      if (!match || port < 1 || port > 65535) {
+        this.platform.log.warn(`[LAN] Ignoring invalid ipAddress "${address}" for ${deviceConfig.deviceId}`);
+        continue;
+      }
+
+      const existing = this.devices.get(deviceConfig.deviceId);
+      this.setDevice({
+        deviceId: deviceConfig.deviceId,
+        ip: match[1],
+        port,
+        encrypt: existing?.encrypt ?? true,
+        deviceKey: existing?.deviceKey,
+      }, 'config');
+      this.platform.log.debug(`[LAN] Using configured address ${match[1]}:${port} for ${deviceConfig.deviceId}`);
+    }
+  }
+
+  /**
+   * Device configs from every device list, for the LAN options shared by all of them
+   */
+  private getDeviceConfigs(): BaseDeviceConfig[] {
+    const { config } = this.platform;
+    return [
+      ...(config.singleDevices ?? []),
+      ...(config.multiDevices ?? []),
+      ...(config.thDevices ?? []),
+      ...(config.fanDevices ?? []),
+      ...(config.lightDevices ?? []),
+      ...(config.sensorDevices ?? []),
+      ...(config.rfDevices ?? []),
+    ];
+  }
+
+  /**
+   * Start a state poll for each device with `lanPollInterval`
+   */
+  private startPolling(): void {
+    for (const deviceConfig of this.getDeviceConfigs()) {
+      if (!deviceConfig.deviceId || !deviceConfig.lanPollInterval || deviceConfig.lanPollInterval <= 0) {
+        continue;
+      }
+
+      const intervalMs = Math.max(deviceConfig.lanPollInterval * 1000, LAN_POLL.MIN_INTERVAL_MS);
+      this.schedulePoll(deviceConfig.deviceId, intervalMs, intervalMs);
+      this.platform.log.debug(`[LAN] Polling ${deviceConfig.deviceId} every ${intervalMs / 1000}s`);
+    }
+  }
+
+  /**
+   * Schedule the next poll, backing off exponentially while the device is unreachable
+   */
+  private schedulePoll(deviceId: string, intervalMs: number, delay: number): void {
+    const timer = setTimeout(async () => {
+      const success = await this.pollDevice(deviceId);
+      if (!this.running) {
+        return;
+      }
+
+      const failures = success ? 0 : (this.pollFailures.get(deviceId) ?? 0) + 1;
+      this.pollFailures.set(deviceId, failures);
+
+      const nextDelay = Math.max(intervalMs, Math.min(intervalMs * 2 ** failures, LAN_POLL.MAX_BACKOFF_MS));
+      if (failures > 0) {
+        const deviceName = this.platform.deviceCache.get(deviceId)?.name || deviceId;
+        this.platform.log.debug(`[LAN] ${deviceName} poll failed ${failures} time(s), next poll in ${nextDelay / 1000}s`);
+      }
+
+      this.schedulePoll(deviceId, intervalMs, nextDelay);
+    }, delay);
+
+    this.pollTimers.set(deviceId, timer);
+  }
+
+  /**
+   * Read a device's state over LAN and pass it to the platform as a LAN update
+   * Tries `getState`, then `info`, and remembers the endpoint that answered
+   * @returns true if the state was read
+   */
+  async pollDevice(deviceId: string): Promise<boolean> {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return false;
+    }
+
+    const knownEndpoint = this.pollEndpoints.get(deviceId);
+    const endpoints = knownEndpoint ? [knownEndpoint] : STATE_ENDPOINTS;
+
+    for (const endpoint of endpoints) {
+      const payload = this.buildPayload(device, {});
+      const response = await this.sendHttpRequest(device.ip, device.port, payload, endpoint);
+      if (!response || response.error !== 0) {
+        continue;
+      }
+
+      const params = this.parseStateResponse(device, response);
+      if (params) {
+        this.pollEndpoints.set(deviceId, endpoint);
+        this.platform.handleDeviceUpdate(deviceId, { ...params, updateSource: 'LAN' });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Extract state params from a state response, decrypting or parsing string data
+   */
+  private parseStateResponse(device: LANDevice, response: LanResponse): DeviceParams | null {
+    const { data } = response;
+
+    if (typeof data === 'string') {
+      const deviceKey = device.deviceKey || this.platform.deviceCache.get(device.deviceId)?.devicekey;
+      if (response.iv && deviceKey) {
+        return this.decryptPayload(data, deviceKey, response.iv);
+      }
+
+      try {
+        return JSON.parse(data) as DeviceParams;
+      } catch {
+        return null;
+      }
+    }
+
+    return data && typeof data === 'object' ? data as DeviceParams : null;
+  }
+
   /**
    * Send command to device via LAN
    */
@@ -312,11 +600,14 @@ export class LANControl {
    */
   private buildPayload(device: LANDevice, params: DeviceParams): Record<string, unknown> {
     const sequence = String(Date.now());
-    const selfApikey = this.platform.ewelinkApi?.getApiKey() || '';
+    const selfApikey = this.platform.getDeviceAccount(device.deviceId)?.api.getApiKey() || '';
 
-    if (device.encrypt && device.deviceKey) {
+    // Manual and restored entries may not carry the key yet
+    const deviceKey = device.deviceKey || this.platform.deviceCache.get(device.deviceId)?.devicekey;
+
+    if (device.encrypt && deviceKey) {
       const iv = this.generateIv();
-      const encryptedData = this.encryptPayload(params, device.deviceKey, iv);
+      const encryptedData = this.encryptPayload(params, deviceKey, iv);
 
       return {
         sequence,
@@ -343,8 +634,9 @@ export class LANControl {
     ip: string,
     port: number,
     payload: Record<string, unknown>,
-  ): Promise<{ error: number } | null> {
-    const url = `http://${ip}:${port}/zeroconf/switch`;
+    endpoint = 'switch',
+  ): Promise<LanResponse | null> {
+    const url = `http://${ip}:${port}/zeroconf/${endpoint}`;
 
     try {
       const response = await fetch(url, {
@@ -356,7 +648,7 @@ export class LANControl {
         signal: AbortSignal.timeout(5000),
       });
 
-      return await response.json() as { error: number };
+      return await response.json() as LanResponse;
 
     } catch (error) {
       this.platform.log.debug('HTTP request failed:', error);
@@ -423,6 +715,12 @@ export class LANControl {
   stop(): void {
     this.running = false;
 
+    for (const timer of this.pollTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.pollTimers.clear();
+    this.pollFailures.clear();
+
     if (this.browser) {
       this.browser.stop();
       this.browser = null;
@@ -438,7 +736,9 @@ export class LANControl {
       this.udpSocket = null;
     }
 
+    // The registry stays on disk for the next start
     this.devices.clear();
+    this.sources.clear();
     this.platform.log.debug('LAN control stopped');
   }
 }
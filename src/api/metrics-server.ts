@@ -0,0 +1,334 @@
+import http from 'http';
+import type { EWeLinkPlatform } from '../platform.js';
+import type { DeviceParams, EWeLinkDevice } from '../types/index.js';
+import { DEVICE_UIID_MAP, DeviceCategory } from '../settings.js';
+import { getChannelCount, getTrvParams } from '../constants/device-catalog.js';
+import { API_SERVER } from '../constants/network-constants.js';
+import { DeviceValueParser } from '../utils/device-parsers.js';
+import { getErrorMessage } from '../utils/error-utils.js';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * One labelled value of a metric
+ */
+interface MetricSample {
+  labels: Record<string, string>;
+  value: number;
+  /** Appended to the metric name (e.g. `_sum` of a summary) */
+  suffix?: string;
+}
+
+/**
+ * Metric with its help text, type and samples
+ */
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter' | 'summary';
+  samples: MetricSample[];
+}
+
+/**
+ * Per-device gauges, filled from the device cache
+ */
+const DEVICE_GAUGES = {
+  online: { name: 'ewelink_device_online', help: 'Whether the device is online in eWeLink (1) or not (0)' },
+  power: { name: 'ewelink_device_power_watts', help: 'Active power reported by the device' },
+  voltage: { name: 'ewelink_device_voltage_volts', help: 'Voltage reported by the device' },
+  current: { name: 'ewelink_device_current_amperes', help: 'Current reported by the device' },
+  temperature: { name: 'ewelink_device_temperature_celsius', help: 'Temperature reported by the device' },
+  humidity: { name: 'ewelink_device_humidity_percent', help: 'Relative humidity reported by the device' },
+  battery: { name: 'ewelink_device_battery_percent', help: 'Battery level reported by the device' },
+  rssi: { name: 'ewelink_device_rssi_dbm', help: 'Wi-Fi signal strength reported by the device' },
+} as const;
+
+type DeviceGauge = keyof typeof DEVICE_GAUGES;
+
+/**
+ * Prometheus metrics endpoint
+ *
+ * Serves `GET /metrics` in the Prometheus text format: gauges for every
+ * cached device, parsed with `DeviceValueParser` and labelled with the
+ * device name, ID, UIID and catalog category, followed by the plugin
+ * health counters from `platform.metrics`. Values are read on each scrape,
+ * so the endpoint keeps no state of its own.
+ */
+export class MetricsServer {
+  private readonly platform: EWeLinkPlatform;
+  private server: http.Server | null = null;
+
+  constructor(platform: EWeLinkPlatform) {
+    this.platform = platform;
+  }
+
+  /**
+   * Start listening on the configured host and port
+   */
+  async start(): Promise<void> {
+    const { metricsPort } = this.platform.config;
+    const host = this.platform.config.httpHost || API_SERVER.DEFAULT_HOST;
+
+    if (metricsPort === undefined) {
+      return;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server!.once('error', (error) => {
+        this.platform.log.error(`Metrics server failed to start on ${host}:${metricsPort}: ${error.message}`);
+        this.server = null;
+        resolve();
+      });
+      this.server!.listen(metricsPort, host, () => {
+        this.platform.log.info(`Metrics available at http://${host}:${metricsPort}/metrics`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop the server
+   */
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+      this.platform.log.debug('Metrics server stopped');
+    }
+  }
+
+  /**
+   * Get the bound port (useful when configured with port 0)
+   */
+  getPort(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  render(): string {
+    const families = [...this.collectDeviceMetrics(), ...this.collectHealthMetrics()];
+    return families
+      .filter(family => family.samples.length > 0)
+      .map(formatFamily)
+      .join('');
+  }
+
+  /**
+   * Handle a single HTTP request
+   */
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname !== '/metrics') {
+      this.sendText(res, 404, 'Not found\n');
+      return;
+    }
+    if (req.method !== 'GET') {
+      this.sendText(res, 405, 'Method not allowed\n');
+      return;
+    }
+
+    try {
+      res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+      res.end(this.render());
+    } catch (error) {
+      this.platform.log.error('Metrics request failed:', getErrorMessage(error));
+      this.sendText(res, 500, 'Internal server error\n');
+    }
+  }
+
+  /**
+   * Build the per-device gauges from the device cache
+   */
+  private collectDeviceMetrics(): MetricFamily[] {
+    const samples = new Map<DeviceGauge, MetricSample[]>(
+      (Object.keys(DEVICE_GAUGES) as DeviceGauge[]).map(gauge => [gauge, []]),
+    );
+    const add = (gauge: DeviceGauge, labels: Record<string, string>, value: number | undefined) => {
+      if (value !== undefined && Number.isFinite(value)) {
+        samples.get(gauge)!.push({ labels, value });
+      }
+    };
+
+    for (const device of this.platform.deviceCache.values()) {
+      const labels = getDeviceLabels(device);
+      const params = device.params || {};
+
+      add('online', labels, device.online ? 1 : 0);
+
+      for (const [channel, readings] of getPowerReadings(device)) {
+        const channelLabels = { ...labels, channel: String(channel) };
+        add('power', channelLabels, readings.power);
+        add('voltage', channelLabels, readings.voltage);
+        add('current', channelLabels, readings.current);
+      }
+
+      add('temperature', labels, getTemperature(device));
+      if (DeviceValueParser.hasHumidity(params)) {
+        add('humidity', labels, DeviceValueParser.parseHumidity(params, NaN));
+      }
+      if (DeviceValueParser.hasBattery(params)) {
+        add('battery', labels, DeviceValueParser.parseBattery(params, NaN));
+      }
+      if (params.rssi !== undefined) {
+        add('rssi', labels, DeviceValueParser.parseNumber(params.rssi, NaN));
+      }
+    }
+
+    return (Object.keys(DEVICE_GAUGES) as DeviceGauge[]).map(gauge => ({
+      ...DEVICE_GAUGES[gauge],
+      type: 'gauge',
+      samples: samples.get(gauge)!,
+    }));
+  }
+
+  /**
+   * Build the plugin health metrics
+   */
+  private collectHealthMetrics(): MetricFamily[] {
+    const snapshot = this.platform.metrics.getSnapshot();
+    const queue = this.platform.getCommandQueueStats();
+
+    return [
+      {
+        name: 'ewelink_websocket_reconnects_total',
+        help: 'WebSocket reconnections scheduled',
+        type: 'counter',
+        samples: [{ labels: {}, value: snapshot.wsReconnects }],
+      },
+      {
+        name: 'ewelink_commands_total',
+        help: 'Device commands by route and result',
+        type: 'counter',
+        samples: (['lan', 'cloud'] as const).flatMap(route => [
+          { labels: { route, result: 'success' }, value: snapshot.commands[route].success },
+          { labels: { route, result: 'failure' }, value: snapshot.commands[route].failure },
+        ]),
+      },
+      {
+        name: 'ewelink_api_errors_total',
+        help: 'Failed eWeLink HTTP API calls (http: request failed, api: error code in the response)',
+        type: 'counter',
+        samples: [
+          { labels: { type: 'http' }, value: snapshot.apiErrors.http },
+          { labels: { type: 'api' }, value: snapshot.apiErrors.api },
+        ],
+      },
+      {
+        name: 'ewelink_command_queue_depth',
+        help: 'Cloud commands waiting in the command queue',
+        type: 'gauge',
+        samples: [{ labels: {}, value: queue.queueSize }],
+      },
+      {
+        name: 'ewelink_command_queue_active',
+        help: 'Cloud commands being sent',
+        type: 'gauge',
+        samples: [{ labels: {}, value: queue.activeCount }],
+      },
+      {
+        name: 'ewelink_command_queue_latency_seconds',
+        help: 'Time from queueing a cloud command to its result',
+        type: 'summary',
+        samples: [
+          { labels: {}, value: snapshot.commandLatency.sumMs / 1000, suffix: '_sum' },
+          { labels: {}, value: snapshot.commandLatency.count, suffix: '_count' },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * Write a plain text response
+   */
+  private sendText(res: http.ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(body);
+  }
+}
+
+/**
+ * Labels identifying a device
+ */
+function getDeviceLabels(device: EWeLinkDevice): Record<string, string> {
+  const uiid = device.extra?.uiid || 0;
+  return {
+    device_id: device.deviceid,
+    name: device.name,
+    uiid: String(uiid),
+    category: DEVICE_UIID_MAP[uiid] || DeviceCategory.UNKNOWN,
+  };
+}
+
+/**
+ * Power readings by channel: per-channel params (DUALR3 format) when the device
+ * reports them, otherwise the device-wide readings as channel 0
+ */
+function getPowerReadings(device: EWeLinkDevice): Array<[number, ReturnType<typeof DeviceValueParser.parsePowerReadings>]> {
+  const params = device.params || {};
+  const readings: Array<[number, ReturnType<typeof DeviceValueParser.parsePowerReadings>]> = [];
+
+  for (let channel = 1; channel <= getChannelCount(device.extra?.uiid || 0); channel++) {
+    if (DeviceValueParser.hasChannelPowerReadings(params, channel)) {
+      readings.push([channel, DeviceValueParser.parseChannelPowerReadings(params, channel)]);
+    }
+  }
+
+  if (readings.length === 0 && DeviceValueParser.hasPowerReadings(params)) {
+    readings.push([0, DeviceValueParser.parsePowerReadings(params)]);
+  }
+
+  return readings;
+}
+
+/**
+ * Measured temperature, using the catalog scaling for radiator valves
+ */
+function getTemperature(device: EWeLinkDevice): number | undefined {
+  const params: DeviceParams = device.params || {};
+  const trv = getTrvParams(device.extra?.uiid || 0);
+
+  if (trv) {
+    const raw = params[trv.currentTemp];
+    return raw !== undefined ? DeviceValueParser.parseNumber(raw, NaN) / trv.tempDivisor : undefined;
+  }
+
+  return DeviceValueParser.hasTemperature(params) ? DeviceValueParser.parseTemperature(params, NaN) : undefined;
+}
+
+/**
+ * Format a metric family in the Prometheus text format
+ */
+function formatFamily(family: MetricFamily): string {
+  const lines = [
+    `# HELP ${family.name} ${family.help}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...family.samples.map(sample =>
+      `${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${sample.value}`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format labels as `{key="value",...}`, escaping backslashes, quotes and newlines
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const escaped = entries.map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${escaped.join(',')}}`;
+}
@@ -0,0 +1,300 @@
+import mqtt, { type MqttClient } from 'mqtt';
+import type { EWeLinkPlatform } from '../platform.js';
+import type { DeviceParams } from '../types/index.js';
+import { getChannelCount, getSwitchParamName } from '../constants/device-catalog.js';
+import { MQTT } from '../constants/network-constants.js';
+import { mergeDeviceParams } from '../utils/command-queue.js';
+import { buildDiscoveryMessages, getRFChannels } from '../utils/mqtt-discovery.js';
+import { SwitchHelper } from '../utils/switch-helper.js';
+import { getErrorMessage } from '../utils/error-utils.js';
+
+/**
+ * Parsed command topic
+ */
+interface CommandAddress {
+  deviceId: string;
+  /** Switch channel (`<prefix>/<id>/<n>/set`) */
+  channel?: number;
+  /** RF bridge channel (`<prefix>/<id>/rf/<n>/set`) */
+  rfChannel?: number;
+}
+
+/**
+ * MQTT bridge for device state and commands
+ *
+ * Publishes device state as retained JSON and turns messages on the `set`
+ * topics into `platform.sendDeviceCommand()` calls, so LAN/cloud routing and
+ * the command queue apply as for HomeKit writes.
+ *
+ * Topics (under `mqttTopicPrefix`, default `ewelink`):
+ * - `<id>/state`           - device params and `online` (retained)
+ * - `<id>/set`             - JSON params, or `on`/`off`
+ * - `<id>/<n>/state|set`   - channel `n` of a multi-channel switch
+ * - `<id>/rf/<n>/event`    - RF bridge channel transmitted or triggered
+ * - `<id>/rf/<n>/set`      - transmit RF channel `n` (any payload)
+ * - `bridge/status`        - `online`/`offline` (retained, offline is the last will)
+ */
+export class MqttBridge {
+  private readonly platform: EWeLinkPlatform;
+  private readonly prefix: string;
+  private client: MqttClient | null = null;
+
+  /** Last published state per device, merged from updates */
+  private readonly states: Map<string, DeviceParams> = new Map();
+
+  constructor(platform: EWeLinkPlatform) {
+    this.platform = platform;
+    this.prefix = platform.config.mqttTopicPrefix || MQTT.TOPIC_PREFIX;
+  }
+
+  /**
+   * Connect to the configured broker
+   * The client reconnects by itself; state is published again on every connect
+   */
+  start(): void {
+    const { mqttUrl, mqttUsername, mqttPassword } = this.platform.config;
+    if (!mqttUrl) {
+      return;
+    }
+
+    this.client = mqtt.connect(mqttUrl, {
+      username: mqttUsername || undefined,
+      password: mqttPassword || undefined,
+      reconnectPeriod: MQTT.RECONNECT_PERIOD_MS,
+      will: { topic: this.statusTopic, payload: Buffer.from('offline'), qos: 1, retain: true },
+    });
+
+    this.client.on('connect', () => this.handleConnect());
+    this.client.on('message', (topic, payload) => {
+      void this.handleMessage(topic, payload.toString());
+    });
+    this.client.on('error', (error) => {
+      this.platform.log.warn(`MQTT error: ${error.message}`);
+    });
+    this.client.on('offline', () => {
+      this.platform.log.debug('MQTT broker unreachable, reconnecting...');
+    });
+  }
+
+  /**
+   * Disconnect, marking the bridge offline
+   */
+  stop(): void {
+    if (this.client) {
+      this.client.publish(this.statusTopic, 'offline', { qos: 1, retain: true });
+      this.client.end();
+      this.client = null;
+      this.platform.log.debug('MQTT bridge stopped');
+    }
+  }
+
+  /**
+   * Publish a device update (called from `platform.handleDeviceUpdate()`)
+   */
+  publishUpdate(deviceId: string, params: DeviceParams): void {
+    const state = mergeDeviceParams(this.getState(deviceId), params);
+    delete state.updateSource;
+    this.states.set(deviceId, state);
+
+    if (this.client?.connected) {
+      this.publishState(deviceId);
+      this.publishRFEvents(deviceId, params);
+    }
+  }
+
+  /**
+   * Subscribe to the command topics and publish every device
+   */
+  private handleConnect(): void {
+    this.platform.log.info(`Connected to MQTT broker ${this.platform.config.mqttUrl}`);
+
+    this.client!.publish(this.statusTopic, 'online', { qos: 1, retain: true });
+    this.client!.subscribe([`${this.prefix}/+/set`, `${this.prefix}/+/+/set`, `${this.prefix}/+/rf/+/set`], (error) => {
+      if (error) {
+        this.platform.log.warn(`MQTT subscribe failed: ${error.message}`);
+      }
+    });
+
+    const discovery = this.platform.config.mqttDiscovery !== false;
+    const discoveryPrefix = this.platform.config.mqttDiscoveryPrefix || MQTT.DISCOVERY_PREFIX;
+
+    for (const device of this.platform.deviceCache.values()) {
+      this.publishState(device.deviceid);
+
+      if (discovery) {
+        for (const message of buildDiscoveryMessages(device, { topicPrefix: this.prefix, discoveryPrefix })) {
+          this.client!.publish(message.topic, JSON.stringify(message.payload), { retain: true });
+        }
+      }
+    }
+  }
+
+  /**
+   * Publish the retained state of a device and of its channels
+   */
+  private publishState(deviceId: string): void {
+    const device = this.platform.deviceCache.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    const state = this.getState(deviceId);
+    const online = state.online !== undefined ? state.online === true : device.online !== false;
+    this.client!.publish(`${this.prefix}/${deviceId}/state`, JSON.stringify({ ...state, online }), { retain: true });
+
+    const channelCount = getChannelCount(device.extra?.uiid || 0);
+    if (channelCount > 1 && SwitchHelper.isSCMDevice(state)) {
+      for (let channel = 1; channel <= channelCount; channel++) {
+        const on = SwitchHelper.getCurrentState(state, channel);
+        this.client!.publish(
+          `${this.prefix}/${deviceId}/${channel}/state`,
+          JSON.stringify({ switch: on ? 'on' : 'off' }),
+          { retain: true },
+        );
+      }
+    }
+  }
+
+  /**
+   * Publish RF bridge transmissions (`cmd: transmit`) and sensor triggers (`rfTrig<n>`)
+   */
+  private publishRFEvents(deviceId: string, params: DeviceParams): void {
+    const events: Array<[number, Record<string, unknown>]> = [];
+
+    if (params.cmd === 'transmit' && params.rfChl !== undefined) {
+      events.push([Number(params.rfChl), { event: 'transmit' }]);
+    }
+    for (const [key, value] of Object.entries(params)) {
+      const match = key.match(/^rfTrig(\d+)$/);
+      if (match) {
+        events.push([Number(match[1]), { event: 'trigger', time: value }]);
+      }
+    }
+
+    for (const [channel, payload] of events) {
+      this.client!.publish(`${this.prefix}/${deviceId}/rf/${channel}/event`, JSON.stringify(payload));
+    }
+  }
+
+  /**
+   * Handle a message on a command topic
+   */
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    const address = this.parseTopic(topic);
+    if (!address) {
+      return;
+    }
+
+    const displayName = this.platform.getDeviceDisplayName(address.deviceId);
+
+    try {
+      const { deviceId, params } = this.buildCommand(address, payload);
+      const success = await this.platform.sendDeviceCommand(deviceId, params);
+      if (!success) {
+        this.platform.log.warn(`[${displayName}] MQTT command was not accepted: ${payload}`);
+      }
+    } catch (error) {
+      this.platform.log.warn(`[${displayName}] Ignoring MQTT command on ${topic}: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Resolve a command topic to a known device and channel
+   */
+  private parseTopic(topic: string): CommandAddress | undefined {
+    if (!topic.startsWith(`${this.prefix}/`)) {
+      return undefined;
+    }
+
+    const segments = topic.slice(this.prefix.length + 1).split('/');
+    const deviceId = segments[0];
+    if (segments[segments.length - 1] !== 'set' || !this.platform.deviceCache.has(deviceId)) {
+      return undefined;
+    }
+
+    if (segments.length === 2) {
+      return { deviceId };
+    }
+    if (segments.length === 3 && /^\d+$/.test(segments[1])) {
+      return { deviceId, channel: Number(segments[1]) };
+    }
+    if (segments.length === 4 && segments[1] === 'rf' && /^\d+$/.test(segments[2])) {
+      return { deviceId, rfChannel: Number(segments[2]) };
+    }
+    return undefined;
+  }
+
+  /**
+   * Turn a command payload into params for `sendDeviceCommand()`
+   * `on`/`off` sets the device's on/off param; channel addresses translate `switch`
+   */
+  private buildCommand(address: CommandAddress, payload: string): { deviceId: string; params: DeviceParams } {
+    const device = this.platform.deviceCache.get(address.deviceId)!;
+    const uiid = device.extra?.uiid || 0;
+    const deviceParams = device.params || {};
+
+    if (address.rfChannel !== undefined) {
+      if (!getRFChannels(device).some(rf => rf.channel === address.rfChannel)) {
+        throw new Error(`RF channel ${address.rfChannel} is not learned`);
+      }
+      return { deviceId: address.deviceId, params: { cmd: 'transmit', rfChl: address.rfChannel } };
+    }
+
+    // Devices with a switches array take `switch`, translated per outlet below
+    const onOffParam = getSwitchParamName(uiid);
+    const params = this.parsePayload(payload, address.channel === undefined && onOffParam !== 'switches' ? onOffParam : 'switch');
+
+    if (address.channel !== undefined) {
+      if (address.channel < 1 || address.channel > getChannelCount(uiid)) {
+        throw new Error(`Channel ${address.channel} not found`);
+      }
+      return {
+        deviceId: `${address.deviceId}SW${address.channel}`,
+        params: SwitchHelper.buildChannelCommand(deviceParams, address.channel, params),
+      };
+    }
+
+    // A plain on/off for a device with a switches array switches every outlet
+    if (params.switch !== undefined && SwitchHelper.isSCMDevice(deviceParams)) {
+      return { deviceId: address.deviceId, params: SwitchHelper.buildChannelCommand(deviceParams, 0, params) };
+    }
+    return { deviceId: address.deviceId, params };
+  }
+
+  /**
+   * Parse a JSON object payload, or `on`/`off` for the given on/off param
+   */
+  private parsePayload(payload: string, switchParam: string): DeviceParams {
+    const text = payload.trim();
+    const value = text.toLowerCase();
+    if (value === 'on' || value === 'off') {
+      return { [switchParam]: value };
+    }
+
+    let params: unknown;
+    try {
+      params = JSON.parse(text);
+    } catch {
+      throw new Error('payload must be on, off or a JSON object of device params');
+    }
+
+    if (!params || typeof params !== 'object' || Array.isArray(params) || Object.keys(params).length === 0) {
+      throw new Error('payload must be a non-empty JSON object of device params');
+    }
+    return params as DeviceParams;
+  }
+
+  /**
+   * Current state of a device, starting from the cached params
+   */
+  private getState(deviceId: string): DeviceParams {
+    return this.states.get(deviceId) ?? { ...(this.platform.deviceCache.get(deviceId)?.params || {}) };
+  }
+
+  /**
+   * Retained topic with the bridge's own availability
+   */
+  private get statusTopic(): string {
+    return `${this.prefix}/bridge/status`;
+  }
+}
@@ -1,45 +1,56 @@
 import WebSocket from 'ws';
 import type { EWeLinkPlatform } from '../platform.js';
-import type { WSMessage, DeviceParams } from '../types/index.js';
+import type { EWeLinkAPI } from './ewelink-api.js';
+import type { WSMessage, DeviceParams, CloudConnectionState, EWeLinkDevice } from '../types/index.js';
 import { WebSocketAuthError } from '../types/index.js';
-import { EWELINK_APP_ID } from '../settings.js';
 import { CryptoUtils } from '../utils/crypto-utils.js';
 import { API_TIMEOUTS } from '../constants/api-constants.js';
-import { NETWORK_INTERVALS } from '../constants/network-constants.js';
+import { NETWORK_INTERVALS, WS_RECONNECT } from '../constants/network-constants.js';
 import { CHANNEL_SUFFIX_PATTERN } from '../constants/device-constants.js';
 
 /**
  * WebSocket client for real-time device updates
+ * One client runs per eWeLink account, authenticated with that account's API client
  */
 export class WSClient {
   private readonly platform: EWeLinkPlatform;
+  private readonly accountApi?: EWeLinkAPI;
   private ws: WebSocket | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private heartbeatIntervalMs: number = NETWORK_INTERVALS.WEBSOCKET_HEARTBEAT;
   private reconnecting = false;
   private connected = false;
+  private stopped = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 10;
+  private state: CloudConnectionState = 'connecting';
   private pendingRequests: Map<string, {
     resolve: (value: boolean) => void;
     reject: (reason?: unknown) => void;
     timeout: NodeJS.Timeout;
   }> = new Map();
 
-  constructor(platform: EWeLinkPlatform) {
+  constructor(platform: EWeLinkPlatform, accountApi?: EWeLinkAPI) {
     this.platform = platform;
+    this.accountApi = accountApi;
+  }
+
+  /**
+   * API client of the account this connection belongs to (the platform's by default)
+   */
+  private get ewelinkApi(): EWeLinkAPI | undefined {
+    return this.accountApi ?? this.platform.ewelinkApi;
   }
 
   /**
    * Connect to WebSocket server
    */
   async connect(): Promise<void> {
-    if (!this.platform.ewelinkApi) {
+    if (!this.ewelinkApi) {
       throw new Error('API not initialized');
     }
 
-    const wsHost = await this.platform.ewelinkApi.getWsHost();
+    const wsHost = await this.ewelinkApi.getWsHost();
     this.platform.log.debug('Connecting to WebSocket:', wsHost);
 
     return new Promise((resolve, reject) => {
@@ -55,6 +66,7 @@ export class WSClient {
               this.connected = true;
               this.reconnectAttempts = 0; // Reset on successful connection
               this.startHeartbeat();
+              this.setState('authenticated');
               resolve();
             })
             .catch(reject);
@@ -75,6 +87,12 @@ export class WSClient {
           this.platform.log.debug('WebSocket closed:', code, reason.toString());
           this.connected = false;
           this.stopHeartbeat();
+          if (this.stopped) {
+            return;
+          }
+          if (this.state === 'authenticated') {
+            this.setState('degraded');
+          }
           this.scheduleReconnect();
         });
 
@@ -88,7 +106,7 @@ export class WSClient {
    * Authenticate with the WebSocket server
    */
   private async authenticate(): Promise<void> {
-    if (!this.ws || !this.platform.ewelinkApi) {
+    if (!this.ws || !this.ewelinkApi) {
       throw new Error('WebSocket or API not initialized');
     }
 
@@ -97,9 +115,9 @@ export class WSClient {
 
     const authMessage = {
       action: 'userOnline',
-      at: this.platform.ewelinkApi.getAccessToken(),
-      apikey: this.platform.ewelinkApi.getApiKey(),
-      appid: EWELINK_APP_ID,
+      at: this.ewelinkApi.getAccessToken(),
+      apikey: this.ewelinkApi.getApiKey(),
+      appid: this.ewelinkApi.getAppId(),
       nonce,
       ts: timestamp,
       userAgent: 'app',
@@ -181,10 +199,9 @@ export class WSClient {
       }
 
       // Handle Zigbee bridge sub-device reports
-      // These messages are sent by Zigbee bridges when sub-devices report state changes
+      // Some bridge firmware sends button presses, heartbeats and online changes only this way
       if (message.action === 'reportSubDevice' || message.action === 'subDevice') {
-        this.platform.log.debug(`Zigbee sub-device report received (${message.action})`);
-        // These are informational - the actual device updates come via 'update' messages
+        this.handleSubDeviceReport(message);
         return;
       }
 
@@ -226,11 +243,27 @@ export class WSClient {
     }
   }
 
+  /**
+   * Route a Zigbee sub-device report to the sub-device
+   */
+  private handleSubDeviceReport(message: WSMessage): void {
+    const reports = parseSubDeviceReports(message, this.platform.deviceCache);
+    if (reports.length === 0) {
+      this.platform.log.debug(`Zigbee sub-device report received (${message.action}) without a known sub-device`);
+      return;
+    }
+
+    for (const { deviceId, params } of reports) {
+      this.platform.log.debug(`Zigbee sub-device report received (${message.action}) for ${deviceId}:`, JSON.stringify(params));
+      this.platform.handleDeviceUpdate(deviceId, params);
+    }
+  }
+
   /**
    * Send command to device
    */
   async sendCommand(deviceId: string, params: DeviceParams): Promise<boolean> {
-    if (!this.ws || !this.connected || !this.platform.ewelinkApi) {
+    if (!this.ws || !this.connected || !this.ewelinkApi) {
       this.platform.log.warn(`Cannot send command to ${deviceId}: WebSocket not ready`);
       return false;
     }
@@ -250,7 +283,7 @@ export class WSClient {
       action: 'update',
       deviceid: parentDeviceId,
       apikey: device.apikey,
-      selfApikey: this.platform.ewelinkApi.getApiKey(),
+      selfApikey: this.ewelinkApi.getApiKey(),
       params,
       sequence,
       userAgent: 'app',
@@ -305,30 +338,33 @@ export class WSClient {
 
   /**
    * Schedule reconnection
+   * Retries never stop: the delay doubles from the base with jitter up to the cap.
+   * Once the failures reach the circuit breaker threshold the link is reported
+   * offline and every further attempt waits the full cap.
    */
   private scheduleReconnect(forceLogin = false): void {
-    if (this.reconnecting) {
-      return;
-    }
-
-    // Check if max reconnect attempts reached
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.platform.log.error(
-        `WebSocket max reconnection attempts (${this.maxReconnectAttempts}) reached. ` +
-        'Please check your credentials or restart Homebridge.',
-      );
+    if (this.reconnecting || this.stopped) {
       return;
     }
 
     this.reconnecting = true;
     this.reconnectAttempts++;
+    this.platform.metrics.recordWsReconnect();
+
+    const circuitOpen = this.reconnectAttempts > WS_RECONNECT.CIRCUIT_BREAKER_THRESHOLD;
+    if (circuitOpen && this.state !== 'offline') {
+      this.platform.log.warn(
+        `WebSocket reconnection failed ${WS_RECONNECT.CIRCUIT_BREAKER_THRESHOLD} times, ` +
+        `eWeLink cloud is offline${this.ewelinkApi?.label ? ` for ${this.ewelinkApi.label}` : ''}. ` +
+        `Retrying every ${Math.round(WS_RECONNECT.MAX_DELAY_MS / 60000)} minutes...`,
+      );
+      this.setState('offline');
+    }
 
-    // Exponential backoff: 5s, 10s, 20s, 40s, 80s, ... (capped at 300s)
-    const baseDelay = NETWORK_INTERVALS.WEBSOCKET_RECONNECT;
-    const backoffDelay = Math.min(baseDelay * Math.pow(2, this.reconnectAttempts - 1), 300000);
+    const backoffDelay = this.getReconnectDelay(circuitOpen);
 
     this.platform.log.info(
-      `Scheduling WebSocket reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} ` +
+      `Scheduling WebSocket reconnection attempt ${this.reconnectAttempts} ` +
       `in ${Math.round(backoffDelay / 1000)}s...`,
     );
 
@@ -336,18 +372,23 @@ export class WSClient {
       this.platform.log.info('Attempting to reconnect to WebSocket...');
 
       try {
-        if (this.platform.ewelinkApi) {
+        if (this.ewelinkApi) {
           if (forceLogin) {
             // Force fresh login when token was invalidated (406 error)
             this.platform.log.info('Performing fresh login due to token invalidation...');
-            await this.platform.ewelinkApi.login();
+            await this.ewelinkApi.login();
           } else {
             // Normal reconnect - reload tokens in case they were updated
             this.platform.log.debug('Reloading tokens from storage before reconnect...');
-            await this.platform.ewelinkApi.reloadTokensFromStorage();
+            await this.ewelinkApi.reloadTokensFromStorage();
           }
         }
 
+        // Disconnected while logging in
+        if (this.stopped) {
+          return;
+        }
+
         await this.connect();
         this.reconnecting = false;
       } catch (error) {
@@ -371,10 +412,46 @@ export class WSClient {
     }, backoffDelay);
   }
 
+  /**
+   * Delay before the next reconnection attempt
+   * Exponential from the base delay (5s, 10s, 20s, ...), or the cap once the circuit is open.
+   * Jitter keeps the delay between half and all of that value, so instances
+   * that lost the cloud together do not reconnect in lockstep.
+   */
+  private getReconnectDelay(circuitOpen: boolean): number {
+    const delay = circuitOpen
+      ? WS_RECONNECT.MAX_DELAY_MS
+      : Math.min(NETWORK_INTERVALS.WEBSOCKET_RECONNECT * Math.pow(2, this.reconnectAttempts - 1), WS_RECONNECT.MAX_DELAY_MS);
+
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Move to a new connection state and let the platform react
+   */
+  private setState(state: CloudConnectionState): void {
+    if (state === this.state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+    this.platform.log.debug(`WebSocket state: ${previous} -> ${state}`);
+    this.platform.handleCloudStateChange(state, previous, this);
+  }
+
+  /**
+   * Get the connection state
+   */
+  getState(): CloudConnectionState {
+    return this.state;
+  }
+
   /**
    * Disconnect from WebSocket
    */
   disconnect(): void {
+    this.stopped = true;
     this.stopHeartbeat();
 
     if (this.reconnectTimeout) {
@@ -388,6 +465,8 @@ export class WSClient {
     }
 
     this.connected = false;
+    this.reconnecting = false;
+    this.state = 'offline';
 
     // Reject all pending requests
     for (const [, pending] of this.pendingRequests) {
@@ -410,12 +489,12 @@ export class WSClient {
   async queryDeviceState(deviceId: string): Promise<boolean> {
     const displayName = this.platform.getDeviceDisplayName(deviceId);
 
-    if (!this.ws || !this.connected || !this.platform.ewelinkApi) {
+    if (!this.ws || !this.connected || !this.ewelinkApi) {
       this.platform.log.warn(`Cannot query device ${displayName}: WebSocket not connected`);
       return false;
     }
 
-    const apiKey = this.platform.ewelinkApi.getApiKey();
+    const apiKey = this.ewelinkApi.getApiKey();
     if (!apiKey) {
       this.platform.log.warn(`Cannot query device ${displayName}: No API key available`);
       return false;
@@ -456,3 +535,51 @@ export class WSClient {
   }
 
 }
+
+/** Keys that address a Zigbee sub-device rather than describe its state */
+const SUB_DEVICE_ROUTING_KEYS = ['subDevId', 'subDeviceId', 'deviceid', 'parentid', 'params'];
+
+/**
+ * Extract per-sub-device params from a `reportSubDevice`/`subDevice` message
+ * The child is named by `subDevId` (top level or in params) or by each entry of a
+ * `subDevices` list. Reports naming no child are skipped: `deviceid` may be the
+ * bridge, whose cached params do not always list its sub-devices.
+ * Top-level `online` and `battery` apply to a single child.
+ */
+function parseSubDeviceReports(
+  message: WSMessage,
+  deviceCache: Map<string, EWeLinkDevice>,
+): Array<{ deviceId: string; params: DeviceParams }> {
+  const params = (message.params ?? {}) as Record<string, unknown>;
+  const list = Array.isArray(params.subDevices) ? params.subDevices : message.subDevices;
+
+  const reports: Array<{ deviceId: string; params: DeviceParams }> = [];
+  const addReport = (deviceId: unknown, state: Record<string, unknown>) => {
+    if (typeof deviceId !== 'string' || !deviceCache.has(deviceId)) {
+      return;
+    }
+    const childParams = Object.fromEntries(
+      Object.entries(state).filter(([key, value]) => !SUB_DEVICE_ROUTING_KEYS.includes(key) && value !== undefined),
+    ) as DeviceParams;
+    if (Object.keys(childParams).length > 0) {
+      reports.push({ deviceId, params: childParams });
+    }
+  };
+
+  if (Array.isArray(list)) {
+    for (const entry of list as Array<Record<string, unknown>>) {
+      if (entry && typeof entry === 'object') {
+        addReport(entry.subDevId ?? entry.deviceid, { ...(entry.params as object | undefined), ...entry });
+      }
+    }
+    return reports;
+  }
+
+  const state = { online: message.online, battery: message.battery, ...params };
+  const subDeviceId = message.subDevId ?? params.subDevId ?? message.subDeviceId ?? params.subDeviceId;
+  if (subDeviceId !== undefined) {
+    addReport(subDeviceId, state);
+  }
+
+  return reports;
+}
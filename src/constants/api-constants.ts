@@ -73,3 +73,25 @@ export const WEBSOCKET_FALLBACK_HOSTS: Record<string, string[]> = {
     'cn-pconnect5.coolkit.cn:8080',
   ],
 } as const;
+
+/**
+ * eWeLink session token lifetimes and renewal timing (in milliseconds)
+ * The API does not return expiry times, so they are counted from issue
+ */
+export const TOKEN_LIFECYCLE = {
+  ACCESS_TOKEN_TTL_MS: 30 * 24 * 60 * 60 * 1000,  // 30 days - access token (`at`) lifetime
+  REFRESH_TOKEN_TTL_MS: 60 * 24 * 60 * 60 * 1000, // 60 days - refresh token (`rt`) lifetime
+  LEGACY_TTL_MS: 24 * 60 * 60 * 1000,             // 24 hours - files saved without an expiry
+  RENEW_BEFORE_MS: 3 * 24 * 60 * 60 * 1000,       // 3 days - renew when the access token expires sooner
+  CHECK_INTERVAL_MS: 60 * 60 * 1000,              // 1 hour - expiry check interval
+  LOCK_STALE_MS: 30000,                           // 30 seconds - refresh lock left by a crashed process
+  LOCK_POLL_MS: 500,                              // 0.5 seconds - wait between lock attempts
+} as const;
+
+/**
+ * eWeLink OAuth2 authorization-code flow
+ */
+export const OAUTH = {
+  AUTHORIZE_URL: 'https://c2ccdn.coolkit.cc/oauth/index.html', // Sign-in page the user is sent to
+  STATE_TTL_MS: 10 * 60 * 1000,                               // 10 minutes - time to complete the sign-in
+} as const;
@@ -110,6 +110,30 @@ export interface DeviceParamsDef {
   motorTurn?: string;
   /** Battery parameter type: 'percentage' (0-100) or 'voltage' (2.0-3.0V) */
   battery?: 'percentage' | 'voltage';
+  /** Radiator valve (TRV) parameters */
+  trv?: {
+    /** Measured temperature parameter */
+    currentTemp: string;
+    /** Active target temperature parameter (reported) */
+    targetTemp: string;
+    /** Parameter written to change the manual target temperature */
+    setTargetTemp: string;
+    /** Divide raw temperatures by this (and multiply when writing) */
+    tempDivisor: number;
+    /** Target temperature range in Celsius */
+    minTemp: number;
+    maxTemp: number;
+    /** On/off parameter */
+    power: string;
+    /** Work mode parameter and its manual/schedule values */
+    mode: { param: string; manual: string; auto: string };
+    /** Window-open detection setting */
+    windowOpen?: string;
+    /** Child lock setting */
+    childLock?: string;
+    /** Valve opening parameter (0-100%) */
+    valvePosition?: string;
+  };
 }
 
 /** Device capability flags */
@@ -2390,15 +2414,32 @@ export const DEVICE_CATALOG: Record<number, DeviceCatalogEntry> = {
     category: 'thermostat',
     name: 'Zigbee Thermostat',
     primaryService: 'Thermostat',
+    additionalServices: ['Battery'],
     capabilities: {
       powerMonitoring: 'none',
       channels: 1,
       hasTemperature: true,
+      hasBattery: true,
       supportsLAN: false,
     },
     params: {
       temperature: 'temperature',
+      trv: {
+        currentTemp: 'temperature',
+        targetTemp: 'curTargetTemp',
+        setTargetTemp: 'manTargetTemp',
+        tempDivisor: 10,
+        minTemp: 4,
+        maxTemp: 35,
+        power: 'switch',
+        mode: { param: 'workMode', manual: '0', auto: '1' },
+        windowOpen: 'openWindow',
+        childLock: 'childLock',
+        valvePosition: 'openPercent',
+      },
+      battery: 'percentage',
     },
+    notes: 'Radiator valve (TRVZB); temperatures are reported in tenths of a degree',
   },
 
   7019: {
@@ -2941,6 +2982,15 @@ export function getPositionParams(uiid: number): DeviceParamsDef['position'] | u
   return device?.params?.position;
 }
 
+/**
+ * Get radiator valve (TRV) parameter definition for a UIID
+ * Returns the TRV parameter config from catalog, or undefined if not a TRV
+ */
+export function getTrvParams(uiid: number): DeviceParamsDef['trv'] | undefined {
+  const device = DEVICE_CATALOG[uiid];
+  return device?.params?.trv;
+}
+
 /** Get motor turn parameter name for curtain devices */
 export function getMotorTurnParam(uiid: number): string | undefined {
   const device = DEVICE_CATALOG[uiid];
@@ -19,3 +19,45 @@ export const NETWORK_INTERVALS = {
   WEBSOCKET_RECONNECT: 5000,   // 5 seconds - WebSocket reconnection delay
   WEBSOCKET_HEARTBEAT: 90000,  // 90 seconds - WebSocket ping interval
 } as const;
+
+/**
+ * WebSocket reconnection settings
+ */
+export const WS_RECONNECT = {
+  MAX_DELAY_MS: 300000,            // 5 minutes - cap on the jittered backoff
+  CIRCUIT_BREAKER_THRESHOLD: 5,    // Failed attempts before the cloud link is reported offline
+} as const;
+
+/**
+ * LAN state polling settings
+ */
+export const LAN_POLL = {
+  MIN_INTERVAL_MS: 10000,     // 10 seconds - shortest configurable poll interval
+  MAX_BACKOFF_MS: 600000,     // 10 minutes - longest delay while a device is unreachable
+} as const;
+
+/**
+ * Local HTTP API server settings
+ */
+export const API_SERVER = {
+  DEFAULT_HOST: '127.0.0.1',   // Loopback only unless httpHost is configured
+  MAX_BODY_BYTES: 65536,       // 64 KB - largest accepted command body
+} as const;
+
+/**
+ * Outgoing webhook settings
+ */
+export const WEBHOOK = {
+  TIMEOUT_MS: 5000,       // 5 seconds - per-attempt request timeout
+  MAX_ATTEMPTS: 3,        // Initial attempt plus two retries
+  RETRY_DELAY_MS: 1000,   // 1 second - base delay, doubled after each failure
+} as const;
+
+/**
+ * MQTT bridge settings
+ */
+export const MQTT = {
+  TOPIC_PREFIX: 'ewelink',             // Default root of the state and command topics
+  DISCOVERY_PREFIX: 'homeassistant',   // Default Home Assistant discovery prefix
+  RECONNECT_PERIOD_MS: 10000,          // 10 seconds - delay between broker reconnection attempts
+} as const;
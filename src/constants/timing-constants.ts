@@ -98,3 +98,45 @@ export const TEMPERATURE = {
   /** Multiplier for rounding (10^DECIMAL_PLACES) */
   ROUND_FACTOR: 10,
 } as const;
+
+/**
+ * Energy metering timing constants
+ */
+export const ENERGY_TIMING = {
+  /** Longest gap between power samples that is integrated; longer gaps (offline, restart) are skipped */
+  MAX_SAMPLE_GAP_MS: 900000,
+  /** Interval for requesting the device's own kWh counters */
+  DEVICE_KWH_POLL_MS: 900000,
+  /** Shortest interval between saves of a changed total to the accessory cache */
+  SAVE_INTERVAL_MS: 60000,
+} as const;
+
+/**
+ * Device re-discovery timing constants
+ */
+export const DISCOVERY_TIMING = {
+  /** Shortest re-discovery interval - 5 minutes */
+  MIN_INTERVAL_MS: 300000,
+} as const;
+
+/**
+ * Offline startup timing constants
+ */
+export const OFFLINE_TIMING = {
+  /** First retry of the cloud after starting from the cached device list - 1 minute */
+  CLOUD_RETRY_MS: 60000,
+  /** Longest delay between cloud retries; the delay doubles up to this - 10 minutes */
+  CLOUD_RETRY_MAX_MS: 600000,
+} as const;
+
+/**
+ * Live status file timing constants
+ */
+export const STATUS_TIMING = {
+  /** Interval between status file writes while the settings UI is open - 5 seconds */
+  WRITE_INTERVAL_MS: 5000,
+  /** How long a request from the settings UI keeps the writes going - 30 seconds */
+  WATCH_TTL_MS: 30000,
+  /** Age after which the settings UI treats the status as outdated - 20 seconds */
+  STALE_MS: 20000,
+} as const;
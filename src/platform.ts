@@ -9,23 +9,37 @@ import type {
 } from 'homebridge';
 
 import { PLATFORM_NAME, PLUGIN_NAME, DEFAULTS, DEVICE_UIID_MAP, DeviceCategory } from './settings.js';
-import type { EWeLinkPlatformConfig, EWeLinkDevice, AccessoryContext, DeviceParams } from './types/index.js';
-import { isRFButtonType, isRFSensorType, isRFCurtainType, CHANNEL_SUFFIX_PATTERN } from './constants/device-constants.js';
+import type {
+  EWeLinkPlatformConfig, EWeLinkDevice, EWeLinkGroup, AccessoryContext, DeviceParams, RFSubdeviceConfig, CloudConnectionState,
+  EWeLinkAccountConfig,
+} from './types/index.js';
+import { CHANNEL_SUFFIX_PATTERN } from './constants/device-constants.js';
 import {
   isTHSensorDevice,
   isDimmableLightForFan,
   isGroupDevice,
   isProgrammableSwitch,
   isWaterValveDevice,
+  getTrvParams,
   getChannelCount,
   hasCurtainParams,
 } from './constants/device-catalog.js';
 import { QUERY_RETRY } from './constants/api-constants.js';
+import { OFFLINE_TIMING, DISCOVERY_TIMING, STATUS_TIMING } from './constants/timing-constants.js';
 import { EWeLinkAPI } from './api/ewelink-api.js';
 import { LANControl } from './api/lan-control.js';
 import { WSClient } from './api/ws-client.js';
+import { ApiServer } from './api/api-server.js';
+import { MetricsServer } from './api/metrics-server.js';
+import { MqttBridge } from './api/mqtt-bridge.js';
 import { EveCharacteristics } from './utils/eve-characteristics.js';
 import { CommandQueue } from './utils/command-queue.js';
+import { PluginMetrics } from './utils/plugin-metrics.js';
+import { DeviceListStorage, type StoredDeviceList } from './utils/device-list-storage.js';
+import { planStaleAccessories } from './utils/stale-accessories.js';
+import { findRFSubdeviceConfig, filterRFSubAccessories, getRFSubType } from './utils/rf-subdevices.js';
+import { StatusStorage, type AccessoryStatus } from './utils/status-storage.js';
+import { TOKEN_SECRET_ENV, getEncryptionSecret } from './utils/token-storage.js';
 import { sanitizeHomeKitName } from './utils/name-utils.js';
 import type { BaseAccessory } from './accessories/base.js';
 
@@ -37,6 +51,7 @@ import { OutletAccessory } from './accessories/outlet.js';
 import { LightAccessory } from './accessories/light.js';
 import { ThermostatAccessory } from './accessories/thermostat.js';
 import { THSensorAccessory } from './accessories/th-sensor.js';
+import { ZigbeeThermostatAccessory } from './accessories/zigbee-thermostat.js';
 import { FanAccessory } from './accessories/fan.js';
 import { SensorAccessory } from './accessories/sensor.js';
 import { CurtainAccessory } from './accessories/curtain.js';
@@ -80,6 +95,27 @@ type AccessoryConstructor = new (
   accessory: PlatformAccessory<AccessoryContext>,
 ) => BaseAccessory;
 
+/** A logged-in eWeLink account and its WebSocket connection */
+export interface CloudAccount {
+  api: EWeLinkAPI;
+  wsClient?: WSClient;
+  /** Its accessories were marked offline because its cloud link is down */
+  linkDown: boolean;
+}
+
+/**
+ * Recent activity of a device, reported in the status file
+ */
+interface DeviceActivity {
+  lastUpdate?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  latencyMs?: number;
+}
+
+/** Connection states from best to worst, for the combined cloud state */
+const CLOUD_STATE_ORDER: CloudConnectionState[] = ['authenticated', 'connecting', 'degraded', 'offline'];
+
 /** Simulation handler mapping (showAs → constructor) */
 const SIMULATION_HANDLERS: Record<string, AccessoryConstructor> = {
   blind: BlindAccessory,
@@ -145,15 +181,33 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
   /** Accessory handlers */
   private readonly accessoryHandlers: Map<string, BaseAccessory> = new Map();
 
-  /** eWeLink API client */
+  /** eWeLink API client of the first account */
   public ewelinkApi?: EWeLinkAPI;
 
   /** LAN control */
   public lanControl?: LANControl;
 
-  /** WebSocket client */
+  /** WebSocket client of the first account */
   public wsClient?: WSClient;
 
+  /** Every configured eWeLink account, the platform credentials first */
+  private cloudAccounts: CloudAccount[] = [];
+
+  /** Account that owns each device and group, by ID */
+  private deviceAccounts: Map<string, CloudAccount> = new Map();
+
+  /** Local HTTP API server */
+  private apiServer?: ApiServer;
+
+  /** Prometheus metrics endpoint */
+  private metricsServer?: MetricsServer;
+
+  /** MQTT state and command bridge */
+  private mqttBridge?: MqttBridge;
+
+  /** Plugin health counters */
+  public readonly metrics: PluginMetrics = new PluginMetrics();
+
   /** Device cache */
   public deviceCache: Map<string, EWeLinkDevice> = new Map();
 
@@ -169,6 +223,32 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
   /** Initialization complete */
   private initialized = false;
 
+  /** Last successful cloud device list, used to start without the cloud */
+  private readonly deviceListStorage: DeviceListStorage;
+
+  /** Started from the cached device list, waiting for the cloud */
+  private offline = false;
+
+  /** Device and group IDs started from the cached device list */
+  private readonly offlineDeviceIds: Set<string> = new Set();
+
+  /** Pending cloud retry while offline */
+  private cloudRetryTimer?: NodeJS.Timeout;
+
+  /** Periodic device re-discovery */
+  private rediscoveryTimer?: NodeJS.Timeout;
+  private rediscovering = false;
+
+  /** Names of the groups that have accessories, by group ID */
+  private readonly groupNames: Map<string, string> = new Map();
+
+  /** Live status file read by the settings UI */
+  private readonly statusStorage: StatusStorage;
+  private statusTimer?: NodeJS.Timeout;
+
+  /** Recent updates, command results and latencies, by device ID */
+  private readonly deviceActivity: Map<string, DeviceActivity> = new Map();
+
   constructor(log: Logging, config: PlatformConfig, api: API) {
     this.log = log;
     this.api = api;
@@ -187,8 +267,12 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       concurrency: this.config.commandQueueConcurrency ?? 3,
       log: (message) => this.log.debug(`[CommandQueue] ${message}`),
       getDeviceName: (deviceId) => this.getDeviceDisplayName(deviceId),
+      onCommandSettled: (latencyMs) => this.metrics.recordCommandLatency(latencyMs),
     });
 
+    this.deviceListStorage = new DeviceListStorage(api.user.storagePath(), log, this.config.encryptTokens);
+    this.statusStorage = new StatusStorage(api.user.storagePath(), log);
+
     // Bind the method to preserve 'this' context
     this.configureAccessory = this.configureAccessory.bind(this);
 
@@ -211,8 +295,17 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
    * Validate and apply defaults to config
    */
   private validateConfig(config: EWeLinkPlatformConfig): EWeLinkPlatformConfig {
+    // The secret only comes from the environment, never from the storage path
+    let encryptTokens = config.encryptTokens;
+    if (encryptTokens && !getEncryptionSecret()) {
+      this.log.error(`encryptTokens requires the ${TOKEN_SECRET_ENV} environment variable; ` +
+        'tokens and the device list are saved unencrypted until it is set');
+      encryptTokens = false;
+    }
+
     return {
       ...config,
+      encryptTokens,
       mode: config.mode || DEFAULTS.mode,
       hideDevFromHB: config.hideDevFromHB ?? DEFAULTS.hideDevFromHB,
       hideMasters: config.hideMasters ?? DEFAULTS.hideMasters,
@@ -222,6 +315,11 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       debugFakegato: config.debugFakegato ?? DEFAULTS.debugFakegato,
       disableDeviceLogging: config.disableDeviceLogging ?? DEFAULTS.disableDeviceLogging,
       offlineAsOff: config.offlineAsOff ?? DEFAULTS.offlineAsOff,
+      rediscoveryInterval: config.rediscoveryInterval ?? DEFAULTS.rediscoveryInterval,
+      staleAccessorySyncs: config.staleAccessorySyncs ?? DEFAULTS.staleAccessorySyncs,
+      staleAccessoryDays: config.staleAccessoryDays ?? DEFAULTS.staleAccessoryDays,
+      staleAccessoryMaxPercent: config.staleAccessoryMaxPercent ?? DEFAULTS.staleAccessoryMaxPercent,
+      writeConfirmationTimeout: config.writeConfirmationTimeout ?? DEFAULTS.writeConfirmationTimeout,
       singleDevices: config.singleDevices || [],
       multiDevices: config.multiDevices || [],
       thDevices: config.thDevices || [],
@@ -292,22 +390,19 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       // Validate credentials
       this.log.debug(`Config username: ${this.config.username ? 'SET' : 'NOT SET'}`);
       this.log.debug(`Config password: ${this.config.password ? 'SET' : 'NOT SET'}`);
+      this.log.debug(`Additional accounts: ${this.config.accounts?.length ?? 0}`);
+
+      // Initialize API clients
+      this.log.info('Initializing eWeLink API...');
+      this.initCloudAccounts();
 
-      if (!this.config.username || !this.config.password) {
+      if (this.cloudAccounts.length === 0) {
         this.log.warn('eWeLink credentials not configured. Please configure the plugin.');
         return;
       }
 
-      // Initialize API
-      this.log.info('Initializing eWeLink API...');
-      this.ewelinkApi = new EWeLinkAPI(this);
-
-      this.log.info('Attempting login...');
-      await this.ewelinkApi.login();
-
-      // Get device list and groups
-      const { devices, groups } = await this.ewelinkApi.getDevices();
-      this.log.info(`Discovered ${devices.length} devices and ${groups.length} groups from eWeLink`);
+      // Get device list and groups, falling back to the cached list when the cloud is unreachable
+      const { devices, groups } = await this.fetchDeviceList();
 
       // Cache devices
       for (const device of devices) {
@@ -319,42 +414,14 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
         this.lanControl = new LANControl(this);
 
         // Pre-register devices with IP info from API (before mDNS discovery)
-        let lanRegisteredCount = 0;
-        let lanCapableNoIp = 0;
-        for (const device of devices) {
-          if (device.localtype === 1) {
-            if (device.ip && device.port) {
-              this.lanControl.registerDevice(
-                device.deviceid,
-                device.ip,
-                device.port,
-                device.devicekey,
-                true, // encrypt
-              );
-              lanRegisteredCount++;
-            } else {
-              lanCapableNoIp++;
-              this.log.debug(
-                `[${device.name}] LAN capable but no IP from API ` +
-                  `(localtype=${device.localtype}, ip=${device.ip}, port=${device.port})`,
-              );
-            }
-          }
-        }
-        if (lanRegisteredCount > 0) {
-          this.log.info(`Pre-registered ${lanRegisteredCount} device(s) for LAN control from API`);
-        }
-        if (lanCapableNoIp > 0) {
-          this.log.info(`${lanCapableNoIp} device(s) support LAN but API didn't provide IP addresses`);
-        }
+        this.registerLanDevices(devices);
 
         await this.lanControl.start();
       }
 
-      // Initialize WebSocket client if not LAN-only mode
-      if (this.config.mode !== 'lan') {
-        this.wsClient = new WSClient(this);
-        await this.wsClient.connect();
+      // Initialize WebSocket clients if not LAN-only mode
+      if (this.config.mode !== 'lan' && !this.offline) {
+        await this.connectWebSockets();
       }
 
       // Register/update accessories. Wrap per-device so a bug initializing one
@@ -373,8 +440,36 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       // Process device groups
       await this.processGroups(groups);
 
-      // Remove stale accessories
-      this.removeStaleAccessories(devices);
+      // Quarantine or remove stale accessories (those from ignored homes go at once)
+      // The cached list may be outdated, so cleanup waits for the cloud
+      if (this.offline) {
+        devices.forEach(device => this.offlineDeviceIds.add(device.deviceid));
+        groups.forEach(group => this.offlineDeviceIds.add(group.id));
+        this.scheduleCloudRetry(OFFLINE_TIMING.CLOUD_RETRY_MS);
+      } else {
+        this.removeStaleAccessories(devices, groups);
+        this.startRediscovery();
+      }
+
+      // Start local HTTP API server if configured
+      if (this.config.apiPort) {
+        this.apiServer = new ApiServer(this);
+        await this.apiServer.start();
+      }
+
+      // Start Prometheus metrics endpoint if configured
+      if (this.config.metricsPort) {
+        this.metricsServer = new MetricsServer(this);
+        await this.metricsServer.start();
+      }
+
+      // Connect the MQTT bridge if configured
+      if (this.config.mqttUrl) {
+        this.mqttBridge = new MqttBridge(this);
+        this.mqttBridge.start();
+      }
+
+      this.startStatusUpdates();
 
       this.initialized = true;
       this.log.info('eWeLink platform initialization complete');
@@ -384,6 +479,408 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     }
   }
 
+  /**
+   * Create an API client for the platform credentials and for each entry of `accounts`
+   * The first account is also exposed as `ewelinkApi`
+   */
+  private initCloudAccounts(): void {
+    const accounts: Array<EWeLinkAccountConfig | undefined> = [];
+    const usernames = new Set<string>();
+
+    // Without a password, the main account runs on a session from the OAuth sign-in in the settings UI
+    if ((this.config.username && this.config.password) || (this.config.appId && this.config.appSecret)) {
+      accounts.push(undefined);
+      if (this.config.username) {
+        usernames.add(this.config.username.toLowerCase());
+      }
+    }
+
+    (this.config.accounts || []).forEach((account, index) => {
+      if (!account?.username || !account.password) {
+        this.log.warn(`Skipping additional account ${index + 1}: username and password are required`);
+        return;
+      }
+      if (usernames.has(account.username.toLowerCase())) {
+        this.log.warn(`Skipping additional account ${index + 1}: account is already configured`);
+        return;
+      }
+
+      usernames.add(account.username.toLowerCase());
+      accounts.push({ ...account, label: account.label || `additional account ${index + 1}` });
+    });
+
+    this.cloudAccounts = accounts.map(account => ({ api: new EWeLinkAPI(this, account), linkDown: false }));
+    this.ewelinkApi = this.cloudAccounts[0]?.api;
+  }
+
+  /**
+   * Fetch devices and groups from every account and record which account owns each
+   * A device shared with several accounts is kept once, from the account that owns
+   * it (its `apikey`) when that account is configured, since shared devices may not
+   * expose every param. Fails if any account fails, so a missing account's devices
+   * are not treated as removed.
+   * @param login - Sign in to each account first, resuming its saved session when valid
+   */
+  private async fetchFromAccounts(login: boolean): Promise<{ devices: EWeLinkDevice[]; groups: EWeLinkGroup[] }> {
+    const devices: Map<string, EWeLinkDevice> = new Map();
+    const groups: Map<string, EWeLinkGroup> = new Map();
+    const owners: Map<string, CloudAccount> = new Map();
+
+    for (const account of this.cloudAccounts) {
+      let result: { devices: EWeLinkDevice[]; groups: EWeLinkGroup[] };
+      try {
+        if (login) {
+          await account.api.authenticate();
+        }
+        result = await account.api.getDevices();
+      } catch (error) {
+        if (!account.api.label) {
+          throw error;
+        }
+        throw new Error(`${account.api.label}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+      }
+
+      const apiKey = account.api.getApiKey();
+      for (const device of result.devices) {
+        if (devices.has(device.deviceid)) {
+          if (device.apikey !== apiKey) {
+            this.log.debug(`[${device.name}] Shared with several accounts, keeping the first one`);
+            continue;
+          }
+          this.log.debug(`[${device.name}] Shared with several accounts, using the owner account`);
+        }
+        devices.set(device.deviceid, device);
+        owners.set(device.deviceid, account);
+      }
+
+      for (const group of result.groups) {
+        if (!groups.has(group.id)) {
+          groups.set(group.id, group);
+          owners.set(group.id, account);
+        }
+      }
+    }
+
+    this.deviceAccounts = owners;
+    return { devices: [...devices.values()], groups: [...groups.values()] };
+  }
+
+  /**
+   * Open a WebSocket connection for every account
+   */
+  private async connectWebSockets(): Promise<void> {
+    for (const account of this.cloudAccounts) {
+      account.wsClient = new WSClient(this, account.api);
+    }
+    this.wsClient = this.cloudAccounts[0]?.wsClient;
+
+    for (const account of this.cloudAccounts) {
+      await account.wsClient!.connect();
+    }
+  }
+
+  /**
+   * Account that owns a device or group (the first account when it is not known)
+   */
+  public getDeviceAccount(deviceId: string): CloudAccount | undefined {
+    return this.deviceAccounts.get(deviceId.replace(CHANNEL_SUFFIX_PATTERN, '')) ?? this.cloudAccounts[0];
+  }
+
+  /**
+   * Log in and fetch the device list, saving it for offline startup
+   * When the cloud is unreachable outside WAN-only mode, the last saved list is used instead
+   */
+  private async fetchDeviceList(): Promise<StoredDeviceList> {
+    try {
+      this.log.info('Attempting login...');
+      const { devices, groups } = await this.fetchFromAccounts(true);
+      this.log.info(
+        `Discovered ${devices.length} devices and ${groups.length} groups from eWeLink` +
+          (this.cloudAccounts.length > 1 ? ` across ${this.cloudAccounts.length} accounts` : ''),
+      );
+
+      this.deviceListStorage.save(devices, groups);
+      return { devices, groups, timestamp: Date.now() };
+
+    } catch (error) {
+      const cached = this.config.mode !== 'wan' ? this.deviceListStorage.load() : null;
+      if (!cached) {
+        throw error;
+      }
+
+      this.offline = true;
+      this.log.warn(
+        `eWeLink cloud unavailable (${error instanceof Error ? error.message : String(error)}). ` +
+          `Starting ${cached.devices.length} device(s) from the device list saved ` +
+          `${new Date(cached.timestamp).toISOString()}, LAN control only until the cloud is reachable`,
+      );
+      return cached;
+    }
+  }
+
+  /**
+   * Pre-register LAN-capable devices with the IP and port reported by the API
+   */
+  private registerLanDevices(devices: EWeLinkDevice[]): void {
+    let lanRegisteredCount = 0;
+    let lanCapableNoIp = 0;
+    for (const device of devices) {
+      if (device.localtype === 1) {
+        if (device.ip && device.port) {
+          this.lanControl!.registerDevice(
+            device.deviceid,
+            device.ip,
+            device.port,
+            device.devicekey,
+            true, // encrypt
+          );
+          lanRegisteredCount++;
+        } else {
+          lanCapableNoIp++;
+          this.log.debug(
+            `[${device.name}] LAN capable but no IP from API ` +
+              `(localtype=${device.localtype}, ip=${device.ip}, port=${device.port})`,
+          );
+        }
+      }
+    }
+    if (lanRegisteredCount > 0) {
+      this.log.info(`Pre-registered ${lanRegisteredCount} device(s) for LAN control from API`);
+    }
+    if (lanCapableNoIp > 0) {
+      this.log.info(`${lanCapableNoIp} device(s) support LAN but API didn't provide IP addresses`);
+    }
+  }
+
+  /**
+   * Retry the cloud after an offline startup, doubling the delay up to the maximum
+   */
+  private scheduleCloudRetry(delay: number): void {
+    this.cloudRetryTimer = setTimeout(() => {
+      this.cloudRetryTimer = undefined;
+      void this.reconcileWithCloud(delay);
+    }, delay);
+  }
+
+  /**
+   * Reconcile an offline startup with the cloud
+   * Existing handlers get the fresh params, new devices and groups are added,
+   * stale accessories are removed and the WebSocket connection is started
+   */
+  private async reconcileWithCloud(delay: number): Promise<void> {
+    let devices: EWeLinkDevice[];
+    let groups: EWeLinkGroup[];
+
+    try {
+      ({ devices, groups } = await this.fetchFromAccounts(true));
+    } catch (error) {
+      const nextDelay = Math.min(delay * 2, OFFLINE_TIMING.CLOUD_RETRY_MAX_MS);
+      this.log.debug(
+        `eWeLink cloud still unavailable (${error instanceof Error ? error.message : String(error)}), ` +
+          `retrying in ${nextDelay / 1000}s`,
+      );
+      this.scheduleCloudRetry(nextDelay);
+      return;
+    }
+
+    this.offline = false;
+    this.log.info(`eWeLink cloud reachable again, reconciling ${devices.length} devices and ${groups.length} groups`);
+    this.deviceListStorage.save(devices, groups);
+
+    try {
+      for (const device of devices) {
+        this.deviceCache.set(device.deviceid, device);
+      }
+
+      if (this.lanControl) {
+        this.registerLanDevices(devices);
+      }
+
+      if (this.config.mode !== 'lan') {
+        await this.connectWebSockets();
+      }
+
+      for (const device of devices) {
+        if (this.offlineDeviceIds.has(device.deviceid)) {
+          this.handleDeviceUpdate(device.deviceid, device.params);
+          continue;
+        }
+
+        try {
+          await this.addAccessory(device);
+        } catch (error) {
+          this.log.error(
+            `Failed to initialize accessory for ${device.name} [${device.deviceid}]: ` +
+              (error instanceof Error ? error.message : String(error)),
+          );
+        }
+      }
+
+      await this.processGroups(groups.filter(group => !this.offlineDeviceIds.has(group.id)));
+      this.removeStaleAccessories(devices, groups);
+      this.offlineDeviceIds.clear();
+      this.startRediscovery();
+
+    } catch (error) {
+      this.log.error('Failed to reconcile devices with the cloud:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Start periodic re-discovery (`rediscoveryInterval` minutes, 0 disables)
+   */
+  private startRediscovery(): void {
+    const minutes = this.config.rediscoveryInterval ?? DEFAULTS.rediscoveryInterval;
+    if (minutes <= 0 || this.rediscoveryTimer) {
+      return;
+    }
+
+    const intervalMs = Math.max(minutes * 60000, DISCOVERY_TIMING.MIN_INTERVAL_MS);
+    this.rediscoveryTimer = setInterval(() => {
+      void this.rediscoverDevices();
+    }, intervalMs);
+    this.log.debug(`Device re-discovery every ${intervalMs / 60000} minutes`);
+  }
+
+  /**
+   * Re-sync with the cloud device list without a restart
+   * Adds new devices and groups, renames accessories, rebuilds RF sub-devices
+   * when a bridge's learned remotes change, updates LAN addresses and removes
+   * devices that stay missing for the grace period
+   */
+  async rediscoverDevices(): Promise<void> {
+    if (this.cloudAccounts.length === 0 || this.offline || this.rediscovering) {
+      return;
+    }
+
+    this.rediscovering = true;
+    try {
+      const { devices, groups } = await this.fetchFromAccounts(false);
+      this.deviceListStorage.save(devices, groups);
+
+      const changes: string[] = [];
+
+      for (const device of devices) {
+        const previous = this.deviceCache.get(device.deviceid);
+        this.deviceCache.set(device.deviceid, device);
+
+        if (this.lanControl && device.localtype === 1 && device.ip && device.port) {
+          this.lanControl.registerDevice(device.deviceid, device.ip, device.port, device.devicekey, true);
+        }
+
+        try {
+          if (!previous) {
+            if (!this.isDeviceIgnored(device.deviceid)) {
+              await this.addAccessory(device);
+              changes.push(`added ${device.name}`);
+            }
+            continue;
+          }
+
+          if (previous.name !== device.name) {
+            this.renameDeviceAccessories(device);
+            changes.push(`renamed ${previous.name} to ${device.name}`);
+          }
+
+          if (
+            DEVICE_UIID_MAP[device.extra?.uiid || 0] === DeviceCategory.RF_BRIDGE &&
+            JSON.stringify(previous.tags?.zyx_info ?? []) !== JSON.stringify(device.tags?.zyx_info ?? [])
+          ) {
+            await this.rebuildRFSubDevices(device);
+            changes.push(`rebuilt RF sub-devices of ${device.name}`);
+          }
+        } catch (error) {
+          this.log.error(
+            `Failed to update accessory for ${device.name} [${device.deviceid}]: ` +
+              (error instanceof Error ? error.message : String(error)),
+          );
+        }
+      }
+
+      // New groups get accessories, renamed ones are renamed in place
+      const newGroups = groups.filter(group => !this.groupNames.has(group.id));
+      for (const group of groups) {
+        const previousName = this.groupNames.get(group.id);
+        const name = group.name || `Group ${group.id}`;
+        if (previousName !== undefined && previousName !== name) {
+          const accessory = this.accessories.get(this.api.hap.uuid.generate(group.id));
+          if (accessory) {
+            this.renameAccessory(accessory, name);
+          }
+          this.groupNames.set(group.id, name);
+          changes.push(`renamed group ${previousName} to ${name}`);
+        }
+      }
+      await this.processGroups(newGroups);
+      newGroups.forEach(group => changes.push(`added group ${group.name || group.id}`));
+
+      changes.push(...this.removeStaleAccessories(devices, groups));
+
+      if (changes.length > 0) {
+        this.log.info(`Device re-discovery: ${changes.join(', ')}`);
+      } else {
+        this.log.debug('Device re-discovery: no changes');
+      }
+    } catch (error) {
+      this.log.warn('Device re-discovery failed:', error instanceof Error ? error.message : String(error));
+    } finally {
+      this.rediscovering = false;
+    }
+  }
+
+  /**
+   * Rename the accessories of a device (or all its channels) after it was renamed in eWeLink
+   */
+  private renameDeviceAccessories(device: EWeLinkDevice): void {
+    const safeName = sanitizeHomeKitName(device.name);
+    const channelCount = getChannelCount(device.extra?.uiid || 0);
+
+    const single = this.accessories.get(this.api.hap.uuid.generate(device.deviceid));
+    if (single) {
+      single.context.device = device;
+      this.renameAccessory(single, safeName);
+    }
+
+    for (let channel = 0; channel <= channelCount && channelCount > 1; channel++) {
+      const subAccessory = this.accessories.get(this.api.hap.uuid.generate(`${device.deviceid}SW${channel}`));
+      if (subAccessory && subAccessory.context.switchNumber !== undefined) {
+        subAccessory.context.device = device;
+        this.renameAccessory(subAccessory, channel === 0 ? safeName : `${safeName} ${channel}`);
+      }
+    }
+  }
+
+  /**
+   * Set an accessory's name
+   * Only the accessory information name changes; names set in the Home app are kept
+   */
+  private renameAccessory(accessory: PlatformAccessory<AccessoryContext>, name: string): void {
+    const safeName = sanitizeHomeKitName(name);
+    accessory.displayName = safeName;
+    accessory.getService(this.Service.AccessoryInformation)
+      ?.updateCharacteristic(this.Characteristic.Name, safeName);
+    this.api.updatePlatformAccessories([accessory]);
+  }
+
+  /**
+   * Rebuild an RF bridge's sub-devices after its learned remotes changed
+   * Remotes that were deleted in eWeLink lose their accessory
+   */
+  private async rebuildRFSubDevices(bridgeDevice: EWeLinkDevice): Promise<void> {
+    const currentIds = await this.createRFSubDevices(bridgeDevice, false);
+
+    for (const accessory of [...this.accessories.values()]) {
+      if (
+        accessory.context.rfButtonIndex !== undefined &&
+        accessory.context.deviceId.replace(CHANNEL_SUFFIX_PATTERN, '') === bridgeDevice.deviceid &&
+        !currentIds.has(accessory.context.deviceId)
+      ) {
+        this.log.info(`Removing RF sub-device no longer learned on ${bridgeDevice.name}: ${accessory.displayName}`);
+        this.removeAccessory(accessory);
+      }
+    }
+  }
+
   /**
    * Add or update an accessory
    */
@@ -431,6 +928,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       bridgeAccessory.context.category = category;
 
       // Initialize handler so it can route RF events to sub-devices
+      this.disposeAccessoryHandler(bridgeAccessory.UUID);
       const handler = new RFBridgeAccessory(this, bridgeAccessory);
       this.accessoryHandlers.set(bridgeAccessory.UUID, handler);
 
@@ -497,11 +995,19 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
   /**
    * Create RF sub-devices for RF Bridge
    */
-  private async createRFSubDevices(bridgeDevice: EWeLinkDevice): Promise<void> {
+  private async createRFSubDevices(bridgeDevice: EWeLinkDevice, allowReset = true): Promise<Set<string>> {
+    const bridgeConfig = this.config.rfDevices?.find(d => d.deviceId === bridgeDevice.deviceid);
+    const subDeviceIds = new Set<string>();
+
+    // Clear cached sub-devices so they are rebuilt from zyx_info
+    if (allowReset && bridgeConfig?.resetOnStartup) {
+      this.resetRFSubDevices(bridgeDevice);
+    }
+
     // Check if bridge has learned RF devices
     if (!bridgeDevice.tags?.zyx_info || bridgeDevice.tags.zyx_info.length === 0) {
       this.log.debug(`RF Bridge ${bridgeDevice.name} has no learned RF devices`);
-      return;
+      return subDeviceIds;
     }
 
     this.log.info(`Creating RF sub-devices for bridge ${bridgeDevice.name}...`);
@@ -514,8 +1020,6 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       const fullDeviceId = `${bridgeDevice.deviceid}SW${swNumber}`;
       const uuid = this.api.hap.uuid.generate(fullDeviceId);
 
-      // Determine sub-device type based on remote_type
-      let subType: string;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       let handler: RFButtonAccessory | RFSensorAccessory | any;
       const remoteType = rfDevice.remote_type;
@@ -531,22 +1035,11 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
 
       this.log.debug(`RF sub-device ${rfDevice.name}: buttons=${JSON.stringify(buttons)}`);
 
-      // Determine type using RF remote type helpers
-      if (isRFButtonType(remoteType)) {
-        subType = 'button';
-      } else if (isRFCurtainType(remoteType)) {
-        // Curtain - check config for simulation type
-        const deviceConfig = this.config.bridgeSensors?.find(
-          s => s.fullDeviceId === fullDeviceId,
-        );
-        if (deviceConfig?.curtainType && ['blind', 'door', 'window'].includes(deviceConfig.curtainType)) {
-          subType = deviceConfig.curtainType;
-        } else {
-          subType = 'curtain';
-        }
-      } else if (isRFSensorType(remoteType)) {
-        subType = 'sensor';
-      } else {
+      // Determine type from the subdevice config, falling back to the RF remote type
+      const subdeviceConfig = this.getRFSubdeviceConfig(bridgeDevice.deviceid, channelCounter, rfDevice.name);
+      const curtainType = this.config.bridgeSensors?.find(s => s.fullDeviceId === fullDeviceId)?.curtainType;
+      const subType = getRFSubType(remoteType, subdeviceConfig?.showAs, curtainType);
+      if (!subType) {
         this.log.warn(`Unknown RF device type ${remoteType} for ${rfDevice.name}, skipping`);
         continue;
       }
@@ -554,6 +1047,13 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       // Create or update accessory
       let subAccessory = this.accessories.get(uuid);
 
+      // Services differ per type, so a changed type needs a fresh accessory
+      if (subAccessory && subAccessory.context.subType !== subType) {
+        this.log.info(`RF sub-device ${rfDevice.name} changed type to ${subType}, re-creating`);
+        this.removeAccessory(subAccessory);
+        subAccessory = undefined;
+      }
+
       const safeRfName = sanitizeHomeKitName(rfDevice.name);
 
       if (!subAccessory) {
@@ -614,6 +1114,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       }
 
       // Initialize appropriate handler
+      this.disposeAccessoryHandler(subAccessory.UUID);
       if (subType === 'button' || subType === 'curtain') {
         handler = new RFButtonAccessory(this, subAccessory);
       } else if (subType === 'sensor') {
@@ -627,18 +1128,36 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       } else if (subType === 'window') {
         const { RFWindowAccessory } = await import('./accessories/simulations/rf-window.js');
         handler = new RFWindowAccessory(this, subAccessory);
+      } else if (subType === 'garage') {
+        const { RFGarageAccessory } = await import('./accessories/simulations/rf-garage.js');
+        handler = new RFGarageAccessory(this, subAccessory);
       }
 
       if (handler) {
         this.accessoryHandlers.set(subAccessory.UUID, handler);
         this.api.updatePlatformAccessories([subAccessory]);
       }
+      subDeviceIds.add(fullDeviceId);
 
       // Increment channel counter by number of buttons
       channelCounter += Object.keys(buttons).length;
     }
 
     this.log.info(`Created ${bridgeDevice.tags.zyx_info.length} RF sub-devices for bridge ${bridgeDevice.name}`);
+    return subDeviceIds;
+  }
+
+  /**
+   * Remove all cached RF sub-accessories of a bridge (rfDevices[].resetOnStartup)
+   */
+  private resetRFSubDevices(bridgeDevice: EWeLinkDevice): void {
+    const subAccessories = filterRFSubAccessories(this.accessories.values(), bridgeDevice.deviceid);
+
+    for (const subAccessory of subAccessories) {
+      this.removeAccessory(subAccessory);
+    }
+
+    this.log.info(`Reset ${subAccessories.length} RF sub-device(s) for bridge ${bridgeDevice.name}`);
   }
 
   /**
@@ -665,9 +1184,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     if (this.accessories.has(singleUuid)) {
       const oldAccessory = this.accessories.get(singleUuid)!;
       this.log.info(`Removing old single accessory for ${device.name}`);
-      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [oldAccessory]);
-      this.accessories.delete(singleUuid);
-      this.accessoryHandlers.delete(oldAccessory.UUID);
+      this.removeAccessory(oldAccessory);
     }
 
     // Create sub-accessories for each channel (0 = master, 1-N = individual channels)
@@ -716,6 +1233,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
 
       // Initialize handler based on showAs config
       const showAs = deviceConfig?.showAs || 'default';
+      this.disposeAccessoryHandler(subAccessory.UUID);
 
       if (showAs === 'outlet') {
         // Create outlet handler
@@ -766,7 +1284,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     category: DeviceCategory,
   ): void {
     // Remove existing handler if any
-    this.accessoryHandlers.delete(accessory.UUID);
+    this.disposeAccessoryHandler(accessory.UUID);
 
     // Get device-specific config
     const deviceConfig = this.getDeviceConfig(device.deviceid, category);
@@ -818,10 +1336,13 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       return new CategoryHandler(this, accessory);
     }
 
-    // 5. Handle thermostat category specially (UIID 15/181 = TH sensor, UIID 127 = thermostat)
+    // 5. Handle thermostat category specially (UIID 15/181 = TH sensor, UIID 7017 = TRV, UIID 127 = thermostat)
     if (category === DeviceCategory.THERMOSTAT) {
-      return isTHSensorDevice(uiid)
-        ? new THSensorAccessory(this, accessory)
+      if (isTHSensorDevice(uiid)) {
+        return new THSensorAccessory(this, accessory);
+      }
+      return getTrvParams(uiid)
+        ? new ZigbeeThermostatAccessory(this, accessory)
         : new ThermostatAccessory(this, accessory);
     }
 
@@ -877,9 +1398,8 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
   /**
    * Process device groups from eWeLink cloud
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private async processGroups(groups: any[]): Promise<void> {
-    if (!this.ewelinkApi || groups.length === 0) {
+  private async processGroups(groups: EWeLinkGroup[]): Promise<void> {
+    if (this.cloudAccounts.length === 0 || groups.length === 0) {
       return;
     }
 
@@ -889,7 +1409,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     for (const group of groups) {
       // Create a pseudo-device object for the group
       const groupDevice: EWeLinkDevice = {
-        ...group,
+        family: group.family,
         extra: { uiid: 5000 }, // Groups use UIID 5000
         deviceid: group.id,
         productModel: 'Group [5000]',
@@ -897,14 +1417,14 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
         online: true,
         params: group.params || {},
         devicekey: '', // Groups don't have device keys
-        apikey: this.ewelinkApi!.getApiKey(),
+        apikey: this.getDeviceAccount(group.id)?.api.getApiKey() ?? '',
         name: group.name || `Group ${group.id}`,
-        deviceStatus: 'online',
         createdAt: new Date().toISOString(),
       } as EWeLinkDevice;
 
       // Initialize the group as a regular device
       await this.addAccessory(groupDevice);
+      this.groupNames.set(group.id, groupDevice.name);
     }
   }
 
@@ -916,12 +1436,124 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * Remove accessories that are no longer in the device list
+   * Handle accessories that are no longer in the device or group list
+   * Called after each successful device list fetch. A missing accessory is kept
+   * and shows "No Response" until it has been missing for `staleAccessorySyncs`
+   * syncs and `staleAccessoryDays` days; accessories from ignored homes are
+   * removed at once. Nothing is removed when more than
+   * `staleAccessoryMaxPercent` of the devices disappear in one sync.
+   * @returns A summary entry per removed accessory
    */
-  private removeStaleAccessories(currentDevices: EWeLinkDevice[]): void {
-    const currentDeviceIds = new Set(currentDevices.map(d => d.deviceid));
+  private removeStaleAccessories(currentDevices: EWeLinkDevice[], currentGroups: EWeLinkGroup[] = []): string[] {
+    const stale = new Set(this.findStaleAccessories(currentDevices, currentGroups));
+    const parentId = (accessory: PlatformAccessory<AccessoryContext>) =>
+      accessory.context.deviceId.replace(CHANNEL_SUFFIX_PATTERN, '');
+    const ignoredHomes = new Set(this.config.ignoredHomes ?? []);
+    const policy = {
+      syncs: this.config.staleAccessorySyncs ?? DEFAULTS.staleAccessorySyncs,
+      days: this.config.staleAccessoryDays ?? DEFAULTS.staleAccessoryDays,
+      maxPercent: this.config.staleAccessoryMaxPercent ?? DEFAULTS.staleAccessoryMaxPercent,
+    };
+
+    const plan = planStaleAccessories(
+      [...this.accessories.values()].map(accessory => {
+        const homeId = accessory.context.device?.family?.familyid;
+        return {
+          accessory,
+          parentId: parentId(accessory),
+          missing: stale.has(accessory),
+          ignoredHome: homeId !== undefined && ignoredHomes.has(homeId),
+          missingSince: accessory.context.missingSince,
+          missingSyncs: accessory.context.missingSyncs,
+        };
+      }),
+      policy,
+      Date.now(),
+    );
+
+    // Devices that are back leave quarantine
+    for (const { accessory } of plan.returned) {
+      delete accessory.context.missingSince;
+      delete accessory.context.missingSyncs;
+      this.log.info(`${accessory.displayName} is back in eWeLink, no longer pending removal`);
+      this.accessoryHandlers.get(accessory.UUID)?.markStatus(this.deviceCache.get(parentId(accessory))?.online ?? true);
+      this.api.updatePlatformAccessories([accessory]);
+    }
+
+    const removed: string[] = [];
+    for (const { accessory: { accessory }, reason } of plan.remove) {
+      this.log.info(`Removing stale accessory (${reason}):`, accessory.displayName);
+      this.removeAccessory(accessory);
+
+      // Forget the device so it is added again if it comes back
+      this.deviceCache.delete(parentId(accessory));
+      this.groupNames.delete(parentId(accessory));
+      removed.push(`removed ${accessory.displayName}`);
+    }
+
+    // A large share of devices disappearing at once is more likely a partial cloud response
+    if (plan.skipped) {
+      this.log.warn(
+        `${plan.skipped.missing} of ${plan.skipped.known} devices are missing from eWeLink at once (more than ${policy.maxPercent}%). ` +
+          'Skipping stale accessory handling for this sync; the cloud response is probably incomplete.',
+      );
+      return removed;
+    }
+
+    const pending: string[] = [];
+    for (const { accessory: { accessory }, missingSince, missingSyncs } of plan.pending) {
+      accessory.context.missingSince = missingSince;
+      accessory.context.missingSyncs = missingSyncs;
+      this.quarantineAccessory(accessory);
+      this.api.updatePlatformAccessories([accessory]);
+      pending.push(`${accessory.displayName} (${missingSyncs}/${policy.syncs} syncs, since ${new Date(missingSince).toISOString()})`);
+    }
+
+    if (pending.length > 0) {
+      this.log.info(`${pending.length} accessory(ies) missing from eWeLink, pending removal: ${pending.join(', ')}`);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Show a missing accessory as "No Response"
+   * Accessories without a handler (missing since startup) fail every read and write
+   */
+  private quarantineAccessory(accessory: PlatformAccessory<AccessoryContext>): void {
+    const handler = this.accessoryHandlers.get(accessory.UUID);
+    if (handler) {
+      handler.markStatus(false);
+      return;
+    }
+
+    const noResponse = () => {
+      throw new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    };
+
+    for (const service of accessory.services) {
+      if (service.UUID === this.Service.AccessoryInformation.UUID) {
+        continue;
+      }
+      for (const characteristic of service.characteristics) {
+        characteristic.onGet(noResponse);
+        characteristic.onSet(noResponse);
+      }
+    }
+  }
 
-    for (const [uuid, accessory] of this.accessories) {
+  /**
+   * Find accessories whose device or group is not in the current lists
+   * Channel and RF sub-accessories count as present while their parent is
+   */
+  private findStaleAccessories(currentDevices: EWeLinkDevice[], currentGroups: EWeLinkGroup[]): PlatformAccessory<AccessoryContext>[] {
+    const stale: PlatformAccessory<AccessoryContext>[] = [];
+    const currentDeviceIds = new Set([
+      ...currentDevices.map(d => d.deviceid),
+      ...currentGroups.map(g => g.id),
+    ]);
+
+    for (const accessory of this.accessories.values()) {
       const deviceId = accessory.context.deviceId;
 
       // Skip group devices
@@ -948,12 +1580,28 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       }
 
       if (!currentDeviceIds.has(deviceId)) {
-        this.log.info('Removing stale accessory:', accessory.displayName);
-        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-        this.accessories.delete(uuid);
-        this.accessoryHandlers.delete(uuid);
+        stale.push(accessory);
       }
     }
+
+    return stale;
+  }
+
+  /**
+   * Unregister an accessory from HomeKit and drop its handler
+   */
+  private removeAccessory(accessory: PlatformAccessory<AccessoryContext>): void {
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    this.accessories.delete(accessory.UUID);
+    this.disposeAccessoryHandler(accessory.UUID);
+  }
+
+  /**
+   * Stop an accessory's handler before it is replaced or dropped
+   */
+  private disposeAccessoryHandler(uuid: string): void {
+    this.accessoryHandlers.get(uuid)?.dispose();
+    this.accessoryHandlers.delete(uuid);
   }
 
   /**
@@ -967,6 +1615,9 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       return;
     }
 
+    this.mqttBridge?.publishUpdate(deviceId, params);
+    this.getDeviceActivity(deviceId).lastUpdate = Date.now();
+
     const uiid = device.extra?.uiid || 0;
     const channelCount = getChannelCount(uiid);
 
@@ -982,7 +1633,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
         const subHandler = this.accessoryHandlers.get(subUuid);
 
         if (subHandler) {
-          subHandler.updateState(params);
+          subHandler.receiveUpdate(params);
 
           // Mark online/offline status
           if (params.online !== undefined && 'markStatus' in subHandler && typeof subHandler.markStatus === 'function') {
@@ -1006,7 +1657,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
       const handler = this.accessoryHandlers.get(uuid);
 
       if (handler) {
-        handler.updateState(params);
+        handler.receiveUpdate(params);
 
         // Mark online/offline status
         if (params.online !== undefined && 'markStatus' in handler && typeof handler.markStatus === 'function') {
@@ -1026,6 +1677,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     const parentDeviceId = deviceId.replace(CHANNEL_SUFFIX_PATTERN, '');
     const device = this.deviceCache.get(parentDeviceId);
     const displayName = this.getDeviceDisplayName(parentDeviceId);
+    const startedAt = Date.now();
 
     if (!device) {
       this.log.error('Device not found in cache:', deviceId);
@@ -1033,24 +1685,34 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     }
 
     // Groups must use HTTP API with type=2 (not queued - different path)
-    if (isGroupDevice(device.extra?.uiid || 0) && this.ewelinkApi) {
+    const account = this.getDeviceAccount(parentDeviceId);
+    if (isGroupDevice(device.extra?.uiid || 0) && account) {
       this.log.debug(`Sending group command to ${deviceId} via HTTP API`);
-      return await this.ewelinkApi.updateGroup(deviceId, params);
+      return await account.api.updateGroup(deviceId, params);
     }
 
     // Try LAN control first - no queue needed for local network (no rate limiting)
     if (this.lanControl && this.config.mode !== 'wan') {
+      const lanAvailable = this.lanControl.isDeviceAvailable(parentDeviceId);
       const lanSuccess = await this.lanControl.sendCommand(deviceId, params);
+      if (lanAvailable) {
+        this.metrics.recordCommand('lan', lanSuccess);
+      }
       if (lanSuccess) {
+        this.getDeviceActivity(parentDeviceId).latencyMs = Date.now() - startedAt;
         return true;
       }
       // LAN failed or device not available on LAN, fall through to cloud
     }
 
     // Queue the command for cloud API to prevent overwhelming with bulk commands
-    // The queue ensures commands are spaced out with minimum interval
-    return this.commandQueue.enqueue(deviceId, async () => {
-      return this.executeCloudCommand(deviceId, params, displayName);
+    // The queue ensures commands are spaced out with minimum interval, and merges
+    // params still waiting for the same device and channel (e.g. slider drags)
+    return this.commandQueue.enqueueParams(deviceId, params, async (merged) => {
+      const success = await this.executeCloudCommand(deviceId, merged, displayName);
+      this.metrics.recordCommand('cloud', success);
+      this.getDeviceActivity(parentDeviceId).latencyMs = Date.now() - startedAt;
+      return success;
     });
   }
 
@@ -1063,11 +1725,12 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     params: DeviceParams,
     displayName: string,
   ): Promise<boolean> {
-    // WebSocket/cloud control with retry logic
-    if (this.wsClient && this.config.mode !== 'lan') {
+    // WebSocket/cloud control with retry logic, on the connection of the account that owns the device
+    const wsClient = this.getDeviceAccount(deviceId)?.wsClient;
+    if (wsClient && this.config.mode !== 'lan') {
       for (let attempt = 1; attempt <= QUERY_RETRY.MAX_ATTEMPTS; attempt++) {
         try {
-          const success = await this.wsClient.sendCommand(deviceId, params);
+          const success = await wsClient.sendCommand(deviceId, params);
           if (success) {
             return true;
           }
@@ -1076,6 +1739,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
           if (attempt === 1) {
             this.log.debug(`Command to ${displayName} returned false (not retrying)`);
           }
+          this.recordCommandError(deviceId, 'The device did not accept the command');
           return false;
 
         } catch (error) {
@@ -1092,6 +1756,7 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
             } else {
               this.log.error(`[${displayName}] Failed to send command: ${errorMsg}`);
             }
+            this.recordCommandError(deviceId, errorMsg);
             return false;
           }
         }
@@ -1099,9 +1764,31 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     }
 
     this.log.error('No available control method for device:', deviceId);
+    this.recordCommandError(deviceId, 'No available control method');
     return false;
   }
 
+  /**
+   * Activity entry of a device, created on first use
+   */
+  private getDeviceActivity(deviceId: string): DeviceActivity {
+    let activity = this.deviceActivity.get(deviceId);
+    if (!activity) {
+      activity = {};
+      this.deviceActivity.set(deviceId, activity);
+    }
+    return activity;
+  }
+
+  /**
+   * Remember why the last command to a device or channel failed
+   */
+  private recordCommandError(deviceId: string, message: string): void {
+    const activity = this.getDeviceActivity(deviceId.replace(CHANNEL_SUFFIX_PATTERN, ''));
+    activity.lastError = message;
+    activity.lastErrorAt = Date.now();
+  }
+
   /**
    * Get device display name for logging (name or ID if not found)
    */
@@ -1110,6 +1797,61 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     return device?.name || deviceId;
   }
 
+  /**
+   * Get the number of queued and running cloud commands
+   */
+  public getCommandQueueStats(): { queueSize: number; activeCount: number } {
+    return this.commandQueue.getStats();
+  }
+
+  /**
+   * Live state of every accessory: handler, params, reachability and recent activity
+   */
+  public getAccessoryStatus(): AccessoryStatus[] {
+    return Array.from(this.accessories.entries()).map(([uuid, accessory]) => {
+      const { device } = accessory.context;
+      const handler = this.accessoryHandlers.get(uuid);
+      const activity = this.deviceActivity.get(device.deviceid) ?? {};
+
+      return {
+        id: accessory.context.deviceId,
+        deviceId: device.deviceid,
+        name: accessory.displayName,
+        handler: handler?.constructor.name ?? null,
+        online: device.online,
+        reachableLAN: this.lanControl?.isDeviceAvailable(device.deviceid) ?? false,
+        reachableWAN: (this.getDeviceAccount(device.deviceid)?.wsClient?.isConnected() ?? false) && device.online,
+        params: handler?.getDeviceParams() ?? device.params ?? {},
+        lastUpdate: activity.lastUpdate ?? null,
+        lastError: activity.lastError ?? null,
+        lastErrorAt: activity.lastErrorAt ?? null,
+        latencyMs: activity.latencyMs ?? null,
+      };
+    });
+  }
+
+  /**
+   * Write the status file for the settings UI while it is open
+   * The UI stamps a watch file on each request; without a recent stamp nothing is written
+   */
+  private startStatusUpdates(): void {
+    if (this.statusTimer) {
+      return;
+    }
+
+    this.statusTimer = setInterval(() => {
+      if (!this.statusStorage.isWatched()) {
+        return;
+      }
+      this.statusStorage.save({
+        cloudState: this.getCloudState(),
+        queue: this.getCommandQueueStats(),
+        metrics: this.metrics.getSnapshot(),
+        accessories: this.getAccessoryStatus(),
+      });
+    }, STATUS_TIMING.WRITE_INTERVAL_MS);
+  }
+
   /**
    * Set cached temperature for a device (called by temperature-capable devices)
    * This allows heater/cooler simulations to read temperature from other devices
@@ -1126,6 +1868,15 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     return this.temperatureCache.get(deviceId);
   }
 
+  /**
+   * Get the rfDevices[].subdevices entry of an RF sub-device
+   * Matched by button index, falling back to the subdevice label
+   */
+  public getRFSubdeviceConfig(bridgeId: string | undefined, index: number | undefined, label?: string): RFSubdeviceConfig | undefined {
+    const subdevices = this.config.rfDevices?.find(d => d.deviceId === bridgeId)?.subdevices || [];
+    return findRFSubdeviceConfig(subdevices, index, label);
+  }
+
   /**
    * Get accessory handler by UUID
    * Used by RF bridges to trigger sub-device updates
@@ -1149,14 +1900,15 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
   async queryDeviceState(deviceId: string): Promise<boolean> {
     const displayName = this.getDeviceDisplayName(deviceId);
 
-    if (!this.wsClient || !this.wsClient.isConnected()) {
+    const wsClient = this.getDeviceAccount(deviceId)?.wsClient;
+    if (!wsClient || !wsClient.isConnected()) {
       this.log.debug(`Cannot query ${displayName}: WebSocket not connected`);
       return false;
     }
 
     for (let attempt = 1; attempt <= QUERY_RETRY.MAX_ATTEMPTS; attempt++) {
       try {
-        await this.wsClient.queryDeviceState(deviceId);
+        await wsClient.queryDeviceState(deviceId);
         return true;
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -1173,16 +1925,119 @@ export class EWeLinkPlatform implements DynamicPlatformPlugin {
     return false;
   }
 
+  /**
+   * Get the cloud connection state (offline when there is no WebSocket client)
+   * With several accounts this is the worst state of their connections
+   */
+  public getCloudState(): CloudConnectionState {
+    const states = this.cloudAccounts
+      .map(account => account.wsClient?.getState())
+      .filter((state): state is CloudConnectionState => state !== undefined);
+
+    if (states.length === 0) {
+      return 'offline';
+    }
+    return states.reduce((worst, state) =>
+      CLOUD_STATE_ORDER.indexOf(state) > CLOUD_STATE_ORDER.indexOf(worst) ? state : worst);
+  }
+
+  /**
+   * React to WebSocket connection state changes
+   * Accessories of the connection's account that cannot be reached over LAN show
+   * "No Response" while its cloud link is offline; on reconnect their status is
+   * restored and the account's devices are re-queried
+   */
+  public handleCloudStateChange(
+    state: CloudConnectionState,
+    previous: CloudConnectionState,
+    client: WSClient,
+  ): void {
+    const account = this.cloudAccounts.find(entry => entry.wsClient === client);
+    if (!account) {
+      return;
+    }
+
+    const accountAccessories = [...this.accessories.values()]
+      .filter(accessory => this.getDeviceAccount(accessory.context.deviceId) === account);
+
+    if (state === 'offline') {
+      account.linkDown = true;
+      for (const accessory of accountAccessories) {
+        const deviceId = accessory.context.deviceId.replace(CHANNEL_SUFFIX_PATTERN, '');
+        if (!this.lanControl?.isDeviceAvailable(deviceId)) {
+          this.accessoryHandlers.get(accessory.UUID)?.markStatus(false);
+        }
+      }
+      return;
+    }
+
+    if (state !== 'authenticated' || previous === 'connecting') {
+      return;
+    }
+
+    this.log.info(
+      `eWeLink cloud connection restored${account.api.label ? ` for ${account.api.label}` : ''}, refreshing device states`,
+    );
+
+    if (account.linkDown) {
+      account.linkDown = false;
+      for (const accessory of accountAccessories) {
+        const deviceId = accessory.context.deviceId.replace(CHANNEL_SUFFIX_PATTERN, '');
+        if (!accessory.context.missingSince) {
+          this.accessoryHandlers.get(accessory.UUID)?.markStatus(this.deviceCache.get(deviceId)?.online ?? true);
+        }
+      }
+    }
+
+    void this.refreshAllDevices(account);
+  }
+
+  /**
+   * Query every cached device of an account, one at a time (query responses are matched by sequence)
+   */
+  private async refreshAllDevices(account: CloudAccount): Promise<void> {
+    for (const deviceId of [...this.deviceCache.keys()]) {
+      if (!account.wsClient?.isConnected()) {
+        return;
+      }
+      if (this.getDeviceAccount(deviceId) === account) {
+        await this.queryDeviceState(deviceId);
+      }
+    }
+  }
+
   /**
    * Shutdown the platform
    */
   private shutdown(): void {
-    if (this.wsClient) {
-      this.wsClient.disconnect();
+    if (this.cloudRetryTimer) {
+      clearTimeout(this.cloudRetryTimer);
+    }
+    if (this.rediscoveryTimer) {
+      clearInterval(this.rediscoveryTimer);
+    }
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+    }
+    for (const account of this.cloudAccounts) {
+      account.wsClient?.disconnect();
+      account.api.stopTokenRenewal();
     }
     if (this.lanControl) {
       this.lanControl.stop();
     }
+    if (this.apiServer) {
+      this.apiServer.stop();
+    }
+    if (this.metricsServer) {
+      this.metricsServer.stop();
+    }
+    if (this.mqttBridge) {
+      this.mqttBridge.stop();
+    }
+    for (const handler of this.accessoryHandlers.values()) {
+      handler.dispose();
+    }
   }
 
   /**
@@ -56,6 +56,11 @@ export const DEFAULTS = {
   debugFakegato: false,
   disableDeviceLogging: false,
   offlineAsOff: false,
+  rediscoveryInterval: 60,
+  staleAccessorySyncs: 3,
+  staleAccessoryDays: 1,
+  staleAccessoryMaxPercent: 50,
+  writeConfirmationTimeout: 10,
   singleDevices: [],
   multiDevices: [],
   thDevices: [],
@@ -0,0 +1,50 @@
+/**
+ * Type declarations for fakegato-history, which ships without types
+ * Only the parts used by `EveHistory` are declared
+ */
+declare module 'fakegato-history' {
+  import type { API, PlatformAccessory, Service } from 'homebridge';
+
+  /** Entry passed to `addEntry`, `time` in Unix seconds */
+  export interface FakeGatoEntry {
+    time: number;
+    [field: string]: number;
+  }
+
+  export interface FakeGatoOptions {
+    /** Logger; the library logs every step at debug level */
+    log?: { debug: (message: string, ...parameters: unknown[]) => void };
+    /** `fs` persists the history to `<path>/<filename>` */
+    storage?: 'fs';
+    path?: string;
+    filename?: string;
+    /** Minutes between averaged entries (default 10) */
+    minutes?: number;
+    disableTimer?: boolean;
+    disableRepeatLastData?: boolean;
+  }
+
+  export interface FakeGatoHistoryService extends Service {
+    /** History service on the accessory that the handlers are attached to */
+    service?: Service;
+    addEntry(entry: FakeGatoEntry): void;
+    /** Unix time of the first entry, undefined while the history is empty */
+    getInitialTime(): number | undefined;
+  }
+
+  export type FakeGatoHistoryServiceConstructor = new (
+    type: string,
+    accessory: PlatformAccessory,
+    options?: FakeGatoOptions,
+  ) => FakeGatoHistoryService;
+
+  /** Shared timer the library keeps on the Homebridge API object */
+  export interface FakeGatoGlobals {
+    globalFakeGatoTimer?: {
+      getSubscriber(service: FakeGatoHistoryService): unknown;
+      unsubscribe(service: FakeGatoHistoryService): void;
+    };
+  }
+
+  export default function fakegato(api: API): FakeGatoHistoryServiceConstructor;
+}
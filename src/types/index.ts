@@ -10,6 +10,10 @@ export interface EWeLinkPlatformConfig extends PlatformConfig {
   password?: string;
   /** API region: cn, as, us, eu */
   countryCode?: string;
+  /** Additional eWeLink accounts, each with its own login and WebSocket */
+  accounts?: EWeLinkAccountConfig[];
+  /** Encrypt the token files at rest (`false` decrypts them again) */
+  encryptTokens?: boolean;
   /** Connection mode: auto, lan, wan */
   mode?: 'auto' | 'lan' | 'wan';
   /** Language for localization */
@@ -38,14 +42,42 @@ export interface EWeLinkPlatformConfig extends PlatformConfig {
   commandQueueConcurrency?: number;
   /** Ignored home IDs */
   ignoredHomes?: string[];
+  /** Minutes between device re-discovery runs (0 = off) */
+  rediscoveryInterval?: number;
+  /** Successful syncs a device must be missing from before its accessory is removed */
+  staleAccessorySyncs?: number;
+  /** Days a device must be missing before its accessory is removed */
+  staleAccessoryDays?: number;
+  /** Skip stale accessory handling when more than this percentage of devices disappears at once (0 = off) */
+  staleAccessoryMaxPercent?: number;
+  /** Seconds a device has to report a HomeKit write before it is rolled back (0 = off) */
+  writeConfirmationTimeout?: number;
   /** Internal API server host */
   httpHost?: string;
   /** Internal API server port */
   apiPort?: number;
+  /** Bearer token required by the internal API server */
+  apiToken?: string;
+  /** Port for the Prometheus metrics endpoint (disabled when unset) */
+  metricsPort?: number;
+  /** MQTT broker URL, e.g. mqtt://127.0.0.1:1883 (bridge disabled when unset) */
+  mqttUrl?: string;
+  /** MQTT broker username */
+  mqttUsername?: string;
+  /** MQTT broker password */
+  mqttPassword?: string;
+  /** Root of the MQTT state and command topics (default: ewelink) */
+  mqttTopicPrefix?: string;
+  /** Publish Home Assistant MQTT discovery payloads (default: true) */
+  mqttDiscovery?: boolean;
+  /** Home Assistant discovery prefix (default: homeassistant) */
+  mqttDiscoveryPrefix?: string;
   /** Custom eWeLink app ID */
   appId?: string;
   /** Custom eWeLink app secret */
   appSecret?: string;
+  /** OAuth2 redirect URL registered for the custom app (defaults to the UI's callback page) */
+  oauthRedirectUrl?: string;
   /** Single switch device configurations */
   singleDevices?: SingleDeviceConfig[];
   /** Multi-switch device configurations */
@@ -68,6 +100,20 @@ export interface EWeLinkPlatformConfig extends PlatformConfig {
   ignoredDevices?: string[];
 }
 
+/**
+ * Additional eWeLink account
+ */
+export interface EWeLinkAccountConfig {
+  /** eWeLink username (email or phone number) */
+  username: string;
+  /** eWeLink password */
+  password: string;
+  /** Country code of the account (e.g. +44), which selects its region */
+  countryCode?: string;
+  /** Name used in the log (defaults to the username) */
+  label?: string;
+}
+
 /**
  * Base device configuration
  */
@@ -78,6 +124,8 @@ export interface BaseDeviceConfig {
   label?: string;
   /** IP address for LAN control */
   ipAddress?: string;
+  /** Poll the device state over LAN every N seconds (0 = off) */
+  lanPollInterval?: number;
   /** Ignore this device */
   ignoreDevice?: boolean;
   /** Disable logging for this device */
@@ -101,7 +149,7 @@ export interface SingleDeviceConfig extends BaseDeviceConfig {
   /** Use inching mode as on/off state (deprecated, use isInched) */
   showAsInching?: boolean;
   /** Sensor type for sensor mode */
-  sensorType?: 'motion' | 'leak' | 'smoke' | 'co' | 'contact';
+  sensorType?: 'motion' | 'leak' | 'smoke' | 'co' | 'co2' | 'contact' | 'occupancy';
   /** Invert open/close state */
   sensorInvert?: boolean;
   /** Timer for auto-off in seconds */
@@ -228,6 +276,8 @@ export interface FanDeviceConfig extends BaseDeviceConfig {
  * Light device configuration
  */
 export interface LightDeviceConfig extends BaseDeviceConfig {
+  /** Show a dimmable light as a fan */
+  showAs?: 'default' | 'fan';
   /** Override device model */
   deviceModel?: string;
   /** Override brightness step */
@@ -366,6 +416,16 @@ export interface RFDeviceInfo {
   buttonName: Array<Record<string, string>>;
 }
 
+/**
+ * eWeLink home (family) from API
+ */
+export interface EWeLinkHome {
+  /** Home ID */
+  id: string;
+  /** Home name */
+  name: string;
+}
+
 /**
  * eWeLink device from API
  */
@@ -447,6 +507,20 @@ export interface EWeLinkDevice {
   port?: number;
 }
 
+/**
+ * eWeLink device group from API (a `thingList` item with `itemType` 3)
+ */
+export interface EWeLinkGroup {
+  /** Group ID */
+  id: string;
+  /** Group name */
+  name?: string;
+  /** Group state, applied to every device in the group */
+  params?: DeviceParams;
+  /** Home the group belongs to */
+  family?: EWeLinkDevice['family'];
+}
+
 /**
  * Device parameters (state)
  */
@@ -582,6 +656,15 @@ export interface WSMessage {
   [key: string]: unknown;
 }
 
+/**
+ * WebSocket connection state
+ * - `connecting`: first connection in progress
+ * - `authenticated`: connected and receiving updates
+ * - `degraded`: connection lost, reconnecting
+ * - `offline`: reconnection keeps failing, attempts are spaced at the backoff cap
+ */
+export type CloudConnectionState = 'connecting' | 'authenticated' | 'degraded' | 'offline';
+
 /**
  * HTTP API response
  */
@@ -646,6 +729,20 @@ export class WebSocketAuthError extends Error {
   }
 }
 
+/**
+ * Persisted energy meter state
+ */
+export interface EnergyMeterState {
+  /** Accumulated energy in kWh since the last reset */
+  totalKwh: number;
+  /** Last reset, in seconds since 2001-01-01 (Eve ResetTotal format) */
+  resetTime: number;
+  /** Device kWh counter the total follows, once one has been seen */
+  source?: 'hundredDaysKwh' | 'oneKwh';
+  /** Last value of the device kWh counter */
+  lastDeviceKwh?: number;
+}
+
 /**
  * Accessory context stored in Homebridge
  */
@@ -694,8 +791,14 @@ export interface AccessoryContext {
   cachePositionState?: number;
   /** Cache last start time for position calculations (in deciseconds) */
   cacheLastStartTime?: number;
+  /** Cached current door state for RF garage simulations (HAP CurrentDoorState) */
+  cacheDoorState?: number;
+  /** Cached target door state for RF garage simulations (HAP TargetDoorState) */
+  cacheTargetDoorState?: number;
   /** User-configured Valve/Tap auto-off duration in seconds; persisted across restarts */
   valveSetDuration?: number;
+  /** Accumulated energy for power-monitoring outlets; persisted across restarts */
+  energyMeter?: EnergyMeterState;
   /** Channel count for multi-channel devices */
   channelCount?: number;
   /** Switch number (0=master, 1-N=individual channels) */
@@ -720,4 +823,8 @@ export interface AccessoryContext {
   lanKey?: string;
   /** RF sub-device name (from zyx_info) */
   name?: string;
+  /** When the device was first missing from the eWeLink device list (ms since epoch) */
+  missingSince?: number;
+  /** Consecutive successful syncs the device was missing from */
+  missingSyncs?: number;
 }
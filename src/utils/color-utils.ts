@@ -96,6 +96,30 @@ export class ColorUtils {
   static miredToCt0_100(mired: number): number {
     return Math.round(((mired - COLOR_TEMP_MIN_MIRED) / COLOR_TEMP_RANGE) * 100);
   }
+
+  /**
+   * Convert a device color temperature on an arbitrary scale to mired
+   * @param value - Device value
+   * @param min - Device scale minimum (maps to the coolest mired)
+   * @param max - Device scale maximum (maps to the warmest mired)
+   * @returns Mired value (140-500)
+   */
+  static scaleToMired(value: number, min: number, max: number): number {
+    const ratio = Math.min(Math.max((value - min) / (max - min), 0), 1);
+    return Math.round(COLOR_TEMP_MIN_MIRED + ratio * COLOR_TEMP_RANGE);
+  }
+
+  /**
+   * Convert mired to a device color temperature on an arbitrary scale
+   * @param mired - Mired value
+   * @param min - Device scale minimum (maps to the coolest mired)
+   * @param max - Device scale maximum (maps to the warmest mired)
+   * @returns Device value between min and max
+   */
+  static miredToScale(mired: number, min: number, max: number): number {
+    const ratio = Math.min(Math.max((mired - COLOR_TEMP_MIN_MIRED) / COLOR_TEMP_RANGE, 0), 1);
+    return Math.round(min + ratio * (max - min));
+  }
 }
 
 /**
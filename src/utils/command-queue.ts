@@ -4,14 +4,31 @@
  * When HomeKit triggers scenes or automations, multiple devices may receive
  * commands simultaneously. This queue ensures commands are sent with a
  * minimum interval between them to avoid timeouts and rate limiting.
+ *
+ * Param commands for the same device and channel that are still waiting are
+ * merged, so dragging a slider sends only the latest state. On/off commands
+ * run ahead of everything else.
+ */
+
+import type { DeviceParams } from '../types/index.js';
+
+/**
+ * Queue lane: on/off commands use `high`, everything else `normal`
  */
+export type CommandPriority = 'high' | 'normal';
 
 interface QueuedCommand<T> {
-  execute: () => Promise<T>;
-  resolve: (value: T) => void;
-  reject: (reason?: unknown) => void;
+  /** Called with `params` for param commands */
+  execute: (params: DeviceParams) => Promise<T>;
+  waiters: Array<{
+    resolve: (value: T) => void;
+    reject: (reason?: unknown) => void;
+  }>;
   deviceId: string;
   timestamp: number;
+  priority: CommandPriority;
+  /** Params of a param command, merged until it executes */
+  params?: DeviceParams;
 }
 
 export interface CommandQueueOptions {
@@ -23,17 +40,20 @@ export interface CommandQueueOptions {
   log?: (message: string) => void;
   /** Function to get device display name from device ID */
   getDeviceName?: (deviceId: string) => string;
+  /** Called when a command finishes, with the time since it was queued in milliseconds */
+  onCommandSettled?: (latencyMs: number) => void;
 }
 
 /**
  * A queue that throttles command execution to prevent API overload
  */
 export class CommandQueue {
-  private readonly queue: QueuedCommand<boolean>[] = [];
+  private readonly lanes: Record<CommandPriority, QueuedCommand<boolean>[]> = { high: [], normal: [] };
   private readonly minInterval: number;
   private readonly concurrency: number;
   private readonly log: (message: string) => void;
   private readonly getDeviceName: (deviceId: string) => string;
+  private readonly onCommandSettled: (latencyMs: number) => void;
   private activeCount = 0;
   private lastCommandTime = 0;
   private throttleTimeout: NodeJS.Timeout | null = null;
@@ -43,6 +63,7 @@ export class CommandQueue {
     this.concurrency = options.concurrency ?? 3;
     this.log = options.log ?? (() => {});
     this.getDeviceName = options.getDeviceName ?? ((id) => id);
+    this.onCommandSettled = options.onCommandSettled ?? (() => {});
   }
 
   /**
@@ -51,28 +72,83 @@ export class CommandQueue {
   async enqueue(
     deviceId: string,
     execute: () => Promise<boolean>,
+    priority: CommandPriority = 'normal',
+  ): Promise<boolean> {
+    return this.push({ execute, deviceId, priority });
+  }
+
+  /**
+   * Queue device params, merging them into a waiting command for the same device ID
+   * (including any channel suffix). Every merged caller gets the result of the
+   * single command that is sent with the merged params.
+   */
+  async enqueueParams(
+    deviceId: string,
+    params: DeviceParams,
+    send: (params: DeviceParams) => Promise<boolean>,
   ): Promise<boolean> {
+    const priority = getCommandPriority(params);
+    const pending = this.findPendingParams(deviceId);
+    if (!pending) {
+      return this.push({ execute: send, deviceId, priority, params });
+    }
+
+    pending.params = mergeDeviceParams(pending.params!, params);
+    pending.execute = send;
+
+    // A merged on/off moves the command to the high lane
+    if (pending.priority === 'normal' && priority === 'high') {
+      this.lanes.normal.splice(this.lanes.normal.indexOf(pending), 1);
+      pending.priority = 'high';
+      this.lanes.high.push(pending);
+    }
+
+    const displayName = this.getDeviceName(deviceId);
+    this.log(`Command coalesced for ${displayName} (${pending.waiters.length + 1} updates merged)`);
+
+    return new Promise((resolve, reject) => {
+      pending.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Add a command to its lane
+   */
+  private push(command: Omit<QueuedCommand<boolean>, 'waiters' | 'timestamp'>): Promise<boolean> {
     return new Promise((resolve, reject) => {
-      this.queue.push({
-        execute,
-        resolve,
-        reject,
-        deviceId,
+      this.lanes[command.priority].push({
+        ...command,
+        waiters: [{ resolve, reject }],
         timestamp: Date.now(),
       });
 
-      const displayName = this.getDeviceName(deviceId);
-      this.log(`Command queued for ${displayName} (queue size: ${this.queue.length}, active: ${this.activeCount})`);
+      const displayName = this.getDeviceName(command.deviceId);
+      this.log(`Command queued for ${displayName} (queue size: ${this.size}, active: ${this.activeCount})`);
       this.processQueue();
     });
   }
 
+  /**
+   * Waiting param command for a device ID, if any
+   */
+  private findPendingParams(deviceId: string): QueuedCommand<boolean> | undefined {
+    return [...this.lanes.high, ...this.lanes.normal]
+      .find(command => command.deviceId === deviceId && command.params !== undefined);
+  }
+
+  /**
+   * Number of waiting commands
+   */
+  private get size(): number {
+    return this.lanes.high.length + this.lanes.normal.length;
+  }
+
   /**
    * Process queued commands respecting concurrency and interval limits
    */
   private processQueue(): void {
     // Process commands while we have capacity
-    while (this.queue.length > 0 && this.activeCount < this.concurrency) {
+    while (this.size > 0 && this.activeCount < this.concurrency) {
       const now = Date.now();
       const timeSinceLastCommand = now - this.lastCommandTime;
 
@@ -90,7 +166,7 @@ export class CommandQueue {
         return; // Exit and let the timeout callback continue processing
       }
 
-      const command = this.queue.shift();
+      const command = this.lanes.high.shift() ?? this.lanes.normal.shift();
       if (!command) {
         break;
       }
@@ -112,12 +188,13 @@ export class CommandQueue {
    */
   private async executeCommand(command: QueuedCommand<boolean>): Promise<void> {
     try {
-      const result = await command.execute();
-      command.resolve(result);
+      const result = await command.execute(command.params ?? {});
+      command.waiters.forEach(waiter => waiter.resolve(result));
     } catch (error) {
-      command.reject(error);
+      command.waiters.forEach(waiter => waiter.reject(error));
     } finally {
       this.activeCount--;
+      this.onCommandSettled(Date.now() - command.timestamp);
       // Continue processing remaining commands
       this.processQueue();
     }
@@ -128,7 +205,7 @@ export class CommandQueue {
    */
   getStats(): { queueSize: number; activeCount: number } {
     return {
-      queueSize: this.queue.length,
+      queueSize: this.size,
       activeCount: this.activeCount,
     };
   }
@@ -143,11 +220,33 @@ export class CommandQueue {
       this.throttleTimeout = null;
     }
 
-    while (this.queue.length > 0) {
-      const command = this.queue.shift();
-      if (command) {
-        command.reject(new Error('Queue cleared'));
-      }
+    for (const command of [...this.lanes.high, ...this.lanes.normal]) {
+      command.waiters.forEach(waiter => waiter.reject(new Error('Queue cleared')));
     }
+    this.lanes.high.length = 0;
+    this.lanes.normal.length = 0;
   }
 }
+
+/**
+ * Lane for a params command: on/off goes ahead of slider updates
+ */
+export function getCommandPriority(params: DeviceParams): CommandPriority {
+  return 'switch' in params || 'switches' in params ? 'high' : 'normal';
+}
+
+/**
+ * Merge params for the same device, last write wins per key
+ * `switches` arrays are merged by `outlet`
+ */
+export function mergeDeviceParams(base: DeviceParams, update: DeviceParams): DeviceParams {
+  const merged: DeviceParams = { ...base, ...update };
+
+  if (Array.isArray(base.switches) && Array.isArray(update.switches)) {
+    const byOutlet = new Map(base.switches.map(entry => [entry.outlet, entry]));
+    update.switches.forEach(entry => byOutlet.set(entry.outlet, entry));
+    merged.switches = [...byOutlet.values()].sort((a, b) => a.outlet - b.outlet);
+  }
+
+  return merged;
+}
@@ -1,4 +1,16 @@
-import { randomBytes } from 'node:crypto';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+
+/**
+ * AES-256-GCM ciphertext with the parameters needed to decrypt it (all base64)
+ */
+export interface EncryptedData {
+  /** Salt of the scrypt key derivation */
+  salt: string;
+  iv: string;
+  /** GCM authentication tag */
+  tag: string;
+  data: string;
+}
 
 /**
  * Cryptography and security utilities
@@ -11,4 +23,47 @@ export class CryptoUtils {
   static generateNonce(): string {
     return randomBytes(4).toString('hex'); // 4 bytes = 8 hex chars, as required by the API
   }
+
+  /**
+   * Encrypt text with AES-256-GCM, using a key derived from the secret with scrypt
+   * Every call uses a new salt and IV
+   */
+  static encrypt(plaintext: string, secret: string): EncryptedData {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', CryptoUtils.deriveKey(secret, salt), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Decrypt the output of `encrypt()`
+   * Throws when the secret is wrong or the data was modified
+   */
+  static decrypt(encrypted: EncryptedData, secret: string): string {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      CryptoUtils.deriveKey(secret, Buffer.from(encrypted.salt, 'base64')),
+      Buffer.from(encrypted.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * Derive a 256-bit key from a secret
+   */
+  private static deriveKey(secret: string, salt: Buffer): Buffer {
+    return scryptSync(secret, salt, 32);
+  }
 }
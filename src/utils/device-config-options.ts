@@ -0,0 +1,271 @@
+import {
+  DEVICE_CATALOG,
+  SIMULATION_TYPES,
+  type DeviceCatalogEntry,
+  type SimulationType,
+} from '../constants/device-catalog.js';
+import { DeviceCategory, getCategoryFromType } from '../settings.js';
+
+/**
+ * Config arrays holding per-device options
+ */
+export type DeviceConfigKey =
+  | 'singleDevices'
+  | 'multiDevices'
+  | 'thDevices'
+  | 'fanDevices'
+  | 'lightDevices'
+  | 'sensorDevices'
+  | 'rfDevices';
+
+/**
+ * Value offered by a select field
+ */
+export interface DeviceOptionChoice {
+  value: string;
+  label: string;
+}
+
+/**
+ * Option shown in the settings UI's device editor
+ */
+export interface DeviceOptionField {
+  /** Property of the device's config entry */
+  key: string;
+  label: string;
+  type: 'boolean' | 'number' | 'text' | 'select';
+  description?: string;
+  choices?: DeviceOptionChoice[];
+  min?: number;
+  max?: number;
+  /** Only used with one of these `showAs` values (`default` when none is set) */
+  showAs?: string[];
+}
+
+/**
+ * What the device editor offers for one device
+ */
+export interface DeviceConfigOptions {
+  /** Config array the device's entry is written to */
+  configKey: DeviceConfigKey;
+  catalog: Pick<DeviceCatalogEntry, 'uiid' | 'name' | 'category' | 'primaryService' | 'capabilities' | 'supportedSimulations'>;
+  /** `showAs` values, starting with `default`; empty when the device has none */
+  showAs: DeviceOptionChoice[];
+  fields: DeviceOptionField[];
+}
+
+/**
+ * Config array read for each category, as in `EWeLinkPlatform.getDeviceConfig()`
+ * Outlets have no array of their own; their handler reads `singleDevices`
+ */
+const CONFIG_KEYS: Partial<Record<DeviceCategory, DeviceConfigKey>> = {
+  [DeviceCategory.SINGLE_SWITCH]: 'singleDevices',
+  [DeviceCategory.OUTLET]: 'singleDevices',
+  [DeviceCategory.MULTI_SWITCH]: 'multiDevices',
+  [DeviceCategory.THERMOSTAT]: 'thDevices',
+  [DeviceCategory.FAN]: 'fanDevices',
+  [DeviceCategory.LIGHT]: 'lightDevices',
+  [DeviceCategory.SENSOR]: 'sensorDevices',
+  [DeviceCategory.RF_BRIDGE]: 'rfDevices',
+};
+
+/**
+ * Simulations the platform has a handler for, per config array
+ * The catalog also lists `light` and `switch`, which have none yet. Multi-channel
+ * devices get one accessory per channel, shown as a switch or an outlet.
+ */
+const HANDLED_SIMULATIONS: Partial<Record<DeviceConfigKey, readonly string[]>> = {
+  singleDevices: ['outlet', 'valve', 'tap', 'lock', 'garage', 'gate', 'sensor', 'p_button', 'heater', 'cooler'],
+  multiDevices: ['outlet'],
+  thDevices: ['heater', 'cooler', 'humidifier', 'dehumidifier', 'thermostat'],
+  lightDevices: ['fan'],
+};
+
+const LAN_FIELDS: DeviceOptionField[] = [
+  {
+    key: 'ipAddress',
+    label: 'IP Address',
+    type: 'text',
+    description: 'Fixed LAN address as ip or ip:port (port defaults to 8081), used instead of discovered addresses',
+  },
+  {
+    key: 'lanPollInterval',
+    label: 'LAN Poll Interval (seconds)',
+    type: 'number',
+    min: 0,
+    description: 'Read the state over LAN every N seconds, for devices whose updates get missed. 0 disables; the minimum is 10',
+  },
+];
+
+/** Options of the single switch simulations */
+const SWITCH_SIMULATION_FIELDS: DeviceOptionField[] = [
+  {
+    key: 'sensorType',
+    label: 'Sensor Type',
+    type: 'select',
+    showAs: ['sensor'],
+    choices: [
+      { value: 'motion', label: 'Motion' },
+      { value: 'contact', label: 'Contact' },
+      { value: 'occupancy', label: 'Occupancy' },
+      { value: 'leak', label: 'Leak' },
+      { value: 'smoke', label: 'Smoke' },
+      { value: 'co', label: 'Carbon Monoxide' },
+      { value: 'co2', label: 'Carbon Dioxide' },
+    ],
+  },
+  {
+    key: 'disableTimer',
+    label: 'Disable Timer',
+    type: 'boolean',
+    showAs: ['valve', 'tap'],
+    description: 'Do not turn the valve off when the HomeKit duration ends',
+  },
+  {
+    key: 'tempSource',
+    label: 'Temperature Source',
+    type: 'text',
+    showAs: ['heater', 'cooler'],
+    description: 'Device ID of the eWeLink sensor that provides the temperature',
+  },
+];
+
+/**
+ * Fields of a config array, before filtering by the device's capabilities
+ */
+function getFields(configKey: DeviceConfigKey, entry: DeviceCatalogEntry, category: DeviceCategory): DeviceOptionField[] {
+  const { capabilities } = entry;
+
+  switch (configKey) {
+    case 'singleDevices':
+      return [
+        {
+          key: 'isInched',
+          label: 'Inching Mode',
+          type: 'boolean',
+          showAs: category === DeviceCategory.OUTLET ? undefined : ['default', 'outlet'],
+          description: 'The device turns itself off again: always send "on" and toggle the HomeKit state',
+        },
+        ...(capabilities.powerMonitoring !== 'none'
+          ? [{
+            key: 'inUsePowerThreshold',
+            label: 'In Use Threshold (W)',
+            type: 'number',
+            min: 0,
+            description: 'Report "In Use" above this power',
+          } satisfies DeviceOptionField]
+          : []),
+        ...SWITCH_SIMULATION_FIELDS,
+      ];
+
+    case 'multiDevices':
+      return [];
+
+    case 'thDevices':
+      return [
+        ...(capabilities.hasTemperature ? [{ key: 'tempOffset', label: 'Temperature Offset (°C)', type: 'number' } satisfies DeviceOptionField] : []),
+        ...(capabilities.hasHumidity ? [{ key: 'humidityOffset', label: 'Humidity Offset (%)', type: 'number' } satisfies DeviceOptionField] : []),
+        { key: 'minTarget', label: 'Minimum Target (°C)', type: 'number', showAs: ['heater', 'cooler', 'thermostat'] },
+        { key: 'maxTarget', label: 'Maximum Target (°C)', type: 'number', showAs: ['heater', 'cooler', 'thermostat'] },
+        { key: 'showHeatCool', label: 'Show Heat/Cool Modes', type: 'boolean', showAs: ['thermostat'] },
+      ];
+
+    case 'lightDevices':
+      return [
+        ...(capabilities.lightType === 'cct' || capabilities.lightType === 'rgbcct'
+          ? [{
+            key: 'adaptiveLightingShift',
+            label: 'Adaptive Lighting Shift',
+            type: 'number',
+            min: -1,
+            showAs: ['default'],
+            description: 'Mired value added to every Adaptive Lighting update (higher is warmer); -1 turns Adaptive Lighting off',
+          } satisfies DeviceOptionField]
+          : []),
+        { key: 'brightnessStep', label: 'Speed Step', type: 'number', min: 1, max: 100, showAs: ['fan'] },
+      ];
+
+    case 'fanDevices':
+      return [{ key: 'hideLight', label: 'Hide Light', type: 'boolean' }];
+
+    case 'sensorDevices':
+      return [
+        ...(capabilities.hasTemperature
+          ? [
+            { key: 'tempOffset', label: 'Temperature Offset (°C)', type: 'number' },
+            { key: 'hideTemp', label: 'Hide Temperature', type: 'boolean' },
+          ] satisfies DeviceOptionField[]
+          : []),
+        ...(capabilities.hasHumidity
+          ? [
+            { key: 'humidityOffset', label: 'Humidity Offset (%)', type: 'number' },
+            { key: 'hideHumidity', label: 'Hide Humidity', type: 'boolean' },
+          ] satisfies DeviceOptionField[]
+          : []),
+        ...(capabilities.hasRelay ? [{ key: 'hideSwitch', label: 'Hide Switch', type: 'boolean' } satisfies DeviceOptionField] : []),
+        ...(capabilities.hasBattery
+          ? [{ key: 'lowBattery', label: 'Low Battery Threshold (%)', type: 'number', min: 0, max: 100 } satisfies DeviceOptionField]
+          : []),
+      ];
+
+    case 'rfDevices':
+      return [{
+        key: 'resetOnStartup',
+        label: 'Reset On Startup',
+        type: 'boolean',
+        description: 'Re-create the RF sub-devices from the codes learned in eWeLink at every start',
+      }];
+  }
+}
+
+/**
+ * Per-device options the settings UI can offer for a UIID
+ *
+ * Derived from the device catalog: the category selects the config array,
+ * `supportedSimulations` the `showAs` values and the capabilities which
+ * fields apply. Fields for a `showAs` value the device cannot use are left
+ * out. Returns undefined for unknown UIIDs and categories without a config array.
+ */
+export function getDeviceConfigOptions(uiid: number): DeviceConfigOptions | undefined {
+  const entry = DEVICE_CATALOG[uiid];
+  if (!entry) {
+    return undefined;
+  }
+
+  const category = getCategoryFromType(entry.category);
+  const configKey = CONFIG_KEYS[category];
+  if (!configKey) {
+    return undefined;
+  }
+
+  // The outlet handler ignores showAs
+  const simulations = category === DeviceCategory.OUTLET
+    ? []
+    : (entry.supportedSimulations ?? []).filter(simulation => HANDLED_SIMULATIONS[configKey]?.includes(simulation));
+  const showAs = simulations.length > 0
+    ? [
+      { value: 'default', label: `Default (${entry.primaryService})` },
+      ...simulations.map(simulation => ({ value: simulation, label: SIMULATION_TYPES[simulation as SimulationType].name })),
+    ]
+    : [];
+
+  const available = new Set(['default', ...simulations]);
+  const fields = [
+    ...getFields(configKey, entry, category).filter(field => !field.showAs || field.showAs.some(value => available.has(value))),
+    ...(entry.capabilities.supportsLAN ? LAN_FIELDS : []),
+  ];
+
+  return {
+    configKey,
+    catalog: {
+      uiid: entry.uiid,
+      name: entry.name,
+      category: entry.category,
+      primaryService: entry.primaryService,
+      capabilities: entry.capabilities,
+      supportedSimulations: entry.supportedSimulations,
+    },
+    showAs,
+    fields,
+  };
+}
@@ -0,0 +1,96 @@
+import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { Logging } from 'homebridge';
+import type { EWeLinkDevice, EWeLinkGroup } from '../types/index.js';
+import { CryptoUtils } from './crypto-utils.js';
+import { TOKEN_SECRET_ENV, getEncryptionSecret, isEncryptedFile, type EncryptedFile } from './token-storage.js';
+
+/**
+ * Device list as last fetched from the cloud
+ */
+export interface StoredDeviceList {
+  devices: EWeLinkDevice[];
+  groups: EWeLinkGroup[];
+  timestamp: number;
+}
+
+/**
+ * File-based storage for the last successful cloud device list
+ * Devices are stored whole (device key, UIID, params and RF `zyx_info`) so
+ * every handler can be started from it when the cloud is unreachable
+ *
+ * The device keys make this file as sensitive as the tokens, so it follows
+ * `encryptTokens`: with `encrypt` it is written with the `EWELINK_TOKEN_SECRET`
+ * secret, like `TokenStorage`. Both formats are read.
+ */
+export class DeviceListStorage {
+  private readonly storagePath: string;
+  private readonly log?: Pick<Logging, 'warn'>;
+  private readonly encrypt?: boolean;
+
+  constructor(storagePath: string, log?: Pick<Logging, 'warn'>, encrypt?: boolean) {
+    this.storagePath = join(storagePath, 'ewelink-devices.json');
+    this.log = log;
+    this.encrypt = encrypt;
+  }
+
+  /**
+   * Save the device list to storage
+   */
+  save(devices: EWeLinkDevice[], groups: EWeLinkGroup[]): void {
+    const data: StoredDeviceList = {
+      devices,
+      groups,
+      timestamp: Date.now(),
+    };
+
+    try {
+      const content: StoredDeviceList | EncryptedFile = this.encrypt
+        ? { encrypted: CryptoUtils.encrypt(JSON.stringify(data), this.getSecret()) }
+        : data;
+      writeFileSync(this.storagePath, JSON.stringify(content), 'utf8');
+    } catch (error) {
+      this.log?.warn(`Failed to save device list to ${this.storagePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Load the device list from storage
+   * @returns The stored list, or null when there is none or it is unreadable
+   */
+  load(): StoredDeviceList | null {
+    if (!existsSync(this.storagePath)) {
+      return null;
+    }
+
+    try {
+      const file = JSON.parse(readFileSync(this.storagePath, 'utf8')) as Partial<StoredDeviceList> | EncryptedFile;
+      const data = isEncryptedFile(file)
+        ? JSON.parse(CryptoUtils.decrypt(file.encrypted, this.getSecret())) as Partial<StoredDeviceList>
+        : file;
+      if (!Array.isArray(data.devices)) {
+        return null;
+      }
+
+      return {
+        devices: data.devices.filter(device => typeof device?.deviceid === 'string'),
+        groups: Array.isArray(data.groups) ? data.groups : [],
+        timestamp: data.timestamp ?? 0,
+      };
+    } catch (error) {
+      this.log?.warn(`Failed to load device list from ${this.storagePath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Encryption secret from the environment
+   */
+  private getSecret(): string {
+    const secret = getEncryptionSecret();
+    if (!secret) {
+      throw new Error(`${TOKEN_SECRET_ENV} is not set`);
+    }
+    return secret;
+  }
+}
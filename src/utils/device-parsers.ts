@@ -1,4 +1,5 @@
 import type { DeviceParams } from '../types/index.js';
+import { POWER_DIVISOR, VOLTAGE_DIVISOR, CURRENT_DIVISOR } from '../constants/device-constants.js';
 
 /**
  * Utility class for parsing device parameter values
@@ -155,6 +156,56 @@ export class DeviceValueParser {
     };
   }
 
+  /**
+   * Get the param suffix for a channel of a multi-channel power device
+   * Channel 1 uses `_00` (e.g. `actPow_00`), channel 2 `_01`, ...
+   */
+  static channelPowerSuffix(channel: number): string {
+    return `_${String(channel - 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Check if a channel of a multi-channel device reports power (DUALR3 format)
+   */
+  static hasChannelPowerReadings(params: DeviceParams, channel: number): boolean {
+    return params[`actPow${DeviceValueParser.channelPowerSuffix(channel)}`] !== undefined;
+  }
+
+  /**
+   * Parse power readings for a channel of a multi-channel device
+   * Values are reported x100 (`actPow_00`, `voltage_00`, `current_00`)
+   */
+  static parseChannelPowerReadings(params: DeviceParams, channel: number): {
+    power: number | undefined;
+    voltage: number | undefined;
+    current: number | undefined;
+  } {
+    const suffix = DeviceValueParser.channelPowerSuffix(channel);
+    const parse = (value: unknown, divisor: number) => value !== undefined ? parseFloat(String(value)) / divisor : undefined;
+
+    return {
+      power: parse(params[`actPow${suffix}`], POWER_DIVISOR),
+      voltage: parse(params[`voltage${suffix}`], VOLTAGE_DIVISOR),
+      current: parse(params[`current${suffix}`], CURRENT_DIVISOR),
+    };
+  }
+
+  /**
+   * Parse today's energy from a kWh history string (`hundredDaysKwhData`, `kwhHistories_00`)
+   * Each day is 3 bytes, newest first: whole kWh, then the tenths and hundredths digits
+   * @returns kWh, or undefined when the data is missing or malformed
+   */
+  static parseTodayKwh(value: unknown): number | undefined {
+    if (typeof value !== 'string' || !/^[0-9a-f]{6}/i.test(value)) {
+      return undefined;
+    }
+
+    const whole = parseInt(value.slice(0, 2), 16);
+    const tenths = parseInt(value.slice(2, 4), 16);
+    const hundredths = parseInt(value.slice(4, 6), 16);
+    return whole + tenths / 10 + hundredths / 100;
+  }
+
   /**
    * Parse motion sensor state from device params
    * Motion is typically indicated by switch='on' or state=1
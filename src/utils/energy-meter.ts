@@ -0,0 +1,109 @@
+import type { EnergyMeterState } from '../types/index.js';
+import { ENERGY_TIMING } from '../constants/timing-constants.js';
+import { EVE_EPOCH_OFFSET } from './eve-characteristics.js';
+
+/** Watt-milliseconds per kWh */
+const WATT_MS_PER_KWH = 3600000000;
+
+/**
+ * Accumulates energy (kWh) for one outlet or channel
+ *
+ * The total follows the device's own kWh counter when it reports one
+ * (`hundredDaysKwh`, `kwhHistories_XX` or `oneKwh`), otherwise it is
+ * integrated from power samples. The state object is updated in place, so
+ * passing `accessory.context.energyMeter` keeps the total across restarts.
+ */
+export class EnergyMeter {
+  private readonly state: EnergyMeterState;
+
+  /** Last power sample, kept in memory only so restarts are not integrated */
+  private lastPower?: number;
+  private lastSampleAt?: number;
+
+  constructor(state: EnergyMeterState) {
+    this.state = state;
+  }
+
+  /**
+   * Create a fresh state, reset at the current time
+   */
+  static createState(): EnergyMeterState {
+    return { totalKwh: 0, resetTime: EnergyMeter.eveTime() };
+  }
+
+  /**
+   * Accumulated energy in kWh
+   */
+  get totalKwh(): number {
+    return this.state.totalKwh;
+  }
+
+  /**
+   * Last reset time in Eve format (seconds since 2001-01-01)
+   */
+  get resetTime(): number {
+    return this.state.resetTime;
+  }
+
+  /**
+   * Add a power sample in watts
+   * The previous sample's power is applied until this one; ignored once a device counter is followed
+   */
+  addPowerSample(watts: number, now: number = Date.now()): void {
+    if (this.state.source) {
+      return;
+    }
+
+    if (this.lastPower !== undefined && this.lastSampleAt !== undefined) {
+      const elapsed = now - this.lastSampleAt;
+      if (elapsed > 0 && elapsed <= ENERGY_TIMING.MAX_SAMPLE_GAP_MS) {
+        this.state.totalKwh += (this.lastPower * elapsed) / WATT_MS_PER_KWH;
+      }
+    }
+
+    this.lastPower = Math.max(0, watts);
+    this.lastSampleAt = now;
+  }
+
+  /**
+   * Add a reading of a device kWh counter
+   * Increases are added to the total; a lower value means the counter restarted
+   * (new day or new session) and is added in full. `hundredDaysKwh` takes
+   * precedence over `oneKwh` when a device reports both.
+   */
+  addDeviceKwh(kwh: number, source: NonNullable<EnergyMeterState['source']>): void {
+    if (!Number.isFinite(kwh) || kwh < 0) {
+      return;
+    }
+
+    if (source === 'oneKwh' && this.state.source === 'hundredDaysKwh') {
+      return;
+    }
+
+    // First reading from this counter only sets the baseline
+    if (this.state.source !== source || this.state.lastDeviceKwh === undefined) {
+      this.state.source = source;
+      this.state.lastDeviceKwh = kwh;
+      return;
+    }
+
+    this.state.totalKwh += kwh >= this.state.lastDeviceKwh ? kwh - this.state.lastDeviceKwh : kwh;
+    this.state.lastDeviceKwh = kwh;
+  }
+
+  /**
+   * Reset the total
+   * @param resetTime Reset time in Eve format, as written to ResetTotal (defaults to now)
+   */
+  reset(resetTime: number = EnergyMeter.eveTime()): void {
+    this.state.totalKwh = 0;
+    this.state.resetTime = resetTime;
+  }
+
+  /**
+   * Current time in Eve format
+   */
+  private static eveTime(): number {
+    return Math.floor(Date.now() / 1000) - EVE_EPOCH_OFFSET;
+  }
+}
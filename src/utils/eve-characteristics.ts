@@ -15,8 +15,14 @@ export const EVE_CHARACTERISTIC_UUIDS = {
   OpenDuration: 'E863F118-079E-48FF-8F27-9C2605A29F52',
   ClosedDuration: 'E863F119-079E-48FF-8F27-9C2605A29F52',
   TimesOpened: 'E863F129-079E-48FF-8F27-9C2605A29F52',
+  ValvePosition: 'E863F12E-079E-48FF-8F27-9C2605A29F52',
 } as const;
 
+/**
+ * Seconds between the Unix epoch and the Apple epoch (2001-01-01) used in Eve timestamps
+ */
+export const EVE_EPOCH_OFFSET = 978307200;
+
 /**
  * Eve Home custom characteristics
  * These characteristics enable power monitoring and other features in the Eve app
@@ -31,6 +37,7 @@ export class EveCharacteristics {
   public readonly OpenDuration: typeof Characteristic;
   public readonly ClosedDuration: typeof Characteristic;
   public readonly TimesOpened: typeof Characteristic;
+  public readonly ValvePosition: typeof Characteristic;
 
   constructor(api: API) {
     const { Characteristic: BaseCharacteristic } = api.hap;
@@ -171,5 +178,22 @@ export class EveCharacteristics {
         this.value = this.getDefaultValue();
       }
     };
+
+    // Valve Position (radiator valve opening, %)
+    this.ValvePosition = class extends BaseCharacteristic {
+      static readonly UUID = EVE_CHARACTERISTIC_UUIDS.ValvePosition;
+
+      constructor() {
+        super('Valve Position', EVE_CHARACTERISTIC_UUIDS.ValvePosition, {
+          format: Formats.UINT8,
+          unit: Units.PERCENTAGE,
+          minValue: 0,
+          maxValue: 100,
+          minStep: 1,
+          perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+        });
+        this.value = this.getDefaultValue();
+      }
+    };
   }
 }
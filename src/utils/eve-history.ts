@@ -0,0 +1,119 @@
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import type { API, Logging, PlatformAccessory } from 'homebridge';
+import fakegato, {
+  type FakeGatoGlobals,
+  type FakeGatoHistoryService,
+  type FakeGatoHistoryServiceConstructor,
+} from 'fakegato-history';
+
+/**
+ * Kind of history an accessory records, decides the Eve graph layout
+ */
+export type EveHistoryType = 'energy' | 'weather' | 'door';
+
+/**
+ * A single history sample, fields that are undefined are left out
+ */
+export interface EveHistorySample {
+  /** Power in watts (energy) */
+  power?: number;
+  /** Temperature in °C (weather) */
+  temp?: number;
+  /** Relative humidity in % (weather) */
+  humidity?: number;
+  /** Air pressure in hPa (weather) */
+  pressure?: number;
+  /** 1 = open, 0 = closed (door) */
+  status?: number;
+}
+
+/**
+ * Options for an EveHistory instance
+ */
+export interface EveHistoryOptions {
+  /** Homebridge storage path, history is kept in `<storagePath>/ewelink-history` */
+  storagePath: string;
+  /** Logger for protocol traffic (with `debug`) */
+  log?: Pick<Logging, 'debug'>;
+  /** Log history requests and entries (`debugFakegato`) */
+  debug?: boolean;
+}
+
+/** History Entries, History Request and Set Time, which fakegato-history attaches its handlers to */
+const HANDLER_CHARACTERISTIC_UUIDS = [
+  'E863F117-079E-48FF-8F27-9C2605A29F52',
+  'E863F11C-079E-48FF-8F27-9C2605A29F52',
+  'E863F121-079E-48FF-8F27-9C2605A29F52',
+];
+
+/** History service class, created once since fakegato-history binds to the first API */
+let HistoryService: FakeGatoHistoryServiceConstructor | undefined;
+
+/**
+ * Eve history recorder backed by fakegato-history
+ *
+ * The library adds the Eve history service to the accessory, averages energy
+ * and weather samples on its shared 10-minute timer, stores door changes as
+ * they happen and writes the history to disk asynchronously after each entry.
+ */
+export class EveHistory {
+  private readonly api: API & FakeGatoGlobals;
+  private readonly service: FakeGatoHistoryService;
+
+  /**
+   * @param api Homebridge API
+   * @param accessory Accessory to add the history service to
+   * @param type History type
+   * @param options Storage and logging options
+   */
+  constructor(api: API, accessory: PlatformAccessory, type: EveHistoryType, options: EveHistoryOptions) {
+    const path = join(options.storagePath, 'ewelink-history');
+    mkdirSync(path, { recursive: true });
+
+    this.api = api;
+    HistoryService ??= fakegato(api);
+    this.service = new HistoryService(type, accessory, {
+      storage: 'fs',
+      path,
+      filename: `${accessory.UUID}_persist.json`,
+      log: options.debug && options.log ? options.log : { debug: () => {} },
+    });
+  }
+
+  /**
+   * Record a sample
+   */
+  addEntry(sample: EveHistorySample): void {
+    // The library averages every field it is given, so an undefined one would turn the average into NaN
+    const fields = Object.fromEntries(Object.entries(sample).filter(([, value]) => value !== undefined)) as Record<string, number>;
+
+    this.service.addEntry({ ...fields, time: Math.floor(Date.now() / 1000) });
+  }
+
+  /**
+   * Stop recording: the history leaves the library's shared timer and stops
+   * answering the Eve app, so a new recorder can take over the accessory.
+   * Writes already queued still finish.
+   */
+  stop(): void {
+    const timer = this.api.globalFakeGatoTimer;
+    // unsubscribe() of an unknown service would drop another history's subscription
+    if (timer?.getSubscriber(this.service)) {
+      timer.unsubscribe(this.service);
+    }
+
+    for (const uuid of HANDLER_CHARACTERISTIC_UUIDS) {
+      const characteristic = this.service.service?.getCharacteristic(uuid);
+      characteristic?.removeAllListeners('get');
+      characteristic?.removeAllListeners('set');
+    }
+  }
+
+  /**
+   * Unix time of the first entry, used as the base for LastActivation
+   */
+  getInitialTime(): number {
+    return this.service.getInitialTime() || Math.floor(Date.now() / 1000);
+  }
+}
@@ -0,0 +1,79 @@
+import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { Logging } from 'homebridge';
+import type { LANDevice } from '../types/index.js';
+
+/**
+ * Registry entry as persisted: the address, without the device key or IV
+ */
+export type StoredLanDevice = Omit<LANDevice, 'deviceKey' | 'iv'>;
+
+/**
+ * Persisted LAN registry file contents
+ */
+interface StoredLanDevices {
+  timestamp: number;
+  devices: StoredLanDevice[];
+}
+
+/**
+ * File-based storage for the LAN device registry
+ * Lets LAN control reach known devices right after a restart, before the
+ * cloud or mDNS has reported their addresses. Device keys give full LAN
+ * control of a device, so they are never written; LAN control takes them
+ * from the device cache instead.
+ */
+export class LanDeviceStorage {
+  private readonly storagePath: string;
+  private readonly log?: Pick<Logging, 'warn'>;
+
+  constructor(storagePath: string, log?: Pick<Logging, 'warn'>) {
+    this.storagePath = join(storagePath, 'ewelink-lan-devices.json');
+    this.log = log;
+  }
+
+  /**
+   * Save the registry to storage
+   */
+  save(devices: LANDevice[]): void {
+    const data: StoredLanDevices = {
+      timestamp: Date.now(),
+      devices: devices.map(({ deviceKey: _deviceKey, iv: _iv, ...device }) => device),
+    };
+
+    try {
+      writeFileSync(this.storagePath, JSON.stringify(data, null, 2), 'utf8');
+    } catch (error) {
+      this.log?.warn(`Failed to save LAN devices to ${this.storagePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Load the registry from storage
+   * Entries without a device ID, IP or port are dropped, and keys left by
+   * earlier versions are ignored
+   */
+  load(): StoredLanDevice[] {
+    if (!existsSync(this.storagePath)) {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.storagePath, 'utf8')) as Partial<StoredLanDevices>;
+      if (!Array.isArray(data.devices)) {
+        return [];
+      }
+
+      return (data.devices as LANDevice[])
+        .filter(device =>
+          typeof device?.deviceId === 'string' &&
+          typeof device.ip === 'string' && device.ip !== '' &&
+          typeof device.port === 'number' && device.port > 0,
+        )
+        .map(({ deviceKey: _deviceKey, iv: _iv, ...device }) => device);
+    } catch (error) {
+      this.log?.warn(`Failed to load LAN devices from ${this.storagePath}: ${error}`);
+      return [];
+    }
+  }
+}
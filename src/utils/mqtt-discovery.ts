@@ -0,0 +1,210 @@
+import type { EWeLinkDevice } from '../types/index.js';
+import { getDeviceByUIID, getSwitchParamName, getTrvParams, type DeviceCatalogEntry } from '../constants/device-catalog.js';
+import { isRFButtonType } from '../constants/device-constants.js';
+
+/**
+ * Topic roots used for discovery payloads
+ */
+export interface MqttDiscoveryOptions {
+  /** Root of the bridge's state and command topics */
+  topicPrefix: string;
+  /** Home Assistant discovery prefix */
+  discoveryPrefix: string;
+}
+
+/**
+ * Retained discovery message for one Home Assistant entity
+ */
+export interface MqttDiscoveryMessage {
+  topic: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Button of a remote learned by an RF bridge
+ */
+export interface RFChannel {
+  /** RF channel (`rfChl`) the bridge transmits or reports */
+  channel: number;
+  /** Button name from `zyx_info` */
+  name: string;
+  /** Remote type from `zyx_info` */
+  remoteType: string;
+}
+
+/**
+ * List the RF channels learned by a bridge, from `tags.zyx_info`
+ */
+export function getRFChannels(device: EWeLinkDevice): RFChannel[] {
+  const channels: RFChannel[] = [];
+
+  for (const remote of device.tags?.zyx_info ?? []) {
+    for (const buttons of remote.buttonName ?? []) {
+      for (const [channel, name] of Object.entries(buttons)) {
+        channels.push({ channel: Number(channel), name: name || remote.name, remoteType: remote.remote_type });
+      }
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Build Home Assistant MQTT discovery messages for a device
+ *
+ * Entities follow the catalog capabilities: a switch or light per channel,
+ * power and climate sensors, battery level and RF bridge buttons. Values
+ * are read from the device's retained state topic, so the templates use the
+ * raw eWeLink param names.
+ */
+export function buildDiscoveryMessages(device: EWeLinkDevice, options: MqttDiscoveryOptions): MqttDiscoveryMessage[] {
+  const uiid = device.extra?.uiid || 0;
+  const entry = getDeviceByUIID(uiid);
+  if (!entry) {
+    return [];
+  }
+
+  const base = `${options.topicPrefix}/${device.deviceid}`;
+  const nodeId = `ewelink_${device.deviceid}`;
+  const shared = {
+    device: {
+      identifiers: [nodeId],
+      name: device.name,
+      manufacturer: device.brandName || 'eWeLink',
+      model: device.productModel || entry.name,
+      sw_version: device.params?.fwVersion,
+    },
+    availability: [
+      { topic: `${options.topicPrefix}/bridge/status` },
+      { topic: `${base}/state`, value_template: '{{ \'online\' if value_json.online else \'offline\' }}' },
+    ],
+    availability_mode: 'all',
+  };
+
+  const messages: MqttDiscoveryMessage[] = [];
+  const add = (component: string, objectId: string, payload: Record<string, unknown>) => {
+    messages.push({
+      topic: `${options.discoveryPrefix}/${component}/${nodeId}/${objectId}/config`,
+      payload: { ...payload, unique_id: `${nodeId}_${objectId}`, ...shared },
+    });
+  };
+
+  addRelayEntities(entry, base, add);
+  addSensorEntities(entry, base, add);
+
+  if (entry.category === 'rf_bridge') {
+    for (const rf of getRFChannels(device).filter(rf => isRFButtonType(rf.remoteType))) {
+      add('button', `rf_${rf.channel}`, {
+        name: rf.name,
+        command_topic: `${base}/rf/${rf.channel}/set`,
+        payload_press: 'PRESS',
+      });
+    }
+  }
+
+  return messages;
+}
+
+type AddEntity = (component: string, objectId: string, payload: Record<string, unknown>) => void;
+
+/**
+ * Switch or light entities: one per channel for multi-channel devices, otherwise one for the device
+ */
+function addRelayEntities(entry: DeviceCatalogEntry, base: string, add: AddEntity): void {
+  const style = entry.params.switchStyle;
+  if (!style) {
+    return;
+  }
+
+  const component = entry.category === 'light' ? 'light' : 'switch';
+  const onOff = { payload_on: 'on', payload_off: 'off' };
+  const deviceClass = component === 'switch' ? { device_class: entry.category === 'outlet' ? 'outlet' : 'switch' } : {};
+
+  if (style === 'multi' && entry.capabilities.channels > 1) {
+    for (let channel = 1; channel <= entry.capabilities.channels; channel++) {
+      add(component, `channel_${channel}`, {
+        name: `Channel ${channel}`,
+        state_topic: `${base}/${channel}/state`,
+        value_template: '{{ value_json.switch }}',
+        command_topic: `${base}/${channel}/set`,
+        ...onOff,
+        ...deviceClass,
+      });
+    }
+    return;
+  }
+
+  const switchParam = getSwitchParamName(entry.uiid);
+  const payload: Record<string, unknown> = {
+    name: null,
+    state_topic: `${base}/state`,
+    command_topic: `${base}/set`,
+    ...onOff,
+    ...deviceClass,
+  };
+  payload[component === 'light' ? 'state_value_template' : 'value_template'] = style === 'multi'
+    ? '{{ value_json.switches[0].switch }}'
+    : `{{ value_json['${switchParam}'] }}`;
+
+  const brightness = entry.params.brightness;
+  // Only flat numeric brightness params map onto Home Assistant's brightness topics
+  if (component === 'light' && brightness && !brightness.asString && !brightness.requiresMode && !brightness.param.includes('.')) {
+    Object.assign(payload, {
+      brightness_state_topic: `${base}/state`,
+      brightness_value_template: `{{ value_json['${brightness.param}'] }}`,
+      brightness_command_topic: `${base}/set`,
+      brightness_command_template: `{"${brightness.param}": {{ value }}}`,
+      brightness_scale: brightness.max,
+    });
+  }
+
+  add(component, component, payload);
+}
+
+/**
+ * Power, climate and battery sensors
+ * Temperature and humidity templates apply the same scaling as `DeviceValueParser`
+ */
+function addSensorEntities(entry: DeviceCatalogEntry, base: string, add: AddEntity): void {
+  const sensor = (objectId: string, name: string, deviceClass: string, unit: string, template: string) => {
+    add('sensor', objectId, {
+      name,
+      state_topic: `${base}/state`,
+      value_template: template,
+      device_class: deviceClass,
+      unit_of_measurement: unit,
+      state_class: 'measurement',
+    });
+  };
+
+  const power = entry.params.power;
+  if (entry.capabilities.powerMonitoring !== 'none' && power) {
+    sensor('power', 'Power', 'power', 'W', `{{ value_json['${power.power}'] | float }}`);
+    if (power.voltage) {
+      sensor('voltage', 'Voltage', 'voltage', 'V', `{{ value_json['${power.voltage}'] | float }}`);
+    }
+    if (power.current) {
+      sensor('current', 'Current', 'current', 'A', `{{ value_json['${power.current}'] | float }}`);
+    }
+  }
+
+  const trv = getTrvParams(entry.uiid);
+  if (trv) {
+    sensor('temperature', 'Temperature', 'temperature', '°C',
+      `{{ (value_json['${trv.currentTemp}'] | float) / ${trv.tempDivisor} }}`);
+  } else if (entry.capabilities.hasTemperature) {
+    const param = entry.params.temperature ?? 'temperature';
+    sensor('temperature', 'Temperature', 'temperature', '°C',
+      `{% set v = value_json['${param}'] | float %}{{ v / 100 if v > 1000 else v }}`);
+  }
+
+  if (entry.capabilities.hasHumidity) {
+    const param = entry.params.humidity ?? 'humidity';
+    sensor('humidity', 'Humidity', 'humidity', '%',
+      `{% set v = value_json['${param}'] | float %}{{ v / 100 if v > 100 else v }}`);
+  }
+
+  if (entry.capabilities.hasBattery && entry.params.battery !== 'voltage') {
+    sensor('battery', 'Battery', 'battery', '%', '{{ value_json.battery }}');
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Plugin health counters for the metrics endpoint
+ *
+ * Counters only ever grow while Homebridge runs; Prometheus derives rates
+ * and handles the reset on restart.
+ */
+
+/**
+ * Path a device command took
+ */
+export type CommandRoute = 'lan' | 'cloud';
+
+/**
+ * Kind of failed eWeLink HTTP API call
+ * `http` is a request that failed (network error or non-2xx status),
+ * `api` a response carrying a non-zero `error` code
+ */
+export type ApiErrorType = 'http' | 'api';
+
+/**
+ * Snapshot of the plugin health counters
+ */
+export interface PluginMetricsSnapshot {
+  wsReconnects: number;
+  commands: Record<CommandRoute, { success: number; failure: number }>;
+  apiErrors: Record<ApiErrorType, number>;
+  /** Cloud commands that left the command queue, with their total time from enqueue to result */
+  commandLatency: { count: number; sumMs: number };
+}
+
+/**
+ * Collects plugin health counters
+ */
+export class PluginMetrics {
+  private wsReconnects = 0;
+  private readonly commands: PluginMetricsSnapshot['commands'] = {
+    lan: { success: 0, failure: 0 },
+    cloud: { success: 0, failure: 0 },
+  };
+  private readonly apiErrors: PluginMetricsSnapshot['apiErrors'] = { http: 0, api: 0 };
+  private readonly commandLatency: PluginMetricsSnapshot['commandLatency'] = { count: 0, sumMs: 0 };
+
+  /**
+   * Count a scheduled WebSocket reconnection
+   */
+  recordWsReconnect(): void {
+    this.wsReconnects++;
+  }
+
+  /**
+   * Count the result of a command sent over LAN or the cloud
+   */
+  recordCommand(route: CommandRoute, success: boolean): void {
+    this.commands[route][success ? 'success' : 'failure']++;
+  }
+
+  /**
+   * Add the time a queued command took from enqueue to result
+   */
+  recordCommandLatency(latencyMs: number): void {
+    this.commandLatency.count++;
+    this.commandLatency.sumMs += Math.max(0, latencyMs);
+  }
+
+  /**
+   * Count a failed eWeLink HTTP API call
+   */
+  recordApiError(type: ApiErrorType): void {
+    this.apiErrors[type]++;
+  }
+
+  /**
+   * Copy of the current counters
+   */
+  getSnapshot(): PluginMetricsSnapshot {
+    return {
+      wsReconnects: this.wsReconnects,
+      commands: {
+        lan: { ...this.commands.lan },
+        cloud: { ...this.commands.cloud },
+      },
+      apiErrors: { ...this.apiErrors },
+      commandLatency: { ...this.commandLatency },
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import type { AccessoryContext, RFSubdeviceConfig } from '../types/index.js';
+import { isRFButtonType, isRFSensorType, isRFCurtainType } from '../constants/device-constants.js';
+import { TIMING } from '../constants/timing-constants.js';
+
+/** Curtain simulations selectable with `bridgeSensors[].curtainType` */
+const RF_CURTAIN_SIMULATIONS = ['blind', 'door', 'window'];
+
+/**
+ * Find the rfDevices[].subdevices entry of an RF sub-device
+ * Matched by button index, falling back to the subdevice label
+ */
+export function findRFSubdeviceConfig(
+  subdevices: RFSubdeviceConfig[],
+  index: number | undefined,
+  label?: string,
+): RFSubdeviceConfig | undefined {
+  return subdevices.find(s => s.index === index)
+    ?? subdevices.find(s => s.label !== undefined && s.label === label);
+}
+
+/**
+ * Resolve the handler type for an RF sub-device
+ * A configured `showAs` wins over the learned `remote_type`
+ * @param curtainType - `bridgeSensors[].curtainType` of the sub-device
+ * @returns The sub-type, or undefined for an unknown remote type
+ */
+export function getRFSubType(
+  remoteType: string,
+  showAs?: RFSubdeviceConfig['showAs'],
+  curtainType?: string,
+): string | undefined {
+  if (showAs === 'button' || showAs === 'garage') {
+    return showAs;
+  }
+
+  if (showAs === 'curtain' || (!showAs && isRFCurtainType(remoteType))) {
+    return curtainType && RF_CURTAIN_SIMULATIONS.includes(curtainType) ? curtainType : 'curtain';
+  }
+
+  // Sensor types (motion, contact, doorbell, ...) are handled by RFSensorAccessory
+  if (showAs || isRFSensorType(remoteType)) {
+    return 'sensor';
+  }
+
+  if (isRFButtonType(remoteType)) {
+    return 'button';
+  }
+
+  return undefined;
+}
+
+/**
+ * Cached RF sub-accessories of a bridge (rfDevices[].resetOnStartup)
+ */
+export function filterRFSubAccessories<T extends { context: AccessoryContext }>(accessories: Iterable<T>, bridgeId: string): T[] {
+  return Array.from(accessories).filter(
+    acc => acc.context.rfButtonIndex !== undefined && acc.context.device?.deviceid === bridgeId,
+  );
+}
+
+/**
+ * Operation times and RF channels of an RF garage door
+ * The first learned button opens the door and the second closes it; a single button toggles
+ * @param buttons - Learned buttons by channel (`accessory.context.buttons`)
+ */
+export function getRFGarageOptions(
+  config: RFSubdeviceConfig | undefined,
+  buttons: Record<string, string> = {},
+): { operationTimeUp: number; operationTimeDown: number; chOpen: string; chClose: string } {
+  const operationTime = config?.operationTime || TIMING.GARAGE_OPERATION_MS / 1000;
+  const channels = Object.keys(buttons);
+
+  return {
+    operationTimeUp: operationTime * 1000,
+    operationTimeDown: (config?.operationTimeDown || operationTime) * 1000,
+    chOpen: channels[0],
+    chClose: channels[1] ?? channels[0],
+  };
+}
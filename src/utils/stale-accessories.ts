@@ -0,0 +1,99 @@
+/**
+ * What the stale accessory check needs to know about one cached accessory
+ */
+export interface StaleAccessoryState {
+  /** Device ID without the channel suffix, so the channels of a device count once */
+  parentId: string;
+  /** Not in the current device or group list */
+  missing: boolean;
+  /** Belongs to a home listed in `ignoredHomes` */
+  ignoredHome?: boolean;
+  /** When the accessory was first missing (ms), unset while it is present */
+  missingSince?: number;
+  /** Syncs the accessory has been missing for */
+  missingSyncs?: number;
+}
+
+/**
+ * `staleAccessorySyncs`, `staleAccessoryDays` and `staleAccessoryMaxPercent`
+ */
+export interface StaleAccessoryPolicy {
+  syncs: number;
+  days: number;
+  /** 0 disables the safety stop */
+  maxPercent: number;
+}
+
+/**
+ * What to do with the cached accessories after a sync
+ */
+export interface StaleAccessoryPlan<T extends StaleAccessoryState> {
+  /** Back in the device list after being missing */
+  returned: T[];
+  /** Remove now, ignored homes first */
+  remove: Array<{ accessory: T; reason: string }>;
+  /** Keep as "No Response" with the updated counters */
+  pending: Array<{ accessory: T; missingSince: number; missingSyncs: number }>;
+  /** Set when the safety stop left the missing accessories alone for this sync */
+  skipped?: { missing: number; known: number };
+}
+
+/**
+ * Decide which missing accessories to keep, remove or leave alone
+ *
+ * A missing accessory is removed once it has been missing for `syncs` syncs and
+ * `days` days; accessories from ignored homes are removed at once. Nothing
+ * else happens when more than `maxPercent` of the known devices go missing in
+ * one sync, which is more likely a partial cloud response.
+ *
+ * @param accessories Every cached accessory
+ * @param policy Grace period and safety stop
+ * @param now Current time (ms)
+ */
+export function planStaleAccessories<T extends StaleAccessoryState>(
+  accessories: T[],
+  policy: StaleAccessoryPolicy,
+  now: number,
+): StaleAccessoryPlan<T> {
+  const plan: StaleAccessoryPlan<T> = {
+    returned: accessories.filter(accessory => !accessory.missing && accessory.missingSince !== undefined),
+    remove: [],
+    pending: [],
+  };
+
+  const quarantine: T[] = [];
+  for (const accessory of accessories.filter(accessory => accessory.missing)) {
+    if (accessory.ignoredHome) {
+      plan.remove.push({ accessory, reason: 'ignored home' });
+    } else {
+      quarantine.push(accessory);
+    }
+  }
+
+  if (quarantine.length === 0) {
+    return plan;
+  }
+
+  const known = new Set(accessories.map(accessory => accessory.parentId)).size;
+  const newlyMissing = new Set(
+    quarantine.filter(accessory => accessory.missingSince === undefined).map(accessory => accessory.parentId),
+  ).size;
+  if (policy.maxPercent > 0 && newlyMissing * 100 > policy.maxPercent * known) {
+    plan.skipped = { missing: newlyMissing, known };
+    return plan;
+  }
+
+  for (const accessory of quarantine) {
+    const missingSince = accessory.missingSince ?? now;
+    const missingSyncs = (accessory.missingSyncs ?? 0) + 1;
+
+    const missingDays = (now - missingSince) / 86400000;
+    if (missingSyncs >= policy.syncs && missingDays >= policy.days) {
+      plan.remove.push({ accessory, reason: `missing for ${missingSyncs} syncs` });
+    } else {
+      plan.pending.push({ accessory, missingSince, missingSyncs });
+    }
+  }
+
+  return plan;
+}
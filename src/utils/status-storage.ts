@@ -0,0 +1,131 @@
+import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { Logging } from 'homebridge';
+import type { CloudConnectionState, DeviceParams } from '../types/index.js';
+import { STATUS_TIMING } from '../constants/timing-constants.js';
+import type { PluginMetricsSnapshot } from './plugin-metrics.js';
+
+/**
+ * Live state of one accessory, as seen by the running platform
+ */
+export interface AccessoryStatus {
+  /** Accessory ID (`<deviceId>SW<n>` for channels, RF sub-device IDs) */
+  id: string;
+  /** eWeLink device the accessory belongs to */
+  deviceId: string;
+  name: string;
+  /** Class of the accessory handler, or null when it has none (e.g. quarantined) */
+  handler: string | null;
+  online: boolean;
+  reachableLAN: boolean;
+  reachableWAN: boolean;
+  /** Params as last received by the handler */
+  params: DeviceParams;
+  /** Last update received for the device (ms since epoch) */
+  lastUpdate: number | null;
+  /** Message of the last failed command */
+  lastError: string | null;
+  lastErrorAt: number | null;
+  /** Time the last command took from sending to result */
+  latencyMs: number | null;
+}
+
+/**
+ * Platform state written for the settings UI
+ */
+export interface PluginStatus {
+  /** When the platform wrote the file (ms since epoch) */
+  timestamp: number;
+  cloudState: CloudConnectionState;
+  queue: { queueSize: number; activeCount: number };
+  metrics: PluginMetricsSnapshot;
+  accessories: AccessoryStatus[];
+}
+
+/**
+ * File-based channel from the running platform to the settings UI server
+ *
+ * The UI server runs in its own process and cannot reach the platform, so
+ * the platform writes its live state to `ewelink-status.json`. Writes only
+ * happen while the UI asks for them: each request from the UI stamps
+ * `ewelink-status.watch`, and the platform stops writing once the stamp is
+ * older than `STATUS_TIMING.WATCH_TTL_MS`.
+ */
+export class StatusStorage {
+  private readonly statusPath: string;
+  private readonly watchPath: string;
+  private readonly log?: Pick<Logging, 'warn'>;
+
+  constructor(storagePath: string, log?: Pick<Logging, 'warn'>) {
+    this.statusPath = join(storagePath, 'ewelink-status.json');
+    this.watchPath = join(storagePath, 'ewelink-status.watch');
+    this.log = log;
+  }
+
+  /**
+   * Save the platform status
+   */
+  save(status: Omit<PluginStatus, 'timestamp'>): void {
+    const data: PluginStatus = {
+      timestamp: Date.now(),
+      ...status,
+    };
+
+    try {
+      writeFileSync(this.statusPath, JSON.stringify(data), 'utf8');
+    } catch (error) {
+      this.log?.warn(`Failed to save status to ${this.statusPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Load the last saved platform status
+   * @returns The status, or null when there is none or it is unreadable
+   */
+  load(): PluginStatus | null {
+    if (!existsSync(this.statusPath)) {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.statusPath, 'utf8')) as Partial<PluginStatus>;
+      if (typeof data.timestamp !== 'number' || !Array.isArray(data.accessories)) {
+        return null;
+      }
+      return data as PluginStatus;
+    } catch (error) {
+      this.log?.warn(`Failed to load status from ${this.statusPath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the platform to keep writing the status (called by the UI server)
+   */
+  watch(): void {
+    try {
+      writeFileSync(this.watchPath, String(Date.now()), 'utf8');
+    } catch (error) {
+      this.log?.warn(`Failed to request status updates at ${this.watchPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Whether the UI asked for the status within `STATUS_TIMING.WATCH_TTL_MS`
+   */
+  isWatched(): boolean {
+    try {
+      const requestedAt = Number(readFileSync(this.watchPath, 'utf8'));
+      return Date.now() - requestedAt <= STATUS_TIMING.WATCH_TTL_MS;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a status is missing or older than `STATUS_TIMING.STALE_MS`
+   */
+  static isStale(status: PluginStatus | null): boolean {
+    return !status || Date.now() - status.timestamp > STATUS_TIMING.STALE_MS;
+  }
+}
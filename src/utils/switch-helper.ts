@@ -49,6 +49,25 @@ export class SwitchHelper {
     return { switch: on ? 'on' : 'off' };
   }
 
+  /**
+   * Translate `switch` in params sent to a channel address (`<deviceid>SW<n>`)
+   * For devices with a switches array, channel 0 switches every outlet and
+   * other channels only their own; other params are passed through
+   */
+  static buildChannelCommand(deviceParams: DeviceParams, channel: number, params: DeviceParams): DeviceParams {
+    if (params.switch === undefined || !SwitchHelper.isSCMDevice(deviceParams)) {
+      return params;
+    }
+
+    const on = SwitchHelper.isOn(params.switch);
+    const switches = channel === 0
+      ? deviceParams.switches!.map(s => ({ ...s, switch: on ? 'on' as const : 'off' as const }))
+      : SwitchHelper.buildSwitchParams(deviceParams, channel, on).switches;
+    const command: DeviceParams = { ...params, switches };
+    delete command.switch;
+    return command;
+  }
+
   /**
    * Get the number of channels for a device
    */
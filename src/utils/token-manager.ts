@@ -0,0 +1,223 @@
+import type { Logging } from 'homebridge';
+import { TOKEN_LIFECYCLE } from '../constants/api-constants.js';
+import { getTokenExpiry, type StoredTokens, type TokenStorage } from './token-storage.js';
+import { getErrorMessage } from './error-utils.js';
+import { sleep } from './sleep.js';
+
+/**
+ * Tokens of a signed-in session
+ */
+export interface TokenSet {
+  accessToken: string;
+  refreshToken: string;
+  apiKey: string;
+  region: string;
+}
+
+/**
+ * Token pair returned by `/v2/user/refresh`
+ */
+export interface RefreshedTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface TokenManagerOptions {
+  storage: TokenStorage;
+  log: Pick<Logging, 'debug' | 'info' | 'warn'>;
+  /** Account the session belongs to, saved with the tokens */
+  username?: string;
+  /** Exchange a refresh token for a new token pair */
+  refresh: (refreshToken: string) => Promise<RefreshedTokens>;
+  /** Called whenever the tokens in use change */
+  apply: (tokens: TokenSet) => void;
+}
+
+/**
+ * Session token lifecycle
+ *
+ * Records when each token expires, persists every rotation to the shared
+ * token file and renews the access token before it expires. The plugin and
+ * the UI server (`homebridge-ui/server.js`) use the same file: a process
+ * adopts tokens rotated by the other one, and refreshes run under a lock
+ * file so the two never spend the same refresh token.
+ */
+export class TokenManager {
+  private readonly options: TokenManagerOptions;
+  private current: StoredTokens | null = null;
+  private refreshing: Promise<void> | null = null;
+  private renewTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: TokenManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Use the tokens of a new session (password login) and persist them
+   */
+  store(tokens: TokenSet): void {
+    const now = Date.now();
+    this.use({
+      ...tokens,
+      username: this.options.username || undefined,
+      accessTokenExpiresAt: now + TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS,
+      refreshTokenExpiresAt: now + TOKEN_LIFECYCLE.REFRESH_TOKEN_TTL_MS,
+      timestamp: now,
+    });
+    this.options.storage.save(this.current!);
+  }
+
+  /**
+   * Adopt the stored tokens when they are still valid and differ from the ones in use
+   * @returns Whether valid tokens are in use afterwards
+   */
+  reload(): boolean {
+    const stored = this.options.storage.load();
+
+    if (stored?.accessToken && this.isOwnAccount(stored) && Date.now() < getTokenExpiry(stored)) {
+      if (stored.accessToken !== this.current?.accessToken) {
+        this.options.log.debug('Using tokens from storage');
+        this.use(stored);
+      }
+      return true;
+    }
+
+    return this.current !== null && Date.now() < getTokenExpiry(this.current);
+  }
+
+  /**
+   * Refresh the access token
+   * Concurrent calls share one refresh; when the other process rotated the
+   * tokens in the meantime, its tokens are adopted instead
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshLocked().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Refresh when the access token expires within `TOKEN_LIFECYCLE.RENEW_BEFORE_MS`
+   */
+  async renewIfDue(): Promise<void> {
+    // Picks up tokens rotated by the other process
+    this.reload();
+    if (!this.current) {
+      return;
+    }
+
+    const expiresAt = getTokenExpiry(this.current);
+    if (expiresAt - Date.now() > TOKEN_LIFECYCLE.RENEW_BEFORE_MS) {
+      return;
+    }
+
+    if (this.current.refreshTokenExpiresAt !== undefined && Date.now() >= this.current.refreshTokenExpiresAt) {
+      this.options.log.warn('eWeLink refresh token has expired, a new login is required');
+      return;
+    }
+
+    try {
+      await this.refresh();
+      this.options.log.info(`eWeLink session renewed, valid until ${new Date(this.getExpiry()!).toISOString()}`);
+    } catch (error) {
+      this.options.log.warn(`Failed to renew eWeLink session: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Check the expiry every `TOKEN_LIFECYCLE.CHECK_INTERVAL_MS`
+   */
+  start(): void {
+    if (this.renewTimer) {
+      return;
+    }
+
+    this.renewTimer = setInterval(() => {
+      void this.renewIfDue();
+    }, TOKEN_LIFECYCLE.CHECK_INTERVAL_MS);
+    this.renewTimer.unref?.();
+  }
+
+  /**
+   * Stop the expiry check
+   */
+  stop(): void {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+  }
+
+  /**
+   * Access token expiry of the session in use
+   */
+  getExpiry(): number | undefined {
+    return this.current ? getTokenExpiry(this.current) : undefined;
+  }
+
+  /**
+   * Refresh while holding the lock shared with the other process
+   */
+  private async refreshLocked(): Promise<void> {
+    const usedRefreshToken = this.current?.refreshToken;
+
+    await this.acquireLock();
+    try {
+      // The other process may have rotated the tokens while we waited
+      const stored = this.options.storage.load();
+      if (stored?.accessToken && stored.refreshToken !== usedRefreshToken && this.isOwnAccount(stored)
+        && Date.now() < getTokenExpiry(stored)) {
+        this.options.log.debug('Tokens were refreshed by another process, using them');
+        this.use(stored);
+        return;
+      }
+
+      if (!this.current?.refreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      const refreshed = await this.options.refresh(this.current.refreshToken);
+      this.store({ ...this.current, ...refreshed });
+      this.options.log.debug('Token refreshed successfully');
+    } finally {
+      this.options.storage.unlock();
+    }
+  }
+
+  /**
+   * Wait for the refresh lock, at most until a held lock counts as stale
+   */
+  private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + TOKEN_LIFECYCLE.LOCK_STALE_MS + TOKEN_LIFECYCLE.LOCK_POLL_MS;
+
+    while (!this.options.storage.lock()) {
+      if (Date.now() >= deadline) {
+        throw new Error('Timed out waiting for another process to refresh the tokens');
+      }
+      await sleep(TOKEN_LIFECYCLE.LOCK_POLL_MS);
+    }
+  }
+
+  /**
+   * Stored tokens of another account are ignored (e.g. after the username was changed)
+   */
+  private isOwnAccount(tokens: StoredTokens): boolean {
+    return !tokens.username || !this.options.username || tokens.username === this.options.username;
+  }
+
+  /**
+   * Switch to the given tokens
+   */
+  private use(tokens: StoredTokens): void {
+    this.current = tokens;
+    this.options.apply({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      apiKey: tokens.apiKey,
+      region: tokens.region,
+    });
+  }
+}
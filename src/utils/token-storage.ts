@@ -1,22 +1,74 @@
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { writeFileSync, readFileSync, existsSync, openSync, closeSync, unlinkSync, statSync } from 'fs';
 import { join } from 'path';
+import { TOKEN_LIFECYCLE } from '../constants/api-constants.js';
+import { CryptoUtils, type EncryptedData } from './crypto-utils.js';
+
+/** Environment variable holding the encryption secret */
+export const TOKEN_SECRET_ENV = 'EWELINK_TOKEN_SECRET';
+
+/**
+ * File written with encryption enabled (token files and the device list)
+ */
+export interface EncryptedFile {
+  encrypted: EncryptedData;
+}
+
+/**
+ * Secret for `encryptTokens`, from the environment only
+ * It is never stored in the storage path, so a backup of that directory cannot decrypt the files
+ */
+export function getEncryptionSecret(): string | undefined {
+  return process.env[TOKEN_SECRET_ENV] || undefined;
+}
+
+/**
+ * Whether parsed file content is in the encrypted format
+ */
+export function isEncryptedFile(data: unknown): data is EncryptedFile {
+  return typeof data === 'object' && data !== null && typeof (data as EncryptedFile).encrypted === 'object';
+}
 
 export interface StoredTokens {
   accessToken: string;
   refreshToken: string;
   apiKey: string;
   region: string;
+  /** Account the tokens belong to */
+  username?: string;
+  /** When the access token expires (ms since epoch) */
+  accessTokenExpiresAt?: number;
+  /** When the refresh token expires (ms since epoch) */
+  refreshTokenExpiresAt?: number;
   timestamp: number;
 }
 
+/**
+ * Access token expiry, falling back to 24 hours after saving for files written without one
+ */
+export function getTokenExpiry(tokens: StoredTokens): number {
+  return tokens.accessTokenExpiresAt ?? tokens.timestamp + TOKEN_LIFECYCLE.LEGACY_TTL_MS;
+}
+
 /**
  * Simple file-based token storage for sharing between plugin and UI
+ * Additional accounts get their own file, named after the account username
+ *
+ * With `encrypt` the file is encrypted with AES-256-GCM (`CryptoUtils.encrypt`).
+ * The secret comes from `EWELINK_TOKEN_SECRET` only; without it encrypted files
+ * cannot be read or written. Both formats are read, and a file in the other
+ * format is rewritten when loaded. Without `encrypt` (the UI server), saves
+ * keep the format of the existing file.
  */
 export class TokenStorage {
   private readonly storagePath: string;
+  private readonly encrypt?: boolean;
 
-  constructor(storagePath: string) {
-    this.storagePath = join(storagePath, 'ewelink-tokens.json');
+  constructor(storagePath: string, account?: string, encrypt?: boolean) {
+    const fileName = account
+      ? `ewelink-tokens-${account.toLowerCase().replace(/[^a-z0-9.-]/g, '_')}.json`
+      : 'ewelink-tokens.json';
+    this.storagePath = join(storagePath, fileName);
+    this.encrypt = encrypt;
   }
 
   /**
@@ -29,14 +81,14 @@ export class TokenStorage {
     };
 
     try {
-      writeFileSync(this.storagePath, JSON.stringify(data, null, 2), 'utf8');
+      this.write(data, this.encrypt ?? this.isEncryptedOnDisk());
     } catch (error) {
       console.error('Failed to save tokens:', error);
     }
   }
 
   /**
-   * Load tokens from storage
+   * Load tokens from storage, migrating the file to the configured format
    */
   load(): StoredTokens | null {
     if (!existsSync(this.storagePath)) {
@@ -44,8 +96,14 @@ export class TokenStorage {
     }
 
     try {
-      const data = readFileSync(this.storagePath, 'utf8');
-      return JSON.parse(data) as StoredTokens;
+      const data = JSON.parse(readFileSync(this.storagePath, 'utf8')) as StoredTokens | EncryptedFile;
+      const encrypted = isEncryptedFile(data);
+      const tokens = encrypted ? this.decryptFile(data) : data;
+
+      if (this.encrypt !== undefined && this.encrypt !== encrypted && tokens.accessToken) {
+        this.write(tokens, this.encrypt);
+      }
+      return tokens;
     } catch (error) {
       console.error('Failed to load tokens:', error);
       return null;
@@ -53,18 +111,51 @@ export class TokenStorage {
   }
 
   /**
-   * Check if stored tokens are still valid (not older than 24 hours)
+   * Check if the stored access token has not expired
    */
   isValid(): boolean {
     const tokens = this.load();
-    if (!tokens) {
+    if (!tokens?.accessToken) {
       return false;
     }
 
-    const age = Date.now() - tokens.timestamp;
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
+    return Date.now() < getTokenExpiry(tokens);
+  }
+
+  /**
+   * Take the refresh lock shared by the plugin and UI processes
+   * A lock older than `TOKEN_LIFECYCLE.LOCK_STALE_MS` was left by a crashed process and is taken over
+   * @returns Whether the lock was taken
+   */
+  lock(): boolean {
+    const lockPath = `${this.storagePath}.lock`;
+
+    try {
+      closeSync(openSync(lockPath, 'wx'));
+      return true;
+    } catch {
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > TOKEN_LIFECYCLE.LOCK_STALE_MS) {
+          unlinkSync(lockPath);
+          closeSync(openSync(lockPath, 'wx'));
+          return true;
+        }
+      } catch {
+        // Released or taken over by the other process in the meantime
+      }
+      return false;
+    }
+  }
 
-    return age < maxAge;
+  /**
+   * Release the refresh lock
+   */
+  unlock(): void {
+    try {
+      unlinkSync(`${this.storagePath}.lock`);
+    } catch {
+      // Already released
+    }
   }
 
   /**
@@ -79,4 +170,44 @@ export class TokenStorage {
       console.error('Failed to clear tokens:', error);
     }
   }
+
+  /**
+   * Write tokens as plain or encrypted JSON
+   */
+  private write(tokens: StoredTokens, encrypt: boolean): void {
+    const content: StoredTokens | EncryptedFile = encrypt
+      ? { encrypted: CryptoUtils.encrypt(JSON.stringify(tokens), this.getSecret()) }
+      : tokens;
+
+    writeFileSync(this.storagePath, JSON.stringify(content, null, 2), 'utf8');
+  }
+
+  /**
+   * Decrypt an encrypted token file
+   */
+  private decryptFile(file: EncryptedFile): StoredTokens {
+    return JSON.parse(CryptoUtils.decrypt(file.encrypted, this.getSecret())) as StoredTokens;
+  }
+
+  /**
+   * Encryption secret from the environment
+   */
+  private getSecret(): string {
+    const secret = getEncryptionSecret();
+    if (!secret) {
+      throw new Error(`${TOKEN_SECRET_ENV} is not set, ${this.storagePath} cannot be encrypted or decrypted`);
+    }
+    return secret;
+  }
+
+  /**
+   * Whether the current file is encrypted
+   */
+  private isEncryptedOnDisk(): boolean {
+    try {
+      return existsSync(this.storagePath) && isEncryptedFile(JSON.parse(readFileSync(this.storagePath, 'utf8')));
+    } catch {
+      return false;
+    }
+  }
 }
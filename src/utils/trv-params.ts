@@ -0,0 +1,102 @@
+import type { DeviceParams } from '../types/index.js';
+import type { DeviceParamsDef } from '../constants/device-catalog.js';
+import { clamp } from './number-utils.js';
+
+/**
+ * Catalog `trv` definition of a radiator valve
+ */
+export type TrvParams = NonNullable<DeviceParamsDef['trv']>;
+
+/**
+ * Heating mode shown in HomeKit: off, manual target (heat) or the valve's schedule (auto)
+ */
+export type TrvMode = 'off' | 'heat' | 'auto';
+
+/**
+ * Read a temperature param in Celsius
+ * @param fallback - Returned when the param is missing or not a number
+ */
+export function readTrvTemperature(params: DeviceParams, trv: TrvParams, param: string, fallback: number): number {
+  const raw = parseFloat(String(params[param]));
+  return Number.isFinite(raw) ? raw / trv.tempDivisor : fallback;
+}
+
+/**
+ * Active target temperature in Celsius, clamped to the valve's range
+ */
+export function getTrvTargetTemperature(params: DeviceParams, trv: TrvParams, fallback: number): number {
+  return clamp(readTrvTemperature(params, trv, trv.targetTemp, fallback), trv.minTemp, trv.maxTemp);
+}
+
+/**
+ * Map power and work mode to a heating mode
+ */
+export function getTrvMode(params: DeviceParams, trv: TrvParams): TrvMode {
+  if (params[trv.power] === 'off') {
+    return 'off';
+  }
+  return String(params[trv.mode.param]) === trv.mode.auto ? 'auto' : 'heat';
+}
+
+/**
+ * Params that select a heating mode
+ */
+export function buildTrvModeParams(trv: TrvParams, mode: TrvMode): DeviceParams {
+  if (mode === 'off') {
+    return { [trv.power]: 'off' };
+  }
+  return {
+    [trv.power]: 'on',
+    [trv.mode.param]: mode === 'auto' ? trv.mode.auto : trv.mode.manual,
+  };
+}
+
+/**
+ * Params that set the target temperature
+ * The valve keeps separate targets per mode, so a new target switches it to manual.
+ * @returns `command` to send, and `state` with the reported target param as the
+ * valve will report it once the command is applied
+ */
+export function buildTrvTargetParams(
+  params: DeviceParams,
+  trv: TrvParams,
+  celsius: number,
+): { command: DeviceParams; state: DeviceParams; celsius: number } {
+  const target = clamp(celsius, trv.minTemp, trv.maxTemp);
+  const raw = Math.round(target * trv.tempDivisor);
+
+  const command: DeviceParams = { [trv.setTargetTemp]: raw };
+  if (getTrvMode(params, trv) === 'auto') {
+    command[trv.mode.param] = trv.mode.manual;
+  }
+
+  return { command, state: { ...command, [trv.targetTemp]: raw }, celsius: target };
+}
+
+/**
+ * Valve opening in %, if the device reports it
+ */
+export function getTrvValvePosition(params: DeviceParams, trv: TrvParams): number | undefined {
+  if (!trv.valvePosition) {
+    return undefined;
+  }
+  const raw = parseFloat(String(params[trv.valvePosition]));
+  return Number.isFinite(raw) ? clamp(Math.round(raw), 0, 100) : undefined;
+}
+
+/**
+ * Heating while switched on and the valve is open; without a valve position,
+ * while the room is below the target
+ * @param currentTemp - Measured temperature in Celsius, after any offset
+ */
+export function isTrvHeating(params: DeviceParams, trv: TrvParams, currentTemp: number, fallbackTarget: number): boolean {
+  if (params[trv.power] === 'off') {
+    return false;
+  }
+
+  const valve = getTrvValvePosition(params, trv);
+  if (valve !== undefined) {
+    return valve > 0;
+  }
+  return currentTemp < getTrvTargetTemperature(params, trv, fallbackTarget);
+}
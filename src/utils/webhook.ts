@@ -0,0 +1,43 @@
+import axios from 'axios';
+import { WEBHOOK } from '../constants/network-constants.js';
+import { sleep } from './sleep.js';
+
+/**
+ * Webhook delivery options
+ */
+export interface WebhookOptions {
+  /** Per-attempt timeout in milliseconds */
+  timeout?: number;
+  /** Total number of attempts before giving up */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further retry */
+  retryDelay?: number;
+}
+
+/**
+ * POST a JSON payload to a webhook URL, retrying on failure
+ * @param url Webhook URL
+ * @param payload JSON body
+ * @param options Timeout and retry settings
+ * @throws The last error once all attempts have failed
+ */
+export async function sendWebhook(url: string, payload: Record<string, unknown>, options: WebhookOptions = {}): Promise<void> {
+  const timeout = options.timeout ?? WEBHOOK.TIMEOUT_MS;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? WEBHOOK.MAX_ATTEMPTS);
+  const retryDelay = options.retryDelay ?? WEBHOOK.RETRY_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await axios.post(url, payload, {
+        timeout,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      return;
+    } catch (error) {
+      if (attempt >= maxAttempts) {
+        throw error;
+      }
+      await sleep(retryDelay * 2 ** (attempt - 1));
+    }
+  }
+}
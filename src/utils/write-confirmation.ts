@@ -0,0 +1,234 @@
+import type { DeviceParams } from '../types/index.js';
+
+/**
+ * Options for a write confirmation tracker
+ */
+export interface WriteConfirmationOptions {
+  /** How long a device has to report a written value, in milliseconds */
+  timeoutMs: number;
+  /** Ask the device for its state before giving up (e.g. a WebSocket query) */
+  verify?: () => Promise<unknown>;
+  /**
+   * Called with the written params the device did not confirm and the last
+   * values it did report for them (keys it never reported are left out)
+   */
+  onUnconfirmed: (expected: DeviceParams, confirmed: DeviceParams) => void;
+}
+
+/**
+ * Written value waiting for the device to report it
+ */
+interface PendingValue {
+  expected: unknown;
+  /** Last value the device reported, restored if the write is not confirmed */
+  confirmed: unknown;
+  /** Write that set `expected`, so a newer write restarts the wait */
+  writeId: number;
+}
+
+/**
+ * Tracks HomeKit writes until the device reports the written values
+ *
+ * Values are tracked per param key, and `switches` per outlet, so an update
+ * confirms the parts it carries. An update with a different value (e.g. a
+ * dimmer ramping up) becomes the value to roll back to. Values equal to the
+ * current state are not tracked, since devices only report changes.
+ */
+export class WriteConfirmation {
+  private readonly options: WriteConfirmationOptions;
+  private readonly pending: Map<string, PendingValue> = new Map();
+  private lastWriteId = 0;
+
+  constructor(options: WriteConfirmationOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Number of values waiting for confirmation
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Start waiting for a write
+   * Call before sending, since the device can report the change before the command returns
+   * @param sent - Params sent to the device
+   * @param current - Device params before the write
+   * @returns ID to pass to `cancel()` if the command fails
+   */
+  track(sent: DeviceParams, current: DeviceParams): number {
+    const writeId = ++this.lastWriteId;
+    const currentValues = flattenParams(current);
+    let tracked = false;
+
+    for (const [key, expected] of flattenParams(sent)) {
+      const existing = this.pending.get(key);
+      const confirmed = existing ? existing.confirmed : currentValues.get(key);
+      if (!existing && valuesMatch(expected, confirmed)) {
+        continue;
+      }
+
+      this.pending.set(key, { expected, confirmed, writeId });
+      tracked = true;
+    }
+
+    if (tracked) {
+      setTimeout(() => void this.expire(writeId), this.options.timeoutMs);
+    }
+
+    return writeId;
+  }
+
+  /**
+   * Stop waiting for a write that failed to send
+   */
+  cancel(writeId: number): void {
+    for (const [key, entry] of this.pending) {
+      if (entry.writeId === writeId) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Stop waiting for all writes, e.g. when the handler is replaced
+   */
+  clear(): void {
+    this.pending.clear();
+  }
+
+  /**
+   * Check a device update against the pending values
+   */
+  confirm(params: DeviceParams): void {
+    for (const [key, value] of flattenParams(params)) {
+      const entry = this.pending.get(key);
+      if (!entry) {
+        continue;
+      }
+
+      if (valuesMatch(entry.expected, value)) {
+        this.pending.delete(key);
+      } else {
+        entry.confirmed = value;
+      }
+    }
+  }
+
+  /**
+   * Give up on the values of a write that are still pending
+   */
+  private async expire(writeId: number): Promise<void> {
+    if (!this.hasPending(writeId)) {
+      return;
+    }
+
+    if (this.options.verify) {
+      try {
+        await this.options.verify();
+      } catch {
+        // The rollback below still applies
+      }
+    }
+
+    const expected = new Map<string, unknown>();
+    const confirmed = new Map<string, unknown>();
+    for (const [key, entry] of this.pending) {
+      if (entry.writeId !== writeId) {
+        continue;
+      }
+
+      this.pending.delete(key);
+      expected.set(key, entry.expected);
+      if (entry.confirmed !== undefined) {
+        confirmed.set(key, entry.confirmed);
+      }
+    }
+
+    if (expected.size > 0) {
+      this.options.onUnconfirmed(unflattenParams(expected), unflattenParams(confirmed));
+    }
+  }
+
+  /**
+   * Whether any value of a write is still pending
+   */
+  private hasPending(writeId: number): boolean {
+    return [...this.pending.values()].some(entry => entry.writeId === writeId);
+  }
+}
+
+/**
+ * Split params into tracked values, with one `switches:<outlet>` entry per outlet
+ */
+function flattenParams(params: DeviceParams): Map<string, unknown> {
+  const values = new Map<string, unknown>();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (key === 'switches' && Array.isArray(value)) {
+      for (const entry of value as NonNullable<DeviceParams['switches']>) {
+        values.set(`switches:${entry.outlet}`, entry.switch);
+      }
+    } else if (value !== undefined) {
+      values.set(key, value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Rebuild params from tracked values
+ */
+function unflattenParams(values: Map<string, unknown>): DeviceParams {
+  const params: DeviceParams = {};
+  const switches: NonNullable<DeviceParams['switches']> = [];
+
+  for (const [key, value] of values) {
+    if (key.startsWith('switches:')) {
+      switches.push({ outlet: Number(key.slice('switches:'.length)), switch: value as 'on' | 'off' });
+    } else {
+      params[key] = value;
+    }
+  }
+
+  if (switches.length > 0) {
+    params.switches = switches.sort((a, b) => a.outlet - b.outlet);
+  }
+
+  return params;
+}
+
+/**
+ * Whether a reported value matches a written one
+ * Objects match when every written key matches; `on`/`off` match `true`/`false`
+ */
+function valuesMatch(expected: unknown, actual: unknown): boolean {
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object') {
+      return false;
+    }
+    if (Array.isArray(expected)) {
+      return Array.isArray(actual) && expected.length === actual.length &&
+        expected.every((value, index) => valuesMatch(value, actual[index]));
+    }
+    return Object.entries(expected).every(([key, value]) =>
+      valuesMatch(value, (actual as Record<string, unknown>)[key]));
+  }
+
+  return normalizeValue(expected) === normalizeValue(actual);
+}
+
+/**
+ * Compare switch strings, booleans and numeric strings alike
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === 'on' || value === true) {
+    return 'on';
+  }
+  if (value === 'off' || value === false) {
+    return 'off';
+  }
+  return typeof value === 'number' ? String(value) : value;
+}
@@ -7,6 +7,7 @@ import type {
   Characteristic,
   HAP,
 } from 'homebridge';
+import { PluginMetrics } from '../../src/utils/plugin-metrics.js';
 
 /**
  * Create a mock Logging instance
@@ -205,6 +206,9 @@ export function createMockPlatform(configOverrides: Record<string, unknown> = {}
     deviceCache: new Map(),
     sendDeviceCommand: vi.fn().mockResolvedValue(true),
     handleDeviceUpdate: vi.fn(),
+    handleCloudStateChange: vi.fn(),
     getDeviceDisplayName: vi.fn((id: string) => `Device ${id}`),
+    getCommandQueueStats: vi.fn().mockReturnValue({ queueSize: 0, activeCount: 0 }),
+    metrics: new PluginMetrics(),
   };
 }
@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createMockPlatform } from '../__mocks__/homebridge.js';
+import { createMockDevice } from '../__mocks__/ewelink-device.js';
+import { ApiServer } from '../../src/api/api-server.js';
+
+const TOKEN = 'secret-token';
+
+describe('ApiServer', () => {
+  let server: ApiServer;
+  let mockPlatform: ReturnType<typeof createMockPlatform> & { lanControl?: unknown };
+  let baseUrl: string;
+
+  const request = async (path: string, init: RequestInit = {}, token: string | null = TOKEN) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    mockPlatform = createMockPlatform({ apiPort: 0, apiToken: TOKEN });
+
+    mockPlatform.deviceCache.set('1000aaaaaa', createMockDevice({
+      deviceid: '1000aaaaaa',
+      name: 'Kitchen',
+      params: { switch: 'off' },
+    }));
+    mockPlatform.deviceCache.set('1000bbbbbb', createMockDevice({
+      deviceid: '1000bbbbbb',
+      name: 'Hallway',
+      extra: { uiid: 2, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' },
+      params: {
+        switches: [
+          { outlet: 0, switch: 'off' },
+          { outlet: 1, switch: 'on' },
+          { outlet: 2, switch: 'off' },
+        ],
+      },
+    }));
+    mockPlatform.deviceCache.set('1000cccccc', createMockDevice({
+      deviceid: '1000cccccc',
+      name: 'Garage',
+      online: false,
+    }));
+
+    server = new ApiServer(mockPlatform as any);
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getPort()}`;
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  describe('start', () => {
+    it('should not start without an apiToken', async () => {
+      const platform = createMockPlatform({ apiPort: 0 });
+      const tokenless = new ApiServer(platform as any);
+
+      await tokenless.start();
+
+      expect(tokenless.getPort()).toBeUndefined();
+      expect(platform.log.warn).toHaveBeenCalledWith(expect.stringContaining('apiToken'));
+    });
+
+    it('should not start without an apiPort', async () => {
+      const platform = createMockPlatform({ apiToken: TOKEN });
+      const portless = new ApiServer(platform as any);
+
+      await portless.start();
+
+      expect(portless.getPort()).toBeUndefined();
+    });
+  });
+
+  describe('authentication', () => {
+    it('should reject requests without a token', async () => {
+      const { status, body } = await request('/devices', {}, null);
+
+      expect(status).toBe(401);
+      expect(body).toEqual({ success: false, error: 'Unauthorized' });
+    });
+
+    it('should reject requests with a wrong token', async () => {
+      const { status } = await request('/devices', {}, 'wrong-token');
+
+      expect(status).toBe(401);
+    });
+  });
+
+  describe('GET /devices', () => {
+    it('should list cached devices', async () => {
+      const { status, body } = await request('/devices');
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.devices).toHaveLength(3);
+      expect(body.devices[1]).toMatchObject({
+        deviceId: '1000bbbbbb',
+        name: 'Hallway',
+        uiid: 2,
+        channels: 2,
+        online: true,
+        reachableLAN: false,
+      });
+    });
+
+    it('should return 404 for unknown routes', async () => {
+      const { status } = await request('/unknown');
+
+      expect(status).toBe(404);
+    });
+
+    it('should return 400 for malformed percent-encoding', async () => {
+      const { status, body } = await request('/devices/%E0%A4%A');
+
+      expect(status).toBe(400);
+      expect(body.error).toBe('Malformed URL encoding');
+    });
+  });
+
+  describe('GET /devices/:id', () => {
+    it('should return device params', async () => {
+      const { status, body } = await request('/devices/1000aaaaaa');
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        success: true,
+        deviceId: '1000aaaaaa',
+        name: 'Kitchen',
+        params: { switch: 'off' },
+      });
+    });
+
+    it('should return channel state for SW addresses', async () => {
+      const { body } = await request('/devices/1000bbbbbbSW1');
+
+      expect(body.deviceId).toBe('1000bbbbbbSW1');
+      expect(body.switch).toBe('on');
+    });
+
+    it('should return 404 for unknown devices', async () => {
+      const { status, body } = await request('/devices/1000ffffff');
+
+      expect(status).toBe(404);
+      expect(body.success).toBe(false);
+      expect(body.error).toContain('1000ffffff');
+    });
+
+    it('should return 404 for channels beyond the device channel count', async () => {
+      const { status } = await request('/devices/1000bbbbbbSW5');
+
+      expect(status).toBe(404);
+    });
+  });
+
+  describe('POST /devices/:id', () => {
+    it('should send params through the platform', async () => {
+      const { status, body } = await request('/devices/1000aaaaaa', {
+        method: 'POST',
+        body: JSON.stringify({ switch: 'on' }),
+      });
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(mockPlatform.sendDeviceCommand).toHaveBeenCalledWith('1000aaaaaa', { switch: 'on' });
+    });
+
+    it('should translate switch into switches for a channel', async () => {
+      await request('/devices/1000bbbbbbSW2', {
+        method: 'POST',
+        body: JSON.stringify({ switch: 'on' }),
+      });
+
+      expect(mockPlatform.sendDeviceCommand).toHaveBeenCalledWith('1000bbbbbbSW2', {
+        switches: [
+          { outlet: 0, switch: 'off' },
+          { outlet: 1, switch: 'on' },
+          { outlet: 2, switch: 'on' },
+        ],
+      });
+    });
+
+    it('should switch every channel for SW0', async () => {
+      await request('/devices/1000bbbbbbSW0', {
+        method: 'POST',
+        body: JSON.stringify({ switch: 'off' }),
+      });
+
+      const [, params] = vi.mocked(mockPlatform.sendDeviceCommand).mock.calls[0];
+      expect(params.switches.every((s: { switch: string }) => s.switch === 'off')).toBe(true);
+    });
+
+    it('should return 503 for offline devices', async () => {
+      const { status, body } = await request('/devices/1000cccccc', {
+        method: 'POST',
+        body: JSON.stringify({ switch: 'on' }),
+      });
+
+      expect(status).toBe(503);
+      expect(body.error).toContain('offline');
+      expect(mockPlatform.sendDeviceCommand).not.toHaveBeenCalled();
+    });
+
+    it('should allow offline devices that are reachable on LAN', async () => {
+      mockPlatform.lanControl = { isDeviceAvailable: vi.fn().mockReturnValue(true) };
+
+      const { status } = await request('/devices/1000cccccc', {
+        method: 'POST',
+        body: JSON.stringify({ switch: 'on' }),
+      });
+
+      expect(status).toBe(200);
+    });
+
+    it('should return 400 for invalid JSON', async () => {
+      const { status, body } = await request('/devices/1000aaaaaa', {
+        method: 'POST',
+        body: '{not json',
+      });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe('Invalid JSON body');
+    });
+
+    it('should return 413 and close the connection for an oversized body', async () => {
+      const response = await fetch(`${baseUrl}/devices/1000aaaaaa`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({ switch: 'on', padding: 'x'.repeat(100000) }),
+      });
+
+      expect(response.status).toBe(413);
+      expect(response.headers.get('connection')).toBe('close');
+      expect((await response.json()).error).toBe('Request body too large');
+      expect(mockPlatform.sendDeviceCommand).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an empty body', async () => {
+      const { status } = await request('/devices/1000aaaaaa', { method: 'POST', body: '{}' });
+
+      expect(status).toBe(400);
+    });
+
+    it('should return 502 when the command fails', async () => {
+      mockPlatform.sendDeviceCommand.mockResolvedValueOnce(false);
+
+      const { status, body } = await request('/devices/1000aaaaaa', {
+        method: 'POST',
+        body: JSON.stringify({ switch: 'on' }),
+      });
+
+      expect(status).toBe(502);
+      expect(body.success).toBe(false);
+    });
+
+    it('should return 405 for unsupported methods', async () => {
+      const { status } = await request('/devices/1000aaaaaa', { method: 'DELETE' });
+
+      expect(status).toBe(405);
+    });
+  });
+});
@@ -1,18 +1,27 @@
 import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import axios from 'axios';
+import { createHmac } from 'crypto';
 import { EWeLinkAPI } from '../../src/api/ewelink-api.js';
 import { createMockPlatform } from '../__mocks__/homebridge.js';
 
 // Mock axios
 vi.mock('axios');
 
-// Mock token storage
+// Mock token storage, keeping the latest instance
+const tokenStorage = vi.hoisted(() => ({ instance: null as any, args: [] as unknown[] }));
 vi.mock('../../src/utils/token-storage.js', () => ({
   TokenStorage: class MockTokenStorage {
     save = vi.fn();
     load = vi.fn().mockReturnValue(null);
     isValid = vi.fn().mockReturnValue(false);
+    lock = vi.fn().mockReturnValue(true);
+    unlock = vi.fn();
+    constructor(...args: unknown[]) {
+      tokenStorage.instance = this;
+      tokenStorage.args = args;
+    }
   },
+  getTokenExpiry: (tokens: { accessTokenExpiresAt: number }) => tokens.accessTokenExpiresAt,
 }));
 
 // Mock crypto utils
@@ -71,9 +80,42 @@ describe('EWeLinkAPI', () => {
       );
     });
 
+    it('should resolve the same token file for the settings UI and the platform', () => {
+      const platformArgs = tokenStorage.args;
+
+      // Stand-in platform built by the UI server's createApi()
+      new EWeLinkAPI({
+        log: console,
+        config: { username: 'test@example.com', countryCode: '1' },
+        api: { user: { storagePath: () => '/tmp/test' } },
+      } as any);
+
+      expect(platformArgs[0]).toBe('/tmp/test');
+      expect(tokenStorage.args).toEqual(platformArgs);
+    });
+
     it('should set up response interceptor', () => {
       expect(mockAxiosInstance.interceptors.response.use).toHaveBeenCalled();
     });
+
+    it('should count API error codes and failed requests', async () => {
+      const [onResponse, onError] = mockAxiosInstance.interceptors.response.use.mock.calls[0];
+
+      onResponse({ data: { error: 0 } });
+      onResponse({ data: { error: 406 } });
+      await expect(onError({ config: {}, response: { status: 500 } })).rejects.toBeDefined();
+
+      expect(mockPlatform.metrics.getSnapshot().apiErrors).toEqual({ http: 1, api: 1 });
+    });
+
+    it('should pass errors through without a metrics collector (UI server)', async () => {
+      mockAxiosInstance.interceptors.response.use.mockClear();
+      new EWeLinkAPI({ log: console, config: { countryCode: '1' }, api: { user: { storagePath: () => '/tmp/test' } } } as any);
+      const [onResponse, onError] = mockAxiosInstance.interceptors.response.use.mock.calls[0];
+
+      expect(onResponse({ data: { error: 406 } })).toEqual({ data: { error: 406 } });
+      await expect(onError({ config: {}, response: { status: 500 } })).rejects.toMatchObject({ response: { status: 500 } });
+    });
   });
 
   describe('login', () => {
@@ -96,6 +138,66 @@ describe('EWeLinkAPI', () => {
       expect(api.apiKey).toBe('api-key-123');
     });
 
+    it('should log in with the credentials of an additional account', async () => {
+      mockAxiosInstance.post.mockResolvedValueOnce({
+        data: { error: 0, data: { at: 'at', rt: 'rt', user: { apikey: 'second-api-key' } } },
+      });
+
+      const accountApi = new EWeLinkAPI(mockPlatform as any, {
+        username: '+447700900000',
+        password: 'second-password',
+        countryCode: '+44',
+        label: 'Second home',
+      });
+      await accountApi.login();
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/v2/user/login',
+        { countryCode: '+44', password: 'second-password', phoneNumber: '+447700900000' },
+        expect.any(Object),
+      );
+      expect(accountApi.region).toBe('eu');
+      expect(accountApi.getApiKey()).toBe('second-api-key');
+      expect(mockPlatform.log.info).toHaveBeenCalledWith('✓ Successfully logged in to eWeLink (Second home)');
+    });
+
+    it('should sign requests with the configured developer app', async () => {
+      const appPlatform = createMockPlatform({
+        username: 'test@example.com',
+        password: 'testpassword',
+        appId: 'custom-app-id',
+        appSecret: 'custom-app-secret',
+      });
+      (appPlatform.api!.user as { storagePath: () => string }).storagePath = () => '/tmp/test';
+      mockAxiosInstance.post.mockResolvedValueOnce({
+        data: { error: 0, data: { at: 'at', rt: 'rt', user: { apikey: 'key' } } },
+      });
+
+      const appApi = new EWeLinkAPI(appPlatform as any);
+      await appApi.login();
+
+      const signature = createHmac('sha256', 'custom-app-secret')
+        .update(JSON.stringify({ countryCode: '1', password: 'testpassword', email: 'test@example.com' }))
+        .digest('base64');
+      expect(axios.create).toHaveBeenLastCalledWith(expect.objectContaining({
+        headers: expect.objectContaining({ 'X-CK-Appid': 'custom-app-id' }),
+      }));
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/v2/user/login', expect.any(Object), {
+        headers: { 'X-CK-Nonce': 'test-nonce-123', 'Authorization': `Sign ${signature}` },
+      });
+      expect(appApi.getAppId()).toBe('custom-app-id');
+    });
+
+    it('should require a saved session when no password is configured', async () => {
+      const oauthPlatform = createMockPlatform({ password: '', appId: 'custom-app-id', appSecret: 'custom-app-secret' });
+      (oauthPlatform.api!.user as { storagePath: () => string }).storagePath = () => '/tmp/test';
+
+      const oauthApi = new EWeLinkAPI(oauthPlatform as any);
+
+      await expect(oauthApi.authenticate()).rejects.toThrow('No saved eWeLink session');
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+
     it('should throw error when credentials are missing', async () => {
       const platformNoCredentials = createMockPlatform({
         username: '',
@@ -289,6 +391,71 @@ describe('EWeLinkAPI', () => {
       expect(result.devices).toHaveLength(0);
       expect(result.groups).toHaveLength(0);
     });
+
+    it('should skip homes listed in ignoredHomes', async () => {
+      mockPlatform.config.ignoredHomes = ['home-2'];
+
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          error: 0,
+          data: {
+            familyList: [{ id: 'home-1', name: 'Home' }, { id: 'home-2', name: 'Holiday House' }],
+          },
+        },
+      });
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          error: 0,
+          data: {
+            thingList: [
+              { itemType: 1, itemData: { deviceid: 'device-1', name: 'Switch', extra: { uiid: 1 } } },
+              { itemType: 3, itemData: { id: 'group-1', name: 'Lights' } },
+            ],
+          },
+        },
+      });
+
+      const result = await api.getDevices();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/v2/device/thing', {
+        params: { num: 0, familyid: 'home-1' },
+      });
+      expect(result.devices.map(d => d.deviceid)).toEqual(['device-1']);
+      expect(result.groups).toHaveLength(1);
+      expect(mockPlatform.log.info).toHaveBeenCalledWith('Skipping ignored home: Holiday House [home-2]');
+    });
+
+    it('should tag devices with their home and return the home list', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          error: 0,
+          data: {
+            familyList: [{ id: 'home-1', name: 'Home' }],
+          },
+        },
+      });
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          error: 0,
+          data: {
+            thingList: [
+              { itemType: 1, itemData: { deviceid: 'device-1', name: 'Switch', extra: { uiid: 1 } } },
+              {
+                itemType: 1,
+                itemData: { deviceid: 'device-2', name: 'Light', extra: { uiid: 22 }, family: { familyid: 'home-1', index: 3 } },
+              },
+            ],
+          },
+        },
+      });
+
+      const result = await api.getDevices();
+
+      expect(result.homes).toEqual([{ id: 'home-1', name: 'Home' }]);
+      expect(result.devices[0].family).toEqual({ familyid: 'home-1', index: 0 });
+      expect(result.devices[1].family).toEqual({ familyid: 'home-1', index: 3 });
+    });
   });
 
   describe('updateDevice', () => {
@@ -644,6 +811,152 @@ describe('EWeLinkAPI', () => {
     });
   });
 
+  describe('token lifecycle', () => {
+    const loginResponse = {
+      data: {
+        error: 0,
+        data: { at: 'access-token-123', rt: 'refresh-token-123', user: { apikey: 'api-key-123' } },
+      },
+    };
+    const storedSession = (expiresInMs: number) => ({
+      accessToken: 'stored-access',
+      refreshToken: 'stored-refresh',
+      apiKey: 'stored-key',
+      region: 'eu',
+      username: 'test@example.com',
+      accessTokenExpiresAt: Date.now() + expiresInMs,
+      timestamp: Date.now(),
+    });
+
+    it('should save the tokens with their expiry on login', async () => {
+      mockAxiosInstance.post.mockResolvedValueOnce(loginResponse);
+
+      await api.login();
+
+      expect(tokenStorage.instance.save).toHaveBeenCalledWith(expect.objectContaining({
+        accessToken: 'access-token-123',
+        refreshToken: 'refresh-token-123',
+        username: 'test@example.com',
+        accessTokenExpiresAt: expect.any(Number),
+        refreshTokenExpiresAt: expect.any(Number),
+      }));
+    });
+
+    it('should resume a stored session instead of logging in', async () => {
+      tokenStorage.instance.load.mockReturnValue(storedSession(20 * 24 * 60 * 60 * 1000));
+
+      await api.authenticate();
+      api.stopTokenRenewal();
+
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+      expect(api.accessToken).toBe('stored-access');
+      expect(api.getHttpHost()).toBe('eu-apia.coolkit.cc');
+      expect(mockAxiosInstance.defaults.headers.common.Authorization).toBe('Bearer stored-access');
+    });
+
+    it('should log in when the stored session belongs to another account', async () => {
+      tokenStorage.instance.load.mockReturnValue({ ...storedSession(20 * 24 * 60 * 60 * 1000), username: 'other@example.com' });
+      mockAxiosInstance.post.mockResolvedValueOnce(loginResponse);
+
+      await api.authenticate();
+      api.stopTokenRenewal();
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/v2/user/login', expect.anything(), expect.anything());
+      expect(api.accessToken).toBe('access-token-123');
+    });
+
+    it('should renew a resumed session that expires soon and persist the new tokens', async () => {
+      tokenStorage.instance.load.mockReturnValue(storedSession(60 * 60 * 1000));
+      mockAxiosInstance.post.mockResolvedValueOnce({ data: { error: 0, data: { at: 'new-access', rt: 'new-refresh' } } });
+
+      await api.authenticate();
+      api.stopTokenRenewal();
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/v2/user/refresh', { rt: 'stored-refresh' });
+      expect(api.accessToken).toBe('new-access');
+      expect(tokenStorage.instance.save).toHaveBeenCalledWith(expect.objectContaining({
+        accessToken: 'new-access',
+        refreshToken: 'new-refresh',
+        apiKey: 'stored-key',
+      }));
+      expect(tokenStorage.instance.unlock).toHaveBeenCalled();
+    });
+
+    describe('expired access token', () => {
+      let request: Mock;
+
+      beforeEach(async () => {
+        request = vi.fn().mockResolvedValue({ data: { error: 0 } });
+        (axios.create as Mock).mockReturnValue(Object.assign(request, mockAxiosInstance));
+        api = new EWeLinkAPI(mockPlatform as any);
+
+        mockAxiosInstance.post.mockResolvedValueOnce(loginResponse);
+        await api.login();
+        mockAxiosInstance.post.mockClear();
+      });
+
+      const interceptors = () => mockAxiosInstance.interceptors.response.use.mock.calls.at(-1)!;
+
+      it('should refresh, persist and retry on HTTP 401', async () => {
+        mockAxiosInstance.post.mockResolvedValueOnce({ data: { error: 0, data: { at: 'new-access', rt: 'new-refresh' } } });
+        const [, onError] = interceptors();
+
+        await onError({ config: { url: '/v2/device/thing', headers: {} }, response: { status: 401 } });
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith('/v2/user/refresh', { rt: 'refresh-token-123' });
+        expect(tokenStorage.instance.save).toHaveBeenLastCalledWith(expect.objectContaining({ accessToken: 'new-access' }));
+        expect(request).toHaveBeenCalledWith(expect.objectContaining({
+          _retry: true,
+          headers: { Authorization: 'Bearer new-access' },
+        }));
+      });
+
+      it('should refresh and retry on error 401 in the response body', async () => {
+        mockAxiosInstance.post.mockResolvedValueOnce({ data: { error: 0, data: { at: 'new-access', rt: 'new-refresh' } } });
+        const [onResponse] = interceptors();
+
+        await onResponse({ data: { error: 401 }, config: { url: '/v2/family', headers: {} } });
+
+        expect(request).toHaveBeenCalledWith(expect.objectContaining({ url: '/v2/family' }));
+        expect(api.refreshToken).toBe('new-refresh');
+      });
+
+      it('should log in again when the refresh token is rejected', async () => {
+        mockAxiosInstance.post
+          .mockResolvedValueOnce({ data: { error: 401, msg: 'token expired' } })
+          .mockResolvedValueOnce({ data: { ...loginResponse.data, data: { ...loginResponse.data.data, at: 'login-access' } } });
+        const [, onError] = interceptors();
+
+        await onError({ config: { url: '/v2/device/thing', headers: {} }, response: { status: 401 } });
+
+        expect(mockAxiosInstance.post).toHaveBeenLastCalledWith('/v2/user/login', expect.anything(), expect.anything());
+        expect(request).toHaveBeenCalledWith(expect.objectContaining({ headers: { Authorization: 'Bearer login-access' } }));
+      });
+
+      it('should adopt tokens rotated by the other process instead of refreshing', async () => {
+        tokenStorage.instance.load.mockReturnValue({
+          ...storedSession(30 * 24 * 60 * 60 * 1000),
+          accessToken: 'ui-access',
+          refreshToken: 'ui-refresh',
+        });
+        const [, onError] = interceptors();
+
+        await onError({ config: { url: '/v2/device/thing', headers: {} }, response: { status: 401 } });
+
+        expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        expect(request).toHaveBeenCalledWith(expect.objectContaining({ headers: { Authorization: 'Bearer ui-access' } }));
+      });
+
+      it('should not retry token requests', async () => {
+        const [, onError] = interceptors();
+        const error = { config: { url: '/v2/user/refresh', headers: {} }, response: { status: 401 } };
+
+        await expect(onError(error)).rejects.toBe(error);
+        expect(request).not.toHaveBeenCalled();
+      });
+    });
+  });
+
   describe('getDevices - groups', () => {
     beforeEach(async () => {
       mockAxiosInstance.post.mockResolvedValueOnce({
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { EWeLinkOAuth } from '../../src/api/ewelink-oauth.js';
+import { OAUTH } from '../../src/constants/api-constants.js';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describe('EWeLinkOAuth', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: StubRequest[];
+  let tokenResponse: Record<string, unknown>;
+  let oauth: EWeLinkOAuth;
+
+  const sign = (data: string) => createHmac('sha256', 'app-secret').update(data).digest('base64');
+
+  // Stands in for the region API host
+  beforeEach(async () => {
+    requests = [];
+    tokenResponse = {
+      error: 0,
+      data: { accessToken: 'oauth-at', refreshToken: 'oauth-rt', atExpiredTime: 1_900_000_000_000, rtExpiredTime: 1_950_000_000_000 },
+    };
+
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        const payload = req.url === '/v2/user/oauth/token'
+          ? tokenResponse
+          : { error: 0, data: { user: { apikey: 'oauth-key', email: 'user@example.com' } } };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    oauth = new EWeLinkOAuth({
+      appId: 'app-id',
+      appSecret: 'app-secret',
+      redirectUrl: 'https://homebridge.local/callback',
+      authorizeUrl: `${baseUrl}/oauth/index.html`,
+      apiBaseUrl: baseUrl,
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('createAuthorization', () => {
+    it('should build a signed sign-in page URL', () => {
+      const { url, state } = oauth.createAuthorization();
+      const params = new URL(url).searchParams;
+
+      expect(url.startsWith(`${baseUrl}/oauth/index.html?`)).toBe(true);
+      expect(params.get('clientId')).toBe('app-id');
+      expect(params.get('redirectUrl')).toBe('https://homebridge.local/callback');
+      expect(params.get('grantType')).toBe('authorization_code');
+      expect(params.get('state')).toBe(state);
+      expect(params.get('authorization')).toBe(sign(`app-id_${params.get('seq')}`));
+    });
+
+    it('should use a new state for every sign-in', () => {
+      expect(oauth.createAuthorization().state).not.toBe(oauth.createAuthorization().state);
+    });
+  });
+
+  describe('completeAuthorization', () => {
+    it('should exchange the code for a session', async () => {
+      const { state } = oauth.createAuthorization();
+
+      const session = await oauth.completeAuthorization(`https://homebridge.local/callback?code=auth-code&region=eu&state=${state}`);
+
+      expect(session).toEqual({
+        accessToken: 'oauth-at',
+        refreshToken: 'oauth-rt',
+        apiKey: 'oauth-key',
+        region: 'eu',
+        username: 'user@example.com',
+        accessTokenExpiresAt: 1_900_000_000_000,
+        refreshTokenExpiresAt: 1_950_000_000_000,
+      });
+
+      const [tokenRequest, profileRequest] = requests;
+      expect(tokenRequest.method).toBe('POST');
+      expect(tokenRequest.url).toBe('/v2/user/oauth/token');
+      expect(JSON.parse(tokenRequest.body)).toEqual({
+        code: 'auth-code',
+        redirectUrl: 'https://homebridge.local/callback',
+        grantType: 'authorization_code',
+      });
+      expect(tokenRequest.headers['x-ck-appid']).toBe('app-id');
+      expect(tokenRequest.headers.authorization).toBe(`Sign ${sign(tokenRequest.body)}`);
+      expect(profileRequest.url).toBe('/v2/user/profile');
+      expect(profileRequest.headers.authorization).toBe('Bearer oauth-at');
+    });
+
+    it('should accept the query string alone', async () => {
+      const { state } = oauth.createAuthorization();
+
+      const session = await oauth.completeAuthorization(`?code=auth-code&region=us&state=${state}`);
+
+      expect(session.region).toBe('us');
+    });
+
+    it('should reject a redirect without a code', async () => {
+      await expect(oauth.completeAuthorization('?error=access_denied')).rejects.toThrow('does not contain an authorization code');
+    });
+
+    it('should reject an unknown state', async () => {
+      oauth.createAuthorization();
+
+      await expect(oauth.completeAuthorization('?code=auth-code&region=eu&state=forged')).rejects.toThrow('Unknown or expired sign-in');
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should reject a state that was already used', async () => {
+      const { state } = oauth.createAuthorization();
+      await oauth.completeAuthorization(`?code=auth-code&region=eu&state=${state}`);
+
+      await expect(oauth.completeAuthorization(`?code=auth-code&region=eu&state=${state}`)).rejects.toThrow('Unknown or expired sign-in');
+    });
+
+    it('should reject an expired state', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const { state } = oauth.createAuthorization();
+      vi.setSystemTime(Date.now() + OAUTH.STATE_TTL_MS + 1);
+
+      await expect(oauth.completeAuthorization(`?code=auth-code&region=eu&state=${state}`)).rejects.toThrow('Unknown or expired sign-in');
+    });
+
+    it('should reject an unknown region', async () => {
+      const { state } = oauth.createAuthorization();
+
+      await expect(oauth.completeAuthorization(`?code=auth-code&region=mars&state=${state}`)).rejects.toThrow('Unknown region received: mars');
+    });
+
+    it('should surface a failed code exchange', async () => {
+      tokenResponse = { error: 10014, msg: 'code expired' };
+      const { state } = oauth.createAuthorization();
+
+      await expect(oauth.completeAuthorization(`?code=auth-code&region=eu&state=${state}`)).rejects.toThrow('Code exchange failed: code expired');
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
@@ -55,21 +55,36 @@ vi.mock('bonjour-service', () => {
   return { Bonjour: MockBonjour };
 });
 
+// Mock fs so the persisted registry never touches disk
+vi.mock('fs', () => ({
+  writeFileSync: vi.fn(),
+  readFileSync: vi.fn(),
+  existsSync: vi.fn().mockReturnValue(false),
+}));
+
 // Mock fetch globally
 global.fetch = vi.fn();
 
 // Import after mocking
+import * as fs from 'fs';
 import { LANControl } from '../../src/api/lan-control.js';
 
 // Alias for easier access in tests
 const mockState = globalThis.__lanControlMockState;
 
+// Devices written by the last registry save
+const savedDevices = () => {
+  const calls = vi.mocked(fs.writeFileSync).mock.calls;
+  return JSON.parse(calls[calls.length - 1][1] as string).devices;
+};
+
 describe('LANControl', () => {
   let lanControl: LANControl;
   let mockPlatform: ReturnType<typeof createMockPlatform>;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
 
     // Reset mock state between tests
     mockState.udpMessageCallback = null;
@@ -79,10 +94,10 @@ describe('LANControl', () => {
 
     mockPlatform = createMockPlatform();
 
-    // Setup mock ewelinkApi
-    (mockPlatform as any).ewelinkApi = {
-      getApiKey: vi.fn().mockReturnValue('test-api-key'),
-    };
+    // Setup mock account lookup
+    (mockPlatform as any).getDeviceAccount = vi.fn().mockReturnValue({
+      api: { getApiKey: vi.fn().mockReturnValue('test-api-key') },
+    });
 
     // Setup device cache
     mockPlatform.deviceCache.set('test-device', {
@@ -124,13 +139,31 @@ describe('LANControl', () => {
       expect(lanControl.isDeviceAvailable('device-1')).toBe(false);
     });
 
-    it('should not overwrite existing device', () => {
+    it('should follow a new API address', () => {
       lanControl.registerDevice('device-1', '192.168.1.100', 8081, 'device-key', true);
       lanControl.registerDevice('device-1', '192.168.1.200', 8082, 'device-key-2', false);
 
       const device = lanControl.getLanDevice('device-1');
-      expect(device?.ip).toBe('192.168.1.100');
-      expect(device?.port).toBe(8081);
+      expect(device?.ip).toBe('192.168.1.200');
+      expect(device?.port).toBe(8082);
+      expect(mockPlatform.log.info).toHaveBeenCalledWith(
+        expect.stringContaining('IP changed from 192.168.1.100:8081 to 192.168.1.200:8082'),
+      );
+    });
+
+    it('should not overwrite a discovered device', async () => {
+      mockPlatform.deviceCache.set('1001edbf36', { name: 'mDNS Device', devicekey: 'mdns-device-key' } as any);
+      await lanControl.start();
+      mockState.bonjourServiceCallback?.({
+        name: 'eWeLink_1001edbf36',
+        addresses: ['192.168.1.150'],
+        port: 8081,
+        txt: {},
+      });
+
+      lanControl.registerDevice('1001edbf36', '192.168.1.200', 8081, 'mdns-device-key', true);
+
+      expect(lanControl.getLanDevice('1001edbf36')?.ip).toBe('192.168.1.150');
     });
   });
 
@@ -463,11 +496,11 @@ describe('LANControl', () => {
   });
 
   describe('sendCommand - no apiKey', () => {
-    it('should handle missing ewelinkApi', async () => {
+    it('should handle a missing account', async () => {
       lanControl.registerDevice('test-device', '192.168.1.100', 8081, 'device-key', false);
 
-      // Remove ewelinkApi
-      (mockPlatform as any).ewelinkApi = undefined;
+      // No cloud account (LAN-only mode)
+      (mockPlatform as any).getDeviceAccount.mockReturnValue(undefined);
 
       (global.fetch as any).mockResolvedValueOnce({
         json: () => Promise.resolve({ error: 0 }),
@@ -495,6 +528,22 @@ describe('LANControl', () => {
       expect(body.encrypt).toBeUndefined();
       expect(body.data).toEqual({ switch: 'on' });
     });
+
+    it('should use the apikey of the account that owns the device', async () => {
+      lanControl.registerDevice('test-device', '192.168.1.100', 8081, 'device-key', false);
+      (mockPlatform as any).getDeviceAccount.mockImplementation((deviceId: string) => (
+        deviceId === 'test-device' ? { api: { getApiKey: () => 'second-account-key' } } : undefined
+      ));
+
+      (global.fetch as any).mockResolvedValueOnce({
+        json: () => Promise.resolve({ error: 0 }),
+      });
+
+      await lanControl.sendCommand('test-device', { switch: 'on' });
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body.selfApikey).toBe('second-account-key');
+    });
   });
 
   describe('buildPayload - encrypted', () => {
@@ -783,4 +832,296 @@ describe('LANControl', () => {
       expect(mockPlatform.handleDeviceUpdate).not.toHaveBeenCalled();
     });
   });
+
+  describe('persistent registry', () => {
+    const storedRegistry = (devices: object[]) => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ timestamp: 0, devices }));
+    };
+
+    it('should restore devices saved by a previous run', () => {
+      storedRegistry([{ deviceId: 'device-1', ip: '192.168.1.50', port: 8081, encrypt: true, deviceKey: 'key' }]);
+
+      lanControl = new LANControl(mockPlatform as any);
+
+      expect(fs.readFileSync).toHaveBeenCalledWith('/tmp/homebridge/ewelink-lan-devices.json', 'utf8');
+      expect(lanControl.getLanDevice('device-1')?.ip).toBe('192.168.1.50');
+    });
+
+    it('should replace restored addresses with the API address', () => {
+      storedRegistry([{ deviceId: 'device-1', ip: '192.168.1.50', port: 8081, encrypt: true }]);
+      lanControl = new LANControl(mockPlatform as any);
+
+      lanControl.registerDevice('device-1', '192.168.1.60', 8081, 'device-key', true);
+
+      expect(lanControl.getLanDevice('device-1')?.ip).toBe('192.168.1.60');
+    });
+
+    it('should save the registry when a device is registered', () => {
+      lanControl.registerDevice('device-1', '192.168.1.100', 8081, 'device-key', true);
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        '/tmp/homebridge/ewelink-lan-devices.json',
+        expect.any(String),
+        'utf8',
+      );
+      expect(savedDevices()).toEqual([
+        { deviceId: 'device-1', ip: '192.168.1.100', port: 8081, encrypt: true },
+      ]);
+    });
+
+    it('should take the device key of restored devices from the device cache', () => {
+      mockPlatform.deviceCache.set('device-1', { deviceid: 'device-1', devicekey: 'cached-key' } as any);
+      storedRegistry([{ deviceId: 'device-1', ip: '192.168.1.50', port: 8081, encrypt: true, deviceKey: 'stale-key' }]);
+
+      lanControl = new LANControl(mockPlatform as any);
+
+      expect(lanControl.getLanDevice('device-1')?.deviceKey).toBe('cached-key');
+    });
+
+    it('should not save when a restored address is confirmed', () => {
+      storedRegistry([{ deviceId: 'device-1', ip: '192.168.1.50', port: 8081, encrypt: true }]);
+      lanControl = new LANControl(mockPlatform as any);
+
+      lanControl.registerDevice('device-1', '192.168.1.50', 8081, 'key', true);
+
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should keep the registry on disk when stopped', () => {
+      lanControl.registerDevice('device-1', '192.168.1.100', 8081, 'device-key', true);
+      vi.mocked(fs.writeFileSync).mockClear();
+
+      lanControl.stop();
+
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('configured ipAddress', () => {
+    beforeEach(() => {
+      mockPlatform.config.singleDevices = [{ deviceId: 'test-device', ipAddress: '192.168.1.20' }];
+      mockPlatform.config.lightDevices = [{ deviceId: 'light-device', ipAddress: '192.168.1.21:8090' }];
+      lanControl = new LANControl(mockPlatform as any);
+    });
+
+    it('should register configured addresses with the default port', () => {
+      expect(lanControl.getLanDevice('test-device')).toMatchObject({ ip: '192.168.1.20', port: 8081 });
+      expect(lanControl.getLanDevice('light-device')).toMatchObject({ ip: '192.168.1.21', port: 8090 });
+    });
+
+    it('should win over API addresses', () => {
+      lanControl.registerDevice('test-device', '192.168.1.100', 8081, 'device-key', true);
+
+      expect(lanControl.getLanDevice('test-device')?.ip).toBe('192.168.1.20');
+    });
+
+    it('should win over mDNS and UDP announcements', async () => {
+      await lanControl.start();
+
+      mockState.bonjourServiceCallback?.({
+        name: 'eWeLink_test-device',
+        addresses: ['192.168.1.150'],
+        port: 8081,
+        txt: {},
+      });
+      mockState.udpMessageCallback?.(
+        Buffer.from(JSON.stringify({ deviceid: 'test-device', action: 'update', params: {} })),
+        { address: '192.168.1.151', port: 8082 },
+      );
+
+      expect(lanControl.getLanDevice('test-device')?.ip).toBe('192.168.1.20');
+    });
+
+    it('should not persist configured addresses', () => {
+      lanControl.registerDevice('device-1', '192.168.1.100', 8081, 'device-key', true);
+
+      expect(savedDevices().map((device: any) => device.deviceId)).toEqual(['device-1']);
+    });
+
+    it('should encrypt with the device key from the cloud cache', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        json: () => Promise.resolve({ error: 0 }),
+      });
+
+      await lanControl.sendCommand('test-device', { switch: 'on' });
+
+      const fetchCall = (global.fetch as any).mock.calls[0];
+      expect(fetchCall[0]).toBe('http://192.168.1.20:8081/zeroconf/switch');
+      expect(JSON.parse(fetchCall[1].body).encrypt).toBe(true);
+    });
+
+    it('should warn about invalid addresses', () => {
+      mockPlatform.config.singleDevices = [{ deviceId: 'test-device', ipAddress: '192.168.1.20:abc' }];
+
+      lanControl = new LANControl(mockPlatform as any);
+
+      expect(lanControl.isDeviceAvailable('test-device')).toBe(false);
+      expect(mockPlatform.log.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Ignoring invalid ipAddress'),
+      );
+    });
+  });
+
+  describe('IP change tracking', () => {
+    beforeEach(async () => {
+      lanControl.registerDevice('test-device', '192.168.1.100', 8081, 'test-device-key', false);
+      await lanControl.start();
+    });
+
+    it('should follow an mDNS address change', () => {
+      mockPlatform.deviceCache.set('1001edbf36', { name: 'mDNS Device', devicekey: 'mdns-device-key' } as any);
+      lanControl.registerDevice('1001edbf36', '192.168.1.100', 8081, 'mdns-device-key', true);
+
+      mockState.bonjourServiceCallback?.({
+        name: 'eWeLink_1001edbf36',
+        addresses: ['192.168.1.110'],
+        port: 8081,
+        txt: { encrypt: 'true' },
+      });
+
+      expect(lanControl.getLanDevice('1001edbf36')?.ip).toBe('192.168.1.110');
+      expect(mockPlatform.log.info).toHaveBeenCalledWith(
+        '[LAN] mDNS Device IP changed from 192.168.1.100:8081 to 192.168.1.110:8081',
+      );
+      expect(savedDevices()).toContainEqual(expect.objectContaining({ deviceId: '1001edbf36', ip: '192.168.1.110' }));
+    });
+
+    it('should follow the sender of a UDP announcement', () => {
+      mockState.udpMessageCallback?.(
+        Buffer.from(JSON.stringify({ deviceid: 'test-device', action: 'update', params: { switch: 'on' } })),
+        { address: '192.168.1.120', port: 8082 },
+      );
+
+      expect(lanControl.getLanDevice('test-device')).toMatchObject({ ip: '192.168.1.120', port: 8081 });
+      expect(mockPlatform.log.info).toHaveBeenCalledWith(
+        expect.stringContaining('IP changed from 192.168.1.100:8081 to 192.168.1.120:8081'),
+      );
+      expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('test-device', { switch: 'on' });
+    });
+
+    it('should register account devices announced over UDP', () => {
+      mockPlatform.deviceCache.set('udp-device', { name: 'UDP Device', devicekey: 'udp-key' } as any);
+
+      mockState.udpMessageCallback?.(
+        Buffer.from(JSON.stringify({ deviceid: 'udp-device', action: 'update', params: { switch: 'off' } })),
+        { address: '192.168.1.130', port: 8082 },
+      );
+
+      expect(lanControl.getLanDevice('udp-device')).toMatchObject({
+        ip: '192.168.1.130',
+        port: 8081,
+        deviceKey: 'udp-key',
+      });
+      expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('udp-device', { switch: 'off' });
+    });
+  });
+
+  describe('LAN state polling', () => {
+    const respond = (body: object) => ({ json: () => Promise.resolve(body) });
+
+    beforeEach(() => {
+      lanControl.registerDevice('test-device', '192.168.1.100', 8081, 'test-device-key', true);
+    });
+
+    it('should pass getState params to the platform as a LAN update', async () => {
+      (global.fetch as any).mockResolvedValueOnce(respond({ error: 0, data: { switch: 'on' } }));
+
+      await expect(lanControl.pollDevice('test-device')).resolves.toBe(true);
+
+      expect((global.fetch as any).mock.calls[0][0]).toBe('http://192.168.1.100:8081/zeroconf/getState');
+      expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('test-device', { switch: 'on', updateSource: 'LAN' });
+    });
+
+    it('should fall back to info and keep using it', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(respond({ error: 404 }))
+        .mockResolvedValueOnce(respond({ error: 0, data: JSON.stringify({ switch: 'off' }) }))
+        .mockResolvedValueOnce(respond({ error: 0, data: JSON.stringify({ switch: 'on' }) }));
+
+      await lanControl.pollDevice('test-device');
+      await lanControl.pollDevice('test-device');
+
+      const urls = (global.fetch as any).mock.calls.map((call: any[]) => call[0]);
+      expect(urls).toEqual([
+        'http://192.168.1.100:8081/zeroconf/getState',
+        'http://192.168.1.100:8081/zeroconf/info',
+        'http://192.168.1.100:8081/zeroconf/info',
+      ]);
+      expect(mockPlatform.handleDeviceUpdate).toHaveBeenLastCalledWith('test-device', { switch: 'on', updateSource: 'LAN' });
+    });
+
+    it('should decrypt encrypted state', async () => {
+      const crypto = await import('crypto');
+      const iv = crypto.randomBytes(16);
+      const key = crypto.createHash('md5').update(Buffer.from('test-device-key')).digest();
+      const cipher = crypto.createCipheriv('aes-128-cbc', key, iv);
+      const data = cipher.update(JSON.stringify({ switch: 'on' }), 'utf8', 'base64') + cipher.final('base64');
+      (global.fetch as any).mockResolvedValueOnce(respond({ error: 0, encrypt: true, iv: iv.toString('base64'), data }));
+
+      await expect(lanControl.pollDevice('test-device')).resolves.toBe(true);
+
+      expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('test-device', { switch: 'on', updateSource: 'LAN' });
+    });
+
+    it('should return false for unreachable and unknown devices', async () => {
+      (global.fetch as any).mockRejectedValue(new Error('timeout'));
+
+      await expect(lanControl.pollDevice('test-device')).resolves.toBe(false);
+      await expect(lanControl.pollDevice('unknown-device')).resolves.toBe(false);
+      expect(mockPlatform.handleDeviceUpdate).not.toHaveBeenCalled();
+
+      (global.fetch as any).mockReset();
+    });
+
+    it('should poll at the configured interval and back off while unreachable', async () => {
+      vi.useFakeTimers();
+      try {
+        mockPlatform.config.singleDevices = [{ deviceId: 'test-device', lanPollInterval: 30 }];
+        (global.fetch as any).mockRejectedValue(new Error('timeout'));
+        await lanControl.start();
+
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(global.fetch).toHaveBeenCalledTimes(2); // getState + info
+
+        // Second poll after 60s instead of 30s
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(global.fetch).toHaveBeenCalledTimes(4);
+
+        // Back to the configured interval once the device answers
+        (global.fetch as any).mockResolvedValue(respond({ error: 0, data: { switch: 'on' } }));
+        await vi.advanceTimersByTimeAsync(120000);
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledTimes(2);
+      } finally {
+        lanControl.stop();
+        (global.fetch as any).mockReset();
+        vi.useRealTimers();
+      }
+    });
+
+    it('should clamp the interval to 10 seconds and stop polling on stop', async () => {
+      vi.useFakeTimers();
+      try {
+        mockPlatform.config.singleDevices = [{ deviceId: 'test-device', lanPollInterval: 1 }];
+        (global.fetch as any).mockResolvedValue(respond({ error: 0, data: { switch: 'on' } }));
+        await lanControl.start();
+
+        await vi.advanceTimersByTimeAsync(9999);
+        expect(global.fetch).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+
+        lanControl.stop();
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      } finally {
+        (global.fetch as any).mockReset();
+        vi.useRealTimers();
+      }
+    });
+  });
 });
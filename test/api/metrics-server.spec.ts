@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createMockPlatform } from '../__mocks__/homebridge.js';
+import { createMockDevice } from '../__mocks__/ewelink-device.js';
+import { MetricsServer } from '../../src/api/metrics-server.js';
+
+describe('MetricsServer', () => {
+  let server: MetricsServer;
+  let mockPlatform: ReturnType<typeof createMockPlatform>;
+  let baseUrl: string;
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, init);
+    return { status: response.status, contentType: response.headers.get('content-type'), body: await response.text() };
+  };
+
+  beforeEach(async () => {
+    mockPlatform = createMockPlatform({ metricsPort: 0 });
+
+    mockPlatform.deviceCache.set('1000aaaaaa', createMockDevice({
+      deviceid: '1000aaaaaa',
+      name: 'Kitchen "Plug"',
+      extra: { uiid: 32, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' },
+      params: { switch: 'on', power: '12.5', voltage: '230.1', current: '0.05', rssi: -61 },
+    }));
+    mockPlatform.deviceCache.set('1000bbbbbb', createMockDevice({
+      deviceid: '1000bbbbbb',
+      name: 'Boiler',
+      extra: { uiid: 126, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' },
+      params: { actPow_00: 1250, voltage_00: 23010, current_00: 54, actPow_01: 0 },
+    }));
+    mockPlatform.deviceCache.set('1000cccccc', createMockDevice({
+      deviceid: '1000cccccc',
+      name: 'Bathroom',
+      online: false,
+      extra: { uiid: 15, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' },
+      params: { currentTemperature: '21.5', currentHumidity: '55' },
+    }));
+    mockPlatform.deviceCache.set('1000dddddd', createMockDevice({
+      deviceid: '1000dddddd',
+      name: 'Radiator',
+      extra: { uiid: 7017, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' },
+      params: { temperature: 205, battery: 80 },
+    }));
+
+    server = new MetricsServer(mockPlatform as any);
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getPort()}`;
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  describe('start', () => {
+    it('should not start without a metricsPort', async () => {
+      const portless = new MetricsServer(createMockPlatform() as any);
+
+      await portless.start();
+
+      expect(portless.getPort()).toBeUndefined();
+    });
+  });
+
+  describe('routes', () => {
+    it('should serve metrics in the Prometheus text format', async () => {
+      const { status, contentType, body } = await request('/metrics');
+
+      expect(status).toBe(200);
+      expect(contentType).toContain('version=0.0.4');
+      expect(body).toContain('# TYPE ewelink_device_online gauge');
+    });
+
+    it('should return 404 for unknown paths', async () => {
+      const { status } = await request('/devices');
+
+      expect(status).toBe(404);
+    });
+
+    it('should return 405 for other methods', async () => {
+      const { status } = await request('/metrics', { method: 'POST' });
+
+      expect(status).toBe(405);
+    });
+  });
+
+  describe('device metrics', () => {
+    it('should label devices with name, ID, UIID and category', () => {
+      expect(server.render()).toContain(
+        'ewelink_device_online{device_id="1000cccccc",name="Bathroom",uiid="15",category="thermostat"} 0',
+      );
+    });
+
+    it('should escape quotes in labels', () => {
+      expect(server.render()).toContain('name="Kitchen \\"Plug\\""');
+    });
+
+    it('should export device-wide power readings as channel 0', () => {
+      const output = server.render();
+
+      expect(output).toMatch(/ewelink_device_power_watts\{device_id="1000aaaaaa",.*,channel="0"\} 12\.5/);
+      expect(output).toMatch(/ewelink_device_voltage_volts\{device_id="1000aaaaaa",.*\} 230\.1/);
+      expect(output).toMatch(/ewelink_device_rssi_dbm\{device_id="1000aaaaaa",.*\} -61/);
+    });
+
+    it('should export per-channel power readings', () => {
+      const output = server.render();
+
+      expect(output).toMatch(/ewelink_device_power_watts\{device_id="1000bbbbbb",.*,channel="1"\} 12\.5/);
+      expect(output).toMatch(/ewelink_device_current_amperes\{device_id="1000bbbbbb",.*,channel="1"\} 0\.54/);
+      expect(output).toMatch(/ewelink_device_power_watts\{device_id="1000bbbbbb",.*,channel="2"\} 0/);
+    });
+
+    it('should export climate and battery readings', () => {
+      const output = server.render();
+
+      expect(output).toMatch(/ewelink_device_temperature_celsius\{device_id="1000cccccc",.*\} 21\.5/);
+      expect(output).toMatch(/ewelink_device_humidity_percent\{device_id="1000cccccc",.*\} 55/);
+      expect(output).toMatch(/ewelink_device_temperature_celsius\{device_id="1000dddddd",.*\} 20\.5/);
+      expect(output).toMatch(/ewelink_device_battery_percent\{device_id="1000dddddd",.*\} 80/);
+    });
+  });
+
+  describe('health metrics', () => {
+    it('should export the plugin counters', () => {
+      mockPlatform.metrics.recordWsReconnect();
+      mockPlatform.metrics.recordCommand('lan', true);
+      mockPlatform.metrics.recordCommand('cloud', false);
+      mockPlatform.metrics.recordApiError('http');
+      mockPlatform.metrics.recordCommandLatency(1500);
+      mockPlatform.getCommandQueueStats.mockReturnValue({ queueSize: 4, activeCount: 2 });
+
+      const output = server.render();
+
+      expect(output).toContain('ewelink_websocket_reconnects_total 1');
+      expect(output).toContain('ewelink_commands_total{route="lan",result="success"} 1');
+      expect(output).toContain('ewelink_commands_total{route="cloud",result="failure"} 1');
+      expect(output).toContain('ewelink_api_errors_total{type="http"} 1');
+      expect(output).toContain('ewelink_command_queue_depth 4');
+      expect(output).toContain('ewelink_command_queue_active 2');
+      expect(output).toContain('ewelink_command_queue_latency_seconds_sum 1.5');
+      expect(output).toContain('ewelink_command_queue_latency_seconds_count 1');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mqtt from 'mqtt';
+import { createMockPlatform } from '../__mocks__/homebridge.js';
+import { createMockDevice } from '../__mocks__/ewelink-device.js';
+import { MqttBridge } from '../../src/api/mqtt-bridge.js';
+
+vi.mock('mqtt', () => ({
+  default: { connect: vi.fn() },
+}));
+
+class MockMqttClient extends EventEmitter {
+  connected = false;
+  publish = vi.fn();
+  subscribe = vi.fn();
+  end = vi.fn();
+}
+
+const extra = (uiid: number) => ({ uiid, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' });
+
+describe('MqttBridge', () => {
+  let client: MockMqttClient;
+  let mockPlatform: ReturnType<typeof createMockPlatform>;
+  let bridge: MqttBridge;
+
+  const connect = () => {
+    client.connected = true;
+    client.emit('connect');
+  };
+
+  const receive = (topic: string, payload: string) => {
+    client.emit('message', topic, Buffer.from(payload));
+  };
+
+  const published = (topic: string) => client.publish.mock.calls.filter(([t]) => t === topic).map(([, payload]) => payload);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = new MockMqttClient();
+    vi.mocked(mqtt.connect).mockReturnValue(client as any);
+
+    mockPlatform = createMockPlatform({ mqttUrl: 'mqtt://127.0.0.1:1883', mqttDiscovery: false });
+    mockPlatform.deviceCache.set('1000aaaaaa', createMockDevice({
+      deviceid: '1000aaaaaa',
+      params: { switch: 'off', bright: 20 },
+    }));
+    mockPlatform.deviceCache.set('1000bbbbbb', createMockDevice({
+      deviceid: '1000bbbbbb',
+      extra: extra(2),
+      params: { switches: [{ outlet: 0, switch: 'off' }, { outlet: 1, switch: 'off' }, { outlet: 2, switch: 'off' }] },
+    }));
+    mockPlatform.deviceCache.set('1000cccccc', createMockDevice({
+      deviceid: '1000cccccc',
+      extra: extra(28),
+      params: {},
+      tags: { zyx_info: [{ name: 'Remote', remote_type: '1', buttonName: [{ 0: 'Button' }] }] },
+    }));
+
+    bridge = new MqttBridge(mockPlatform as any);
+    bridge.start();
+  });
+
+  describe('start', () => {
+    it('should not connect without an mqttUrl', () => {
+      vi.mocked(mqtt.connect).mockClear();
+
+      new MqttBridge(createMockPlatform() as any).start();
+
+      expect(mqtt.connect).not.toHaveBeenCalled();
+    });
+
+    it('should connect with a retained offline last will', () => {
+      expect(mqtt.connect).toHaveBeenCalledWith('mqtt://127.0.0.1:1883', expect.objectContaining({
+        will: expect.objectContaining({ topic: 'ewelink/bridge/status', retain: true }),
+      }));
+    });
+  });
+
+  describe('on connect', () => {
+    it('should subscribe to the command topics and publish every device', () => {
+      connect();
+
+      expect(client.subscribe).toHaveBeenCalledWith(
+        ['ewelink/+/set', 'ewelink/+/+/set', 'ewelink/+/rf/+/set'],
+        expect.any(Function),
+      );
+      expect(published('ewelink/bridge/status')).toEqual(['online']);
+      expect(JSON.parse(published('ewelink/1000aaaaaa/state')[0])).toEqual({ switch: 'off', bright: 20, online: true });
+      expect(published('ewelink/1000bbbbbb/2/state')).toEqual(['{"switch":"off"}']);
+    });
+
+    it('should publish Home Assistant discovery when enabled', () => {
+      mockPlatform.config.mqttDiscovery = true;
+
+      connect();
+
+      expect(published('homeassistant/switch/ewelink_1000aaaaaa/switch/config')).toHaveLength(1);
+      expect(published('homeassistant/button/ewelink_1000cccccc/rf_0/config')).toHaveLength(1);
+    });
+  });
+
+  describe('publishUpdate', () => {
+    it('should publish the merged state as retained JSON', () => {
+      connect();
+      client.publish.mockClear();
+
+      bridge.publishUpdate('1000aaaaaa', { switch: 'on', updateSource: 'LAN' });
+
+      expect(client.publish).toHaveBeenCalledWith(
+        'ewelink/1000aaaaaa/state',
+        JSON.stringify({ switch: 'on', bright: 20, online: true }),
+        { retain: true },
+      );
+    });
+
+    it('should publish channel states of multi-channel devices', () => {
+      connect();
+
+      bridge.publishUpdate('1000bbbbbb', { switches: [{ outlet: 1, switch: 'on' }] });
+
+      expect(published('ewelink/1000bbbbbb/1/state').at(-1)).toBe('{"switch":"on"}');
+    });
+
+    it('should publish RF events', () => {
+      connect();
+
+      bridge.publishUpdate('1000cccccc', { cmd: 'transmit', rfChl: 0 });
+      bridge.publishUpdate('1000cccccc', { cmd: 'trigger', rfTrig2: '2026-01-01T00:00:00.000Z' });
+
+      expect(published('ewelink/1000cccccc/rf/0/event')).toEqual(['{"event":"transmit"}']);
+      expect(published('ewelink/1000cccccc/rf/2/event')).toEqual(['{"event":"trigger","time":"2026-01-01T00:00:00.000Z"}']);
+    });
+
+    it('should keep the state while disconnected and publish it on connect', () => {
+      bridge.publishUpdate('1000aaaaaa', { switch: 'on' });
+      expect(client.publish).not.toHaveBeenCalled();
+
+      connect();
+
+      expect(JSON.parse(published('ewelink/1000aaaaaa/state')[0]).switch).toBe('on');
+    });
+  });
+
+  describe('commands', () => {
+    beforeEach(() => {
+      connect();
+    });
+
+    it('should send JSON params', () => {
+      receive('ewelink/1000aaaaaa/set', '{"bright":70}');
+
+      expect(mockPlatform.sendDeviceCommand).toHaveBeenCalledWith('1000aaaaaa', { bright: 70 });
+    });
+
+    it('should accept plain on/off', () => {
+      receive('ewelink/1000aaaaaa/set', 'ON');
+
+      expect(mockPlatform.sendDeviceCommand).toHaveBeenCalledWith('1000aaaaaa', { switch: 'on' });
+    });
+
+    it('should switch a single channel', () => {
+      receive('ewelink/1000bbbbbb/1/set', 'on');
+
+      expect(mockPlatform.sendDeviceCommand).toHaveBeenCalledWith('1000bbbbbbSW1', {
+        switches: [{ outlet: 0, switch: 'off' }, { outlet: 1, switch: 'on' }, { outlet: 2, switch: 'off' }],
+      });
+    });
+
+    it('should transmit learned RF channels', () => {
+      receive('ewelink/1000cccccc/rf/0/set', 'PRESS');
+
+      expect(mockPlatform.sendDeviceCommand).toHaveBeenCalledWith('1000cccccc', { cmd: 'transmit', rfChl: 0 });
+    });
+
+    it('should reject unknown channels and invalid payloads', () => {
+      receive('ewelink/1000bbbbbb/5/set', 'on');
+      receive('ewelink/1000aaaaaa/set', '[1]');
+      receive('ewelink/1000cccccc/rf/9/set', 'PRESS');
+
+      expect(mockPlatform.sendDeviceCommand).not.toHaveBeenCalled();
+      expect(mockPlatform.log.warn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should ignore topics of unknown devices', () => {
+      receive('ewelink/1000ffffff/set', 'on');
+
+      expect(mockPlatform.sendDeviceCommand).not.toHaveBeenCalled();
+      expect(mockPlatform.log.warn).not.toHaveBeenCalled();
+    });
+
+    it('should warn when the device does not accept a command', async () => {
+      mockPlatform.sendDeviceCommand.mockResolvedValueOnce(false);
+
+      receive('ewelink/1000aaaaaa/set', 'off');
+
+      await vi.waitFor(() => expect(mockPlatform.log.warn).toHaveBeenCalledWith(expect.stringContaining('not accepted')));
+    });
+  });
+
+  describe('stop', () => {
+    it('should publish offline and disconnect', () => {
+      connect();
+
+      bridge.stop();
+
+      expect(client.publish).toHaveBeenCalledWith('ewelink/bridge/status', 'offline', { qos: 1, retain: true });
+      expect(client.end).toHaveBeenCalled();
+    });
+  });
+});
@@ -75,6 +75,7 @@ describe('WSClient', () => {
       getWsHost: vi.fn().mockResolvedValue('wss://test-ws-host.com:8080/api/ws'),
       getAccessToken: vi.fn().mockReturnValue('test-access-token'),
       getApiKey: vi.fn().mockReturnValue('test-api-key'),
+      getAppId: vi.fn().mockReturnValue('test-app-id'),
       reloadTokensFromStorage: vi.fn().mockResolvedValue(undefined),
       login: vi.fn().mockResolvedValue(undefined),
     };
@@ -100,6 +101,7 @@ describe('WSClient', () => {
     }
     vi.clearAllTimers();
     vi.useRealTimers();
+    vi.restoreAllMocks();
   });
 
   describe('constructor', () => {
@@ -146,6 +148,28 @@ describe('WSClient', () => {
       expect((mockPlatform as any).ewelinkApi.getWsHost).toHaveBeenCalled();
     });
 
+    it('should authenticate with the account it was created for', async () => {
+      const accountApi = {
+        getWsHost: vi.fn().mockResolvedValue('wss://account-ws-host.com:8080/api/ws'),
+        getAccessToken: vi.fn().mockReturnValue('account-access-token'),
+        getApiKey: vi.fn().mockReturnValue('account-api-key'),
+        getAppId: vi.fn().mockReturnValue('account-app-id'),
+      };
+      wsClient = new WSClient(mockPlatform as any, accountApi as any);
+
+      const connectPromise = wsClient.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      triggerWsEvent('open');
+      triggerWsEvent('message', JSON.stringify({ error: 0, config: { hbInterval: 90 } }));
+      await connectPromise;
+
+      const authMessage = JSON.parse(mockWsSend.mock.calls[0][0]);
+      expect(authMessage.apikey).toBe('account-api-key');
+      expect(authMessage.at).toBe('account-access-token');
+      expect(authMessage.appid).toBe('account-app-id');
+      expect((mockPlatform as any).ewelinkApi.getWsHost).not.toHaveBeenCalled();
+    });
+
     it('should reject on WebSocket error before connection', async () => {
       const connectPromise = wsClient.connect();
 
@@ -507,6 +531,96 @@ describe('WSClient', () => {
       );
     });
 
+    describe('Zigbee sub-device routing', () => {
+      beforeEach(() => {
+        mockPlatform.deviceCache.set('zb-bridge', { name: 'ZB Bridge', params: { subDevices: [] } } as any);
+        mockPlatform.deviceCache.set('zb-button', { name: 'Button', params: {} } as any);
+        mockPlatform.deviceCache.set('zb-sensor', { name: 'Sensor', params: {} } as any);
+      });
+
+      it('should route a report by subDevId to the sub-device', () => {
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'reportSubDevice',
+          deviceid: 'zb-bridge',
+          params: { subDevId: 'zb-button', key: 0, trigTime: '1700000000000' },
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('zb-button', { key: 0, trigTime: '1700000000000' });
+      });
+
+      it('should include top-level online and battery', () => {
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'reportSubDevice',
+          deviceid: 'zb-bridge',
+          subDevId: 'zb-sensor',
+          online: false,
+          battery: 80,
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('zb-sensor', { online: false, battery: 80 });
+      });
+
+      it('should route every entry of a subDevices list', () => {
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'subDevice',
+          deviceid: 'zb-bridge',
+          params: {
+            subDevices: [
+              { deviceid: 'zb-button', online: true },
+              { subDevId: 'zb-sensor', params: { battery: 55, temperature: 2150 } },
+              { deviceid: 'unknown-child', online: true },
+            ],
+          },
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledTimes(2);
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('zb-button', { online: true });
+        expect(mockPlatform.handleDeviceUpdate).toHaveBeenCalledWith('zb-sensor', { battery: 55, temperature: 2150 });
+      });
+
+      it('should skip reports that name no sub-device', () => {
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'reportSubDevice',
+          deviceid: 'zb-sensor',
+          params: { humidity: 4500 },
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should not route reports to a bridge whose cached params lack subDevices', () => {
+        mockPlatform.deviceCache.set('zb-bridge', { name: 'ZB Bridge', params: {} } as any);
+
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'reportSubDevice',
+          deviceid: 'zb-bridge',
+          params: { online: true },
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should not route bridge-level reports to the bridge', () => {
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'reportSubDevice',
+          deviceid: 'zb-bridge',
+          params: { online: true },
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should ignore reports without state', () => {
+        (wsClient as any).handleMessage(JSON.stringify({
+          action: 'reportSubDevice',
+          deviceid: 'zb-bridge',
+          params: { subDevId: 'zb-button' },
+        }));
+
+        expect(mockPlatform.handleDeviceUpdate).not.toHaveBeenCalled();
+      });
+    });
+
     it('should handle command success response', () => {
       const sequence = '123456789';
       const resolve = vi.fn();
@@ -677,23 +791,43 @@ describe('WSClient', () => {
       );
     });
 
-    it('should stop after max reconnection attempts', () => {
-      (wsClient as any).reconnectAttempts = 10;
+    it('should keep retrying after many failed attempts', () => {
+      (wsClient as any).reconnectAttempts = 50;
 
       (wsClient as any).scheduleReconnect();
 
-      expect(mockPlatform.log.error).toHaveBeenCalledWith(
-        expect.stringContaining('max reconnection attempts'),
+      expect(mockPlatform.log.info).toHaveBeenCalledWith(
+        expect.stringContaining('Scheduling WebSocket reconnection attempt 51'),
       );
+      expect((wsClient as any).reconnectTimeout).not.toBeNull();
+    });
+
+    it('should count scheduled reconnections', () => {
+      (wsClient as any).scheduleReconnect();
+
+      expect(mockPlatform.metrics.getSnapshot().wsReconnects).toBe(1);
     });
 
     it('should use exponential backoff for reconnection delay', () => {
-      (wsClient as any).reconnectAttempts = 0;
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      (wsClient as any).reconnectAttempts = 2;
+
+      (wsClient as any).scheduleReconnect();
+
+      // Third attempt: 5s * 2^2
+      expect(mockPlatform.log.info).toHaveBeenCalledWith(
+        'Scheduling WebSocket reconnection attempt 3 in 20s...',
+      );
+    });
+
+    it('should add jitter of up to half the delay', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      (wsClient as any).reconnectAttempts = 2;
 
       (wsClient as any).scheduleReconnect();
 
       expect(mockPlatform.log.info).toHaveBeenCalledWith(
-        expect.stringContaining('Scheduling WebSocket reconnection attempt 1/10'),
+        'Scheduling WebSocket reconnection attempt 3 in 10s...',
       );
     });
 
@@ -751,12 +885,10 @@ describe('WSClient', () => {
     });
 
     it('should cap exponential backoff at 300 seconds', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
       (wsClient as any).reconnectAttempts = 10;
       (wsClient as any).reconnecting = false;
 
-      // Reset max attempts for this test
-      (wsClient as any).maxReconnectAttempts = 20;
-
       (wsClient as any).scheduleReconnect();
 
       // With 11 attempts, the delay would be 5 * 2^10 = 5120s, but capped at 300s
@@ -764,6 +896,90 @@ describe('WSClient', () => {
         expect.stringContaining('in 300s'),
       );
     });
+
+    it('should not reconnect after disconnect', () => {
+      wsClient.disconnect();
+
+      (wsClient as any).scheduleReconnect();
+
+      expect((wsClient as any).reconnectTimeout).toBeNull();
+    });
+  });
+
+  describe('connection state', () => {
+    const connectClient = async () => {
+      const connectPromise = wsClient.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      triggerWsEvent('open');
+      triggerWsEvent('message', JSON.stringify({ error: 0, config: { hbInterval: 90 } }));
+      await connectPromise;
+    };
+
+    it('should start as connecting', () => {
+      expect(wsClient.getState()).toBe('connecting');
+    });
+
+    it('should become authenticated after a successful connection', async () => {
+      await connectClient();
+
+      expect(wsClient.getState()).toBe('authenticated');
+      expect((mockPlatform as any).handleCloudStateChange).toHaveBeenCalledWith('authenticated', 'connecting', wsClient);
+    });
+
+    it('should become degraded when an authenticated connection closes', async () => {
+      await connectClient();
+
+      triggerWsEvent('close', 1006, Buffer.from(''));
+
+      expect(wsClient.getState()).toBe('degraded');
+      expect((mockPlatform as any).handleCloudStateChange).toHaveBeenCalledWith('degraded', 'authenticated', wsClient);
+    });
+
+    it('should open the circuit breaker after repeated failures', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      (wsClient as any).state = 'degraded';
+      (wsClient as any).reconnectAttempts = 5;
+
+      (wsClient as any).scheduleReconnect();
+
+      expect(wsClient.getState()).toBe('offline');
+      expect((mockPlatform as any).handleCloudStateChange).toHaveBeenCalledWith('offline', 'degraded', wsClient);
+      expect(mockPlatform.log.warn).toHaveBeenCalledWith(expect.stringContaining('eWeLink cloud is offline'));
+      expect(mockPlatform.log.info).toHaveBeenCalledWith(expect.stringContaining('in 300s'));
+    });
+
+    it('should stay degraded below the circuit breaker threshold', () => {
+      (wsClient as any).state = 'degraded';
+      (wsClient as any).reconnectAttempts = 4;
+
+      (wsClient as any).scheduleReconnect();
+
+      expect(wsClient.getState()).toBe('degraded');
+      expect((mockPlatform as any).handleCloudStateChange).not.toHaveBeenCalled();
+    });
+
+    it('should report authenticated again after reconnecting while offline', async () => {
+      (wsClient as any).state = 'offline';
+      (wsClient as any).reconnectAttempts = 8;
+
+      await connectClient();
+
+      expect(wsClient.getState()).toBe('authenticated');
+      expect((wsClient as any).reconnectAttempts).toBe(0);
+      expect((mockPlatform as any).handleCloudStateChange).toHaveBeenCalledWith('authenticated', 'offline', wsClient);
+    });
+
+    it('should not schedule a reconnect when closed by disconnect', async () => {
+      await connectClient();
+      wsClient.disconnect();
+
+      triggerWsEvent('close', 1000, Buffer.from(''));
+
+      expect(wsClient.getState()).toBe('offline');
+      expect(mockPlatform.log.info).not.toHaveBeenCalledWith(
+        expect.stringContaining('Scheduling WebSocket reconnection'),
+      );
+    });
   });
 
   describe('authentication', () => {
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isWaterValveDevice, getDeviceByUIID } from '../../src/constants/device-catalog.js';
+import { isWaterValveDevice, getDeviceByUIID, getTrvParams } from '../../src/constants/device-catalog.js';
 
 describe('device-catalog', () => {
   describe('isWaterValveDevice', () => {
@@ -29,4 +29,22 @@ describe('device-catalog', () => {
       expect(getDeviceByUIID(7027)?.primaryService).toBe('Valve');
     });
   });
+
+  describe('getTrvParams', () => {
+    it('returns the radiator valve params for the Zigbee thermostat (UIID 7017)', () => {
+      const trv = getTrvParams(7017);
+
+      expect(trv?.targetTemp).toBe('curTargetTemp');
+      expect(trv?.tempDivisor).toBe(10);
+      expect(trv?.mode).toEqual({ param: 'workMode', manual: '0', auto: '1' });
+    });
+
+    it('returns undefined for the Wi-Fi thermostat (UIID 127)', () => {
+      expect(getTrvParams(127)).toBeUndefined();
+    });
+
+    it('returns undefined for the TH sensor (UIID 15)', () => {
+      expect(getTrvParams(15)).toBeUndefined();
+    });
+  });
 });
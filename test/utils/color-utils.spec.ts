@@ -173,6 +173,38 @@ describe('ColorUtils', () => {
     });
   });
 
+  describe('scaleToMired', () => {
+    it('should map the scale ends to the mired range', () => {
+      expect(ColorUtils.scaleToMired(0, 0, 255)).toBe(140);
+      expect(ColorUtils.scaleToMired(255, 0, 255)).toBe(500);
+    });
+
+    it('should match ct0_100ToMired for a 0-100 scale', () => {
+      expect(ColorUtils.scaleToMired(25, 0, 100)).toBe(ColorUtils.ct0_100ToMired(25));
+    });
+
+    it('should clamp values outside the scale', () => {
+      expect(ColorUtils.scaleToMired(-10, 0, 100)).toBe(140);
+      expect(ColorUtils.scaleToMired(300, 0, 255)).toBe(500);
+    });
+  });
+
+  describe('miredToScale', () => {
+    it('should map the mired range to the scale ends', () => {
+      expect(ColorUtils.miredToScale(140, 0, 255)).toBe(0);
+      expect(ColorUtils.miredToScale(500, 0, 255)).toBe(255);
+    });
+
+    it('should respect a non-zero scale minimum', () => {
+      expect(ColorUtils.miredToScale(320, 25, 255)).toBe(140);
+    });
+
+    it('should clamp mireds outside 140-500', () => {
+      expect(ColorUtils.miredToScale(100, 0, 100)).toBe(0);
+      expect(ColorUtils.miredToScale(600, 0, 100)).toBe(100);
+    });
+  });
+
   describe('mired round-trip conversion', () => {
     it('should convert ct to mired and back correctly', () => {
       for (const ct of [0, 25, 50, 75, 100]) {
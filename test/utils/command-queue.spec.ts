@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { CommandQueue } from '../../src/utils/command-queue.js';
+import { CommandQueue, getCommandPriority, mergeDeviceParams } from '../../src/utils/command-queue.js';
 
 describe('CommandQueue', () => {
   beforeEach(() => {
@@ -220,6 +220,22 @@ describe('CommandQueue', () => {
     });
   });
 
+  describe('onCommandSettled', () => {
+    it('should report the time from enqueue to result', async () => {
+      const onCommandSettled = vi.fn();
+      const queue = new CommandQueue({ minInterval: 1000, concurrency: 1, onCommandSettled });
+
+      queue.enqueue('d1', vi.fn().mockResolvedValue(true));
+      queue.enqueue('d2', vi.fn().mockRejectedValue(new Error('Failed'))).catch(() => {});
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onCommandSettled).toHaveBeenCalledTimes(2);
+      expect(onCommandSettled).toHaveBeenNthCalledWith(1, 0);
+      expect(onCommandSettled).toHaveBeenNthCalledWith(2, 1000);
+    });
+  });
+
   describe('clear', () => {
     it('should reject all pending commands', async () => {
       const queue = new CommandQueue({ minInterval: 1000, concurrency: 1 });
@@ -368,4 +384,163 @@ describe('CommandQueue', () => {
       expect(queue.getStats().activeCount).toBe(0);
     });
   });
+
+  describe('enqueueParams', () => {
+    it('should merge waiting params for the same device and send once', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      let release: (value: boolean) => void = () => {};
+      queue.enqueue('busy', () => new Promise(resolve => {
+        release = resolve;
+      }));
+      const send = vi.fn().mockResolvedValue(true);
+
+      const first = queue.enqueueParams('light', { brightness: 10 }, send);
+      const second = queue.enqueueParams('light', { brightness: 40, colorTemp: 50 }, send);
+      const third = queue.enqueueParams('light', { brightness: 70 }, send);
+
+      expect(queue.getStats().queueSize).toBe(1);
+
+      release(true);
+      await vi.runAllTimersAsync();
+
+      expect(send).toHaveBeenCalledOnce();
+      expect(send).toHaveBeenCalledWith({ brightness: 70, colorTemp: 50 });
+      await expect(Promise.all([first, second, third])).resolves.toEqual([true, true, true]);
+    });
+
+    it('should give every merged caller the final failure', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      let release: (value: boolean) => void = () => {};
+      queue.enqueue('busy', () => new Promise(resolve => {
+        release = resolve;
+      }));
+      const send = vi.fn().mockRejectedValue(new Error('Command failed'));
+
+      const first = queue.enqueueParams('light', { brightness: 10 }, send);
+      const second = queue.enqueueParams('light', { brightness: 20 }, send);
+      const results = Promise.allSettled([first, second]);
+
+      release(true);
+      await vi.runAllTimersAsync();
+
+      expect((await results).map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect(send).toHaveBeenCalledOnce();
+    });
+
+    it('should keep channels of the same device separate', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      queue.enqueue('busy', () => new Promise(() => {}));
+      const send = vi.fn().mockResolvedValue(true);
+
+      queue.enqueueParams('device1SW1', { switches: [{ outlet: 0, switch: 'on' }] }, send);
+      queue.enqueueParams('device1SW2', { switches: [{ outlet: 1, switch: 'on' }] }, send);
+
+      expect(queue.getStats().queueSize).toBe(2);
+    });
+
+    it('should not merge into a command that is already running', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      const send = vi.fn().mockResolvedValue(true);
+
+      queue.enqueueParams('light', { brightness: 10 }, send);
+      await vi.advanceTimersByTimeAsync(0);
+      queue.enqueueParams('light', { brightness: 20 }, send);
+      await vi.runAllTimersAsync();
+
+      expect(send).toHaveBeenNthCalledWith(1, { brightness: 10 });
+      expect(send).toHaveBeenNthCalledWith(2, { brightness: 20 });
+    });
+
+    it('should run on/off commands ahead of slider updates', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      const order: string[] = [];
+      queue.enqueue('busy', () => new Promise(resolve => setTimeout(() => resolve(true), 10)));
+      const send = (id: string) => vi.fn().mockImplementation(async () => {
+        order.push(id);
+        return true;
+      });
+
+      queue.enqueueParams('light1', { brightness: 50 }, send('light1'));
+      queue.enqueueParams('light2', { colorTemp: 20 }, send('light2'));
+      queue.enqueueParams('plug', { switch: 'off' }, send('plug'));
+
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['plug', 'light1', 'light2']);
+    });
+
+    it('should move a merged command to the high lane when on/off is added', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      const order: string[] = [];
+      queue.enqueue('busy', () => new Promise(resolve => setTimeout(() => resolve(true), 10)));
+      const send = (id: string) => vi.fn().mockImplementation(async () => {
+        order.push(id);
+        return true;
+      });
+
+      queue.enqueueParams('light1', { brightness: 50 }, send('light1'));
+      queue.enqueueParams('light2', { brightness: 30 }, send('light2'));
+      queue.enqueueParams('light2', { switch: 'on' }, send('light2'));
+
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['light2', 'light1']);
+    });
+
+    it('should log coalesced commands', () => {
+      const log = vi.fn();
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1, log });
+      queue.enqueue('busy', () => new Promise(() => {}));
+      const send = vi.fn().mockResolvedValue(true);
+
+      queue.enqueueParams('light', { brightness: 10 }, send);
+      queue.enqueueParams('light', { brightness: 20 }, send);
+
+      expect(log).toHaveBeenCalledWith('Command coalesced for light (2 updates merged)');
+    });
+
+    it('should reject merged callers when cleared', async () => {
+      const queue = new CommandQueue({ minInterval: 0, concurrency: 1 });
+      queue.enqueue('busy', () => new Promise(() => {}));
+      const send = vi.fn().mockResolvedValue(true);
+
+      const first = queue.enqueueParams('light', { brightness: 10 }, send);
+      const second = queue.enqueueParams('light', { brightness: 20 }, send);
+      queue.clear();
+
+      await expect(first).rejects.toThrow('Queue cleared');
+      await expect(second).rejects.toThrow('Queue cleared');
+    });
+  });
+
+  describe('getCommandPriority', () => {
+    it('should use the high lane for on/off', () => {
+      expect(getCommandPriority({ switch: 'on' })).toBe('high');
+      expect(getCommandPriority({ switches: [{ outlet: 0, switch: 'off' }] })).toBe('high');
+    });
+
+    it('should use the normal lane for other params', () => {
+      expect(getCommandPriority({ brightness: 50 })).toBe('normal');
+    });
+  });
+
+  describe('mergeDeviceParams', () => {
+    it('should let the last write win per key', () => {
+      expect(mergeDeviceParams({ brightness: 10, switch: 'on' }, { brightness: 60 }))
+        .toEqual({ brightness: 60, switch: 'on' });
+    });
+
+    it('should merge switches by outlet', () => {
+      const merged = mergeDeviceParams(
+        { switches: [{ outlet: 1, switch: 'on' }, { outlet: 0, switch: 'on' }] },
+        { switches: [{ outlet: 1, switch: 'off' }, { outlet: 2, switch: 'on' }] },
+      );
+
+      expect(merged.switches).toEqual([
+        { outlet: 0, switch: 'on' },
+        { outlet: 1, switch: 'off' },
+        { outlet: 2, switch: 'on' },
+      ]);
+    });
+  });
 });
@@ -46,4 +46,38 @@ describe('CryptoUtils', () => {
       }
     });
   });
+
+  describe('encrypt / decrypt', () => {
+    const secret = 'test-secret';
+
+    it('should round-trip text', () => {
+      const encrypted = CryptoUtils.encrypt('{"accessToken":"abc"}', secret);
+
+      expect(encrypted.data).not.toContain('abc');
+      expect(CryptoUtils.decrypt(encrypted, secret)).toBe('{"accessToken":"abc"}');
+    });
+
+    it('should use a new salt and IV for every call', () => {
+      const first = CryptoUtils.encrypt('same text', secret);
+      const second = CryptoUtils.encrypt('same text', secret);
+
+      expect(second.salt).not.toBe(first.salt);
+      expect(second.iv).not.toBe(first.iv);
+      expect(second.data).not.toBe(first.data);
+    });
+
+    it('should throw with the wrong secret', () => {
+      const encrypted = CryptoUtils.encrypt('secret text', secret);
+
+      expect(() => CryptoUtils.decrypt(encrypted, 'wrong-secret')).toThrow();
+    });
+
+    it('should throw when the data was modified', () => {
+      const encrypted = CryptoUtils.encrypt('secret text', secret);
+      const data = Buffer.from(encrypted.data, 'base64');
+      data[0] ^= 0xff;
+
+      expect(() => CryptoUtils.decrypt({ ...encrypted, data: data.toString('base64') }, secret)).toThrow();
+    });
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getDeviceConfigOptions } from '../../src/utils/device-config-options.js';
+
+const fieldKeys = (uiid: number) => getDeviceConfigOptions(uiid)!.fields.map(field => field.key);
+
+describe('getDeviceConfigOptions', () => {
+  it('should return undefined for unknown UIIDs', () => {
+    expect(getDeviceConfigOptions(99999)).toBeUndefined();
+  });
+
+  it('should return undefined for categories without a config array', () => {
+    expect(getDeviceConfigOptions(11)).toBeUndefined();
+  });
+
+  it('should offer the handled simulations of a single switch', () => {
+    const options = getDeviceConfigOptions(1)!;
+
+    expect(options.configKey).toBe('singleDevices');
+    expect(options.catalog).toMatchObject({ uiid: 1, category: 'single_switch' });
+    expect(options.showAs.map(choice => choice.value)).toEqual([
+      'default', 'outlet', 'valve', 'tap', 'lock', 'garage', 'gate', 'sensor', 'p_button',
+    ]);
+    expect(options.showAs[1]).toEqual({ value: 'outlet', label: 'Outlet' });
+  });
+
+  it('should leave out fields for simulations the device cannot use', () => {
+    const keys = fieldKeys(1);
+
+    expect(keys).toEqual(expect.arrayContaining(['isInched', 'sensorType', 'disableTimer', 'ipAddress', 'lanPollInterval']));
+    expect(keys).not.toContain('tempSource');
+    expect(keys).not.toContain('inUsePowerThreshold');
+  });
+
+  it('should write outlets to singleDevices without showAs', () => {
+    const options = getDeviceConfigOptions(32)!;
+
+    expect(options.configKey).toBe('singleDevices');
+    expect(options.showAs).toEqual([]);
+    expect(options.fields.find(field => field.key === 'isInched')?.showAs).toBeUndefined();
+    expect(options.fields.map(field => field.key)).toContain('inUsePowerThreshold');
+  });
+
+  it('should write multi-channel switches to multiDevices', () => {
+    const options = getDeviceConfigOptions(126)!;
+
+    expect(options.configKey).toBe('multiDevices');
+    expect(options.catalog.capabilities.channels).toBe(2);
+    expect(options.showAs.map(choice => choice.value)).toEqual(['default', 'outlet']);
+    expect(options.fields.map(field => field.key)).toEqual(['ipAddress', 'lanPollInterval']);
+  });
+
+  it('should offer the TH sensor simulations and their fields', () => {
+    const options = getDeviceConfigOptions(15)!;
+
+    expect(options.configKey).toBe('thDevices');
+    expect(options.showAs.map(choice => choice.value)).toEqual(['default', 'heater', 'cooler', 'humidifier', 'dehumidifier', 'thermostat']);
+    expect(options.fields.find(field => field.key === 'showHeatCool')?.showAs).toEqual(['thermostat']);
+    expect(fieldKeys(15)).toEqual(expect.arrayContaining(['tempOffset', 'humidityOffset', 'minTarget']));
+  });
+
+  it('should follow the light type', () => {
+    expect(fieldKeys(36)).toEqual(['brightnessStep', 'ipAddress', 'lanPollInterval']);
+    expect(fieldKeys(52)).toEqual(['adaptiveLightingShift', 'ipAddress', 'lanPollInterval']);
+    expect(getDeviceConfigOptions(52)!.showAs).toEqual([]);
+  });
+
+  it('should offer sensor fields by capability, without LAN fields for cloud-only devices', () => {
+    expect(fieldKeys(1770)).toEqual(['tempOffset', 'hideTemp', 'humidityOffset', 'hideHumidity', 'lowBattery']);
+    expect(fieldKeys(102)).toEqual(['lowBattery']);
+  });
+
+  it('should offer the bridge options for RF bridges', () => {
+    expect(getDeviceConfigOptions(28)).toMatchObject({ configKey: 'rfDevices', showAs: [] });
+    expect(fieldKeys(28)).toEqual(['resetOnStartup']);
+  });
+});
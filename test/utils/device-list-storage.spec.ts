@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DeviceListStorage } from '../../src/utils/device-list-storage.js';
+import { TOKEN_SECRET_ENV } from '../../src/utils/token-storage.js';
+import * as fs from 'fs';
+
+// Mock fs module
+vi.mock('fs', () => ({
+  writeFileSync: vi.fn(),
+  readFileSync: vi.fn(),
+  existsSync: vi.fn(),
+}));
+
+describe('DeviceListStorage', () => {
+  let storage: DeviceListStorage;
+  const log = { warn: vi.fn() };
+  const expectedFilePath = '/tmp/test-storage/ewelink-devices.json';
+
+  const device = {
+    deviceid: '1000abcdef',
+    name: 'RF Bridge',
+    devicekey: 'device-key',
+    extra: { uiid: 28 },
+    params: { switch: 'on' },
+    tags: { zyx_info: [{ remote_type: '1', name: 'Button', buttonName: [{ 0: 'A' }] }] },
+  };
+  const group = { id: 'group-1', name: 'Lights', params: { switch: 'off' } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new DeviceListStorage('/tmp/test-storage', log);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('should write devices and groups with timestamp', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+      storage.save([device as any], [group]);
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        expectedFilePath,
+        JSON.stringify({ devices: [device], groups: [group], timestamp: 1000 }),
+        'utf8',
+      );
+    });
+
+    it('should warn on write errors', () => {
+      vi.mocked(fs.writeFileSync).mockImplementationOnce(() => {
+        throw new Error('Write failed');
+      });
+
+      expect(() => storage.save([device as any], [])).not.toThrow();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to save device list'));
+    });
+  });
+
+  describe('load', () => {
+    it('should return null if file does not exist', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(storage.load()).toBeNull();
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should return the stored list unchanged', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ devices: [device], groups: [group], timestamp: 1000 }));
+
+      expect(storage.load()).toEqual({ devices: [device], groups: [group], timestamp: 1000 });
+    });
+
+    it('should drop devices without an ID and default missing groups', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ devices: [device, { name: 'No ID' }, null] }));
+
+      expect(storage.load()).toEqual({ devices: [device], groups: [], timestamp: 0 });
+    });
+
+    it('should return null for a file without devices', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue('{}');
+
+      expect(storage.load()).toBeNull();
+    });
+
+    it('should warn and return null on parse failure', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue('invalid json');
+
+      expect(storage.load()).toBeNull();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to load device list'));
+    });
+  });
+
+  describe('encryption', () => {
+    let written: string;
+
+    beforeEach(() => {
+      vi.stubEnv(TOKEN_SECRET_ENV, 'env-secret');
+      vi.mocked(fs.writeFileSync).mockImplementation((_path, data) => {
+        written = String(data);
+      });
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockImplementation(() => written);
+    });
+
+    afterEach(() => {
+      vi.mocked(fs.writeFileSync).mockReset();
+      vi.mocked(fs.readFileSync).mockReset();
+      vi.unstubAllEnvs();
+    });
+
+    it('should write the device keys encrypted and read them back', () => {
+      new DeviceListStorage('/tmp/test-storage', log, true).save([device as any], [group]);
+
+      expect(JSON.parse(written)).toEqual({ encrypted: expect.objectContaining({ iv: expect.any(String) }) });
+      expect(written).not.toContain(device.devicekey);
+      expect(storage.load()?.devices).toEqual([device]);
+    });
+
+    it('should not write the list without the secret', () => {
+      vi.stubEnv(TOKEN_SECRET_ENV, '');
+
+      new DeviceListStorage('/tmp/test-storage', log, true).save([device as any], [group]);
+
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining(TOKEN_SECRET_ENV));
+    });
+
+    it('should warn and return null for an encrypted file without the secret', () => {
+      new DeviceListStorage('/tmp/test-storage', log, true).save([device as any], [group]);
+      vi.stubEnv(TOKEN_SECRET_ENV, '');
+
+      expect(storage.load()).toBeNull();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to load device list'));
+    });
+  });
+});
@@ -309,6 +309,42 @@ describe('DeviceValueParser', () => {
     });
   });
 
+  describe('hasChannelPowerReadings', () => {
+    it('should detect per-channel power params', () => {
+      const params: DeviceParams = { actPow_00: 1200, actPow_01: 0 };
+      expect(DeviceValueParser.hasChannelPowerReadings(params, 1)).toBe(true);
+      expect(DeviceValueParser.hasChannelPowerReadings(params, 2)).toBe(true);
+      expect(DeviceValueParser.hasChannelPowerReadings(params, 3)).toBe(false);
+    });
+  });
+
+  describe('parseChannelPowerReadings', () => {
+    it('should parse the x100 readings of the given channel', () => {
+      const params: DeviceParams = { actPow_01: 12345, voltage_01: 23010, current_01: 52 };
+      const result = DeviceValueParser.parseChannelPowerReadings(params, 2);
+      expect(result).toEqual({ power: 123.45, voltage: 230.1, current: 0.52 });
+    });
+
+    it('should return undefined for missing fields', () => {
+      const result = DeviceValueParser.parseChannelPowerReadings({ actPow_00: 100 }, 1);
+      expect(result.power).toBe(1);
+      expect(result.voltage).toBeUndefined();
+    });
+  });
+
+  describe('parseTodayKwh', () => {
+    it('should parse the newest day of a kWh history string', () => {
+      expect(DeviceValueParser.parseTodayKwh('010203000507')).toBeCloseTo(1.23);
+      expect(DeviceValueParser.parseTodayKwh('0a0009')).toBeCloseTo(10.09);
+    });
+
+    it('should return undefined for missing or malformed data', () => {
+      expect(DeviceValueParser.parseTodayKwh(undefined)).toBeUndefined();
+      expect(DeviceValueParser.parseTodayKwh('get')).toBeUndefined();
+      expect(DeviceValueParser.parseTodayKwh(123)).toBeUndefined();
+    });
+  });
+
   describe('parseMotionState', () => {
     it('should return true when switch is on', () => {
       const params: DeviceParams = { switch: 'on' };
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EnergyMeter } from '../../src/utils/energy-meter.js';
+import type { EnergyMeterState } from '../../src/types/index.js';
+
+const HOUR_MS = 3600000;
+
+describe('EnergyMeter', () => {
+  let state: EnergyMeterState;
+  let meter: EnergyMeter;
+
+  beforeEach(() => {
+    state = { totalKwh: 0, resetTime: 0 };
+    meter = new EnergyMeter(state);
+  });
+
+  describe('createState', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should start at zero with the reset time in Eve format', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2001-01-02T00:00:00Z'));
+
+      expect(EnergyMeter.createState()).toEqual({ totalKwh: 0, resetTime: 86400 });
+    });
+  });
+
+  describe('addPowerSample', () => {
+    it('should integrate power between samples', () => {
+      meter.addPowerSample(1000, 0);
+      meter.addPowerSample(500, 0.25 * HOUR_MS);
+      meter.addPowerSample(0, 0.5 * HOUR_MS);
+
+      // 1000 W for 15 min + 500 W for 15 min
+      expect(meter.totalKwh).toBeCloseTo(0.375);
+    });
+
+    it('should update the state object in place', () => {
+      meter.addPowerSample(2000, 0);
+      meter.addPowerSample(2000, 0.1 * HOUR_MS);
+
+      expect(state.totalKwh).toBeCloseTo(0.2);
+    });
+
+    it('should skip gaps longer than the maximum sample gap', () => {
+      meter.addPowerSample(1000, 0);
+      meter.addPowerSample(1000, 2 * HOUR_MS);
+
+      expect(meter.totalKwh).toBe(0);
+    });
+
+    it('should not integrate the first sample after a restart', () => {
+      state.totalKwh = 5;
+      const restored = new EnergyMeter(state);
+      restored.addPowerSample(1000, 0);
+
+      expect(restored.totalKwh).toBe(5);
+    });
+  });
+
+  describe('addDeviceKwh', () => {
+    it('should use the first reading as baseline and add increases', () => {
+      meter.addDeviceKwh(1.2, 'hundredDaysKwh');
+      meter.addDeviceKwh(1.5, 'hundredDaysKwh');
+
+      expect(meter.totalKwh).toBeCloseTo(0.3);
+    });
+
+    it('should add the full value when the counter restarts', () => {
+      meter.addDeviceKwh(4.8, 'hundredDaysKwh');
+      meter.addDeviceKwh(5, 'hundredDaysKwh');
+      meter.addDeviceKwh(0.1, 'hundredDaysKwh');
+
+      expect(meter.totalKwh).toBeCloseTo(0.3);
+    });
+
+    it('should stop integrating power once a device counter is followed', () => {
+      meter.addDeviceKwh(1, 'hundredDaysKwh');
+      meter.addPowerSample(1000, 0);
+      meter.addPowerSample(1000, 0.1 * HOUR_MS);
+
+      expect(meter.totalKwh).toBe(0);
+    });
+
+    it('should prefer hundredDaysKwh over oneKwh', () => {
+      meter.addDeviceKwh(1, 'hundredDaysKwh');
+      meter.addDeviceKwh(3, 'oneKwh');
+      meter.addDeviceKwh(1.5, 'hundredDaysKwh');
+
+      expect(meter.totalKwh).toBeCloseTo(0.5);
+      expect(state.source).toBe('hundredDaysKwh');
+    });
+
+    it('should ignore invalid readings', () => {
+      meter.addDeviceKwh(NaN, 'oneKwh');
+      meter.addDeviceKwh(-1, 'oneKwh');
+
+      expect(state.source).toBeUndefined();
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear the total and store the reset time', () => {
+      state.totalKwh = 12.5;
+      meter.reset(700000000);
+
+      expect(meter.totalKwh).toBe(0);
+      expect(meter.resetTime).toBe(700000000);
+    });
+  });
+});
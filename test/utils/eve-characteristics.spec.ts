@@ -1,9 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 vi.mock('homebridge', () => ({
-  Formats: { UINT16: 'uint16', FLOAT: 'float', UINT32: 'uint32' },
+  Formats: { UINT8: 'uint8', UINT16: 'uint16', FLOAT: 'float', UINT32: 'uint32' },
   Perms: { PAIRED_READ: 'pr', NOTIFY: 'ev', PAIRED_WRITE: 'pw' },
-  Units: { SECONDS: 'seconds' },
+  Units: { SECONDS: 'seconds', PERCENTAGE: 'percentage' },
 }));
 
 import { EVE_CHARACTERISTIC_UUIDS, EveCharacteristics } from '../../src/utils/eve-characteristics.js';
@@ -73,8 +73,12 @@ describe('EVE_CHARACTERISTIC_UUIDS', () => {
     expect(EVE_CHARACTERISTIC_UUIDS.TimesOpened).toBe('E863F129-079E-48FF-8F27-9C2605A29F52');
   });
 
-  it('should have all 9 characteristic UUIDs', () => {
-    expect(Object.keys(EVE_CHARACTERISTIC_UUIDS)).toHaveLength(9);
+  it('should have ValvePosition UUID', () => {
+    expect(EVE_CHARACTERISTIC_UUIDS.ValvePosition).toBe('E863F12E-079E-48FF-8F27-9C2605A29F52');
+  });
+
+  it('should have all 10 characteristic UUIDs', () => {
+    expect(Object.keys(EVE_CHARACTERISTIC_UUIDS)).toHaveLength(10);
   });
 
   it('should have unique UUIDs', () => {
@@ -104,6 +108,7 @@ describe('EveCharacteristics', () => {
       expect(eveCharacteristics.OpenDuration).toBeDefined();
       expect(eveCharacteristics.ClosedDuration).toBeDefined();
       expect(eveCharacteristics.TimesOpened).toBeDefined();
+      expect(eveCharacteristics.ValvePosition).toBeDefined();
     });
   });
 
@@ -214,4 +219,14 @@ describe('EveCharacteristics', () => {
       expect(instance.displayName).toBe('Times Opened');
     });
   });
+
+  describe('ValvePosition', () => {
+    it('should be a read-only percentage', () => {
+      const instance = new eveCharacteristics.ValvePosition() as any;
+      expect(instance.displayName).toBe('Valve Position');
+      expect(instance.props.unit).toBe('percentage');
+      expect(instance.props.maxValue).toBe(100);
+      expect(instance.props.perms).toEqual(['pr', 'ev']);
+    });
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+
+// Mock fs module
+vi.mock('fs', () => ({
+  mkdirSync: vi.fn(),
+}));
+
+// Mock fakegato-history, the history protocol itself is the library's
+const historyService = vi.hoisted(() => ({
+  constructor: vi.fn(),
+  addEntry: vi.fn(),
+  getInitialTime: vi.fn(),
+}));
+const fakegato = vi.hoisted(() => vi.fn(() => class {
+  constructor(...args: unknown[]) {
+    historyService.constructor(...args);
+  }
+  addEntry = historyService.addEntry;
+  getInitialTime = historyService.getInitialTime;
+}));
+vi.mock('fakegato-history', () => ({ default: fakegato }));
+
+import { EveHistory } from '../../src/utils/eve-history.js';
+
+const START = 1700000000;
+
+describe('EveHistory', () => {
+  const api = { user: { storagePath: () => '/tmp/test-storage' } } as any;
+  const accessory = { UUID: 'abc', displayName: 'Sensor' } as any;
+  const log = { debug: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(START * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('constructor', () => {
+    it('should create the fakegato history service with file storage per accessory', () => {
+      new EveHistory(api, accessory, 'energy', { storagePath: '/tmp/test-storage', log });
+
+      expect(fs.mkdirSync).toHaveBeenCalledWith('/tmp/test-storage/ewelink-history', { recursive: true });
+      expect(historyService.constructor).toHaveBeenCalledWith('energy', accessory, expect.objectContaining({
+        storage: 'fs',
+        path: '/tmp/test-storage/ewelink-history',
+        filename: 'abc_persist.json',
+      }));
+    });
+
+    it('should only pass the logger with debug enabled', () => {
+      new EveHistory(api, accessory, 'door', { storagePath: '/tmp/test-storage', log });
+      new EveHistory(api, accessory, 'door', { storagePath: '/tmp/test-storage', log, debug: true });
+
+      const [quiet, verbose] = historyService.constructor.mock.calls.map(call => call[2].log);
+      expect(quiet).not.toBe(log);
+      expect(verbose).toBe(log);
+    });
+  });
+
+  describe('addEntry', () => {
+    it('should add the current time and leave out undefined fields', () => {
+      const history = new EveHistory(api, accessory, 'weather', { storagePath: '/tmp/test-storage' });
+
+      history.addEntry({ temp: 21.5, humidity: undefined });
+
+      expect(historyService.addEntry).toHaveBeenCalledWith({ temp: 21.5, time: START });
+    });
+  });
+
+  describe('stop', () => {
+    const timer = { getSubscriber: vi.fn(), unsubscribe: vi.fn() };
+    const characteristic = { removeAllListeners: vi.fn() };
+
+    it('should leave the shared timer and detach the Eve app handlers', () => {
+      const history = new EveHistory({ ...api, globalFakeGatoTimer: timer }, accessory, 'energy', { storagePath: '/tmp/test-storage' });
+      (history as any).service.service = { getCharacteristic: vi.fn(() => characteristic) };
+      timer.getSubscriber.mockReturnValue({});
+
+      history.stop();
+
+      expect(timer.unsubscribe).toHaveBeenCalledWith((history as any).service);
+      expect(characteristic.removeAllListeners).toHaveBeenCalledWith('get');
+      expect(characteristic.removeAllListeners).toHaveBeenCalledWith('set');
+    });
+
+    it('should not unsubscribe a history the timer does not know', () => {
+      const history = new EveHistory({ ...api, globalFakeGatoTimer: timer }, accessory, 'energy', { storagePath: '/tmp/test-storage' });
+      timer.getSubscriber.mockReturnValue(undefined);
+
+      history.stop();
+
+      expect(timer.unsubscribe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getInitialTime', () => {
+    it('should return the time of the first entry', () => {
+      historyService.getInitialTime.mockReturnValue(START - 3600);
+      const history = new EveHistory(api, accessory, 'door', { storagePath: '/tmp/test-storage' });
+
+      expect(history.getInitialTime()).toBe(START - 3600);
+    });
+
+    it('should fall back to now while the history is empty', () => {
+      historyService.getInitialTime.mockReturnValue(undefined);
+      const history = new EveHistory(api, accessory, 'door', { storagePath: '/tmp/test-storage' });
+
+      expect(history.getInitialTime()).toBe(START);
+    });
+  });
+});
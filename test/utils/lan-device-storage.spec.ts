@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LanDeviceStorage } from '../../src/utils/lan-device-storage.js';
+import * as fs from 'fs';
+
+// Mock fs module
+vi.mock('fs', () => ({
+  writeFileSync: vi.fn(),
+  readFileSync: vi.fn(),
+  existsSync: vi.fn(),
+}));
+
+describe('LanDeviceStorage', () => {
+  let storage: LanDeviceStorage;
+  const log = { warn: vi.fn() };
+  const expectedFilePath = '/tmp/test-storage/ewelink-lan-devices.json';
+
+  const device = {
+    deviceId: '1001edbf36',
+    ip: '192.168.1.50',
+    port: 8081,
+    encrypt: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new LanDeviceStorage('/tmp/test-storage', log);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('should write devices to file with timestamp', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+      storage.save([device]);
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        expectedFilePath,
+        JSON.stringify({ timestamp: 1000, devices: [device] }, null, 2),
+        'utf8',
+      );
+    });
+
+    it('should not write device keys or IVs', () => {
+      storage.save([{ ...device, deviceKey: 'device-key', iv: 'iv' }]);
+
+      const written = vi.mocked(fs.writeFileSync).mock.calls[0][1] as string;
+      expect(JSON.parse(written).devices).toEqual([device]);
+      expect(written).not.toContain('device-key');
+    });
+
+    it('should warn on write errors', () => {
+      vi.mocked(fs.writeFileSync).mockImplementationOnce(() => {
+        throw new Error('Write failed');
+      });
+
+      expect(() => storage.save([device])).not.toThrow();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to save LAN devices'));
+    });
+  });
+
+  describe('load', () => {
+    it('should return an empty list if file does not exist', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(storage.load()).toEqual([]);
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should return stored devices', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ timestamp: 1000, devices: [device] }));
+
+      expect(storage.load()).toEqual([device]);
+    });
+
+    it('should ignore device keys written by earlier versions', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ timestamp: 1000, devices: [{ ...device, deviceKey: 'device-key' }] }));
+
+      expect(storage.load()).toEqual([device]);
+    });
+
+    it('should drop entries without an address', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        timestamp: 1000,
+        devices: [device, { deviceId: 'no-ip', ip: '', port: 8081 }, { deviceId: 'no-port', ip: '192.168.1.51' }, null],
+      }));
+
+      expect(storage.load()).toEqual([device]);
+    });
+
+    it('should return an empty list for a file without devices', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue('{}');
+
+      expect(storage.load()).toEqual([]);
+    });
+
+    it('should warn and return an empty list on parse failure', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue('invalid json');
+
+      expect(storage.load()).toEqual([]);
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to load LAN devices'));
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildDiscoveryMessages, getRFChannels } from '../../src/utils/mqtt-discovery.js';
+import { createMockDevice } from '../__mocks__/ewelink-device.js';
+
+const options = { topicPrefix: 'ewelink', discoveryPrefix: 'homeassistant' };
+const extra = (uiid: number) => ({ uiid, model: '', manufacturer: '', brandId: '', brandLogoUrl: '', description: '' });
+
+describe('mqtt-discovery', () => {
+  describe('buildDiscoveryMessages', () => {
+    it('should return nothing for unknown UIIDs', () => {
+      expect(buildDiscoveryMessages(createMockDevice({ extra: extra(99999) }), options)).toEqual([]);
+    });
+
+    it('should describe a single switch with device and availability', () => {
+      const [message] = buildDiscoveryMessages(createMockDevice({ deviceid: '1000aaaaaa', name: 'Lamp' }), options);
+
+      expect(message.topic).toBe('homeassistant/switch/ewelink_1000aaaaaa/switch/config');
+      expect(message.payload).toMatchObject({
+        unique_id: 'ewelink_1000aaaaaa_switch',
+        state_topic: 'ewelink/1000aaaaaa/state',
+        command_topic: 'ewelink/1000aaaaaa/set',
+        value_template: '{{ value_json[\'switch\'] }}',
+        payload_on: 'on',
+        device: { identifiers: ['ewelink_1000aaaaaa'], name: 'Lamp', manufacturer: 'Sonoff' },
+        availability_mode: 'all',
+      });
+    });
+
+    it('should add one switch per channel for multi-channel devices', () => {
+      const messages = buildDiscoveryMessages(createMockDevice({ deviceid: '1000bbbbbb', extra: extra(2) }), options);
+
+      expect(messages.map(m => m.topic)).toEqual([
+        'homeassistant/switch/ewelink_1000bbbbbb/channel_1/config',
+        'homeassistant/switch/ewelink_1000bbbbbb/channel_2/config',
+      ]);
+      expect(messages[1].payload).toMatchObject({
+        state_topic: 'ewelink/1000bbbbbb/2/state',
+        command_topic: 'ewelink/1000bbbbbb/2/set',
+      });
+    });
+
+    it('should add power sensors from the catalog params', () => {
+      const messages = buildDiscoveryMessages(createMockDevice({ deviceid: '1000cccccc', extra: extra(32) }), options);
+
+      expect(messages[0].payload).toMatchObject({ device_class: 'outlet' });
+      expect(messages.slice(1).map(m => m.payload.device_class)).toEqual(['power', 'voltage', 'current']);
+      expect(messages[1].payload).toMatchObject({ unit_of_measurement: 'W', value_template: '{{ value_json[\'power\'] | float }}' });
+    });
+
+    it('should add brightness to dimmable lights', () => {
+      const [message] = buildDiscoveryMessages(createMockDevice({ deviceid: '1000dddddd', extra: extra(36) }), options);
+
+      expect(message.topic).toBe('homeassistant/light/ewelink_1000dddddd/light/config');
+      expect(message.payload).toMatchObject({
+        state_value_template: '{{ value_json[\'switch\'] }}',
+        brightness_command_template: '{"bright": {{ value }}}',
+        brightness_scale: 100,
+      });
+    });
+
+    it('should add buttons for learned RF remotes only', () => {
+      const bridge = createMockDevice({
+        deviceid: '1000eeeeee',
+        extra: extra(28),
+        tags: {
+          zyx_info: [
+            { name: 'Remote', remote_type: '2', buttonName: [{ 0: 'Up' }, { 1: 'Down' }] },
+            { name: 'Door', remote_type: '7', buttonName: [{ 2: 'Door' }] },
+          ],
+        },
+      });
+
+      const buttons = buildDiscoveryMessages(bridge, options).filter(m => m.topic.startsWith('homeassistant/button/'));
+
+      expect(buttons.map(m => m.payload.command_topic)).toEqual([
+        'ewelink/1000eeeeee/rf/0/set',
+        'ewelink/1000eeeeee/rf/1/set',
+      ]);
+      expect(buttons[1].payload.name).toBe('Down');
+    });
+  });
+
+  describe('getRFChannels', () => {
+    it('should list every learned channel with its remote type', () => {
+      const bridge = createMockDevice({
+        tags: { zyx_info: [{ name: 'Motion', remote_type: '6', buttonName: [{ 3: '' }] }] },
+      });
+
+      expect(getRFChannels(bridge)).toEqual([{ channel: 3, name: 'Motion', remoteType: '6' }]);
+    });
+
+    it('should return nothing without zyx_info', () => {
+      expect(getRFChannels(createMockDevice())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { AccessoryContext, RFSubdeviceConfig } from '../../src/types/index.js';
+import {
+  filterRFSubAccessories,
+  findRFSubdeviceConfig,
+  getRFGarageOptions,
+  getRFSubType,
+} from '../../src/utils/rf-subdevices.js';
+
+const subdevices: RFSubdeviceConfig[] = [
+  { index: 0, label: 'Front Door', showAs: 'contact' },
+  { index: 2, label: 'Garage', showAs: 'garage', operationTime: 15 },
+];
+
+const rfAccessory = (deviceid: string, rfButtonIndex?: number) => ({
+  context: { device: { deviceid }, rfButtonIndex } as unknown as AccessoryContext,
+});
+
+describe('rf-subdevices', () => {
+  describe('findRFSubdeviceConfig', () => {
+    it('should match by button index first', () => {
+      expect(findRFSubdeviceConfig(subdevices, 2, 'Front Door')).toBe(subdevices[1]);
+    });
+
+    it('should fall back to the label', () => {
+      expect(findRFSubdeviceConfig(subdevices, 5, 'Front Door')).toBe(subdevices[0]);
+    });
+
+    it('should not match a subdevice without a label to a missing label', () => {
+      const unlabelled: RFSubdeviceConfig[] = [{ index: 1 }];
+
+      expect(findRFSubdeviceConfig(unlabelled, 3)).toBeUndefined();
+      expect(findRFSubdeviceConfig(subdevices, undefined, 'Unknown')).toBeUndefined();
+    });
+  });
+
+  describe('getRFSubType', () => {
+    it('should use the learned remote type without showAs', () => {
+      expect(getRFSubType('1')).toBe('button');
+      expect(getRFSubType('4')).toBe('button');
+      expect(getRFSubType('6')).toBe('sensor');
+      expect(getRFSubType('5')).toBe('curtain');
+      expect(getRFSubType('9')).toBeUndefined();
+    });
+
+    it('should let showAs override the remote type', () => {
+      expect(getRFSubType('6', 'button')).toBe('button');
+      expect(getRFSubType('1', 'garage')).toBe('garage');
+      expect(getRFSubType('1', 'motion')).toBe('sensor');
+      expect(getRFSubType('9', 'doorbell')).toBe('sensor');
+      expect(getRFSubType('1', 'curtain')).toBe('curtain');
+    });
+
+    it('should pick the curtain simulation from curtainType', () => {
+      expect(getRFSubType('5', undefined, 'blind')).toBe('blind');
+      expect(getRFSubType('5', undefined, 'door')).toBe('door');
+      expect(getRFSubType('1', 'curtain', 'window')).toBe('window');
+      expect(getRFSubType('5', undefined, 'awning')).toBe('curtain');
+    });
+
+    it('should not use curtainType for a curtain remote shown as a sensor', () => {
+      expect(getRFSubType('5', 'contact', 'blind')).toBe('sensor');
+    });
+  });
+
+  describe('filterRFSubAccessories', () => {
+    it('should return the RF sub-accessories of the bridge only', () => {
+      const button = rfAccessory('bridge1', 0);
+      const sensor = rfAccessory('bridge1', 3);
+      const otherBridge = rfAccessory('bridge2', 0);
+      const bridge = rfAccessory('bridge1');
+
+      expect(filterRFSubAccessories([button, otherBridge, bridge, sensor], 'bridge1')).toEqual([button, sensor]);
+    });
+
+    it('should accept a map of cached accessories', () => {
+      const button = rfAccessory('bridge1', 0);
+
+      expect(filterRFSubAccessories(new Map([['uuid', button]]).values(), 'bridge1')).toEqual([button]);
+    });
+  });
+
+  describe('getRFGarageOptions', () => {
+    it('should default to the garage operation time', () => {
+      expect(getRFGarageOptions(undefined, { 0: 'Open', 1: 'Close' })).toEqual({
+        operationTimeUp: 10000,
+        operationTimeDown: 10000,
+        chOpen: '0',
+        chClose: '1',
+      });
+    });
+
+    it('should use the down time, falling back to the up time', () => {
+      expect(getRFGarageOptions(subdevices[1], { 0: 'Open' })).toMatchObject({
+        operationTimeUp: 15000,
+        operationTimeDown: 15000,
+      });
+      expect(getRFGarageOptions({ index: 2, operationTime: 15, operationTimeDown: 20 })).toMatchObject({
+        operationTimeUp: 15000,
+        operationTimeDown: 20000,
+      });
+    });
+
+    it('should toggle with a single learned button', () => {
+      const { chOpen, chClose } = getRFGarageOptions(undefined, { 3: 'Toggle' });
+
+      expect(chOpen).toBe('3');
+      expect(chClose).toBe('3');
+    });
+  });
+});
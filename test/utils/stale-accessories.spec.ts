@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { planStaleAccessories, type StaleAccessoryState } from '../../src/utils/stale-accessories.js';
+
+const NOW = 1700000000000;
+const DAY = 86400000;
+const policy = { syncs: 3, days: 7, maxPercent: 50 };
+
+const present = (parentId: string): StaleAccessoryState => ({ parentId, missing: false });
+
+describe('planStaleAccessories', () => {
+  it('should keep a newly missing accessory pending inside the grace period', () => {
+    const missing: StaleAccessoryState = { parentId: 'a', missing: true };
+
+    const plan = planStaleAccessories([missing, present('b'), present('c')], policy, NOW);
+
+    expect(plan.remove).toEqual([]);
+    expect(plan.pending).toEqual([{ accessory: missing, missingSince: NOW, missingSyncs: 1 }]);
+  });
+
+  it('should keep an accessory pending until both the syncs and the days have passed', () => {
+    const enoughSyncs: StaleAccessoryState = { parentId: 'a', missing: true, missingSince: NOW - DAY, missingSyncs: 5 };
+    const enoughDays: StaleAccessoryState = { parentId: 'b', missing: true, missingSince: NOW - 10 * DAY, missingSyncs: 1 };
+
+    const plan = planStaleAccessories([enoughSyncs, enoughDays, present('c')], policy, NOW);
+
+    expect(plan.remove).toEqual([]);
+    expect(plan.pending.map(entry => entry.missingSyncs)).toEqual([6, 2]);
+    expect(plan.pending[0].missingSince).toBe(NOW - DAY);
+  });
+
+  it('should remove an accessory after the grace period', () => {
+    const missing: StaleAccessoryState = { parentId: 'a', missing: true, missingSince: NOW - 7 * DAY, missingSyncs: 2 };
+
+    const plan = planStaleAccessories([missing, present('b')], policy, NOW);
+
+    expect(plan.remove).toEqual([{ accessory: missing, reason: 'missing for 3 syncs' }]);
+    expect(plan.pending).toEqual([]);
+  });
+
+  it('should remove accessories from ignored homes at once', () => {
+    const ignored: StaleAccessoryState = { parentId: 'a', missing: true, ignoredHome: true };
+
+    const plan = planStaleAccessories([ignored, present('b')], policy, NOW);
+
+    expect(plan.remove).toEqual([{ accessory: ignored, reason: 'ignored home' }]);
+  });
+
+  it('should skip the sync when more than maxPercent of the devices go missing at once', () => {
+    const accessories: StaleAccessoryState[] = [
+      { parentId: 'a', missing: true },
+      { parentId: 'b', missing: true },
+      { parentId: 'c', missing: true, ignoredHome: true },
+      { parentId: 'd', missing: true },
+      present('e'),
+    ];
+
+    const plan = planStaleAccessories(accessories, policy, NOW);
+
+    expect(plan.skipped).toEqual({ missing: 3, known: 5 });
+    expect(plan.pending).toEqual([]);
+    expect(plan.remove).toEqual([{ accessory: accessories[2], reason: 'ignored home' }]);
+  });
+
+  it('should count the channels of a device once', () => {
+    const accessories: StaleAccessoryState[] = [
+      { parentId: 'a', missing: true },
+      { parentId: 'a', missing: true },
+      present('b'),
+      present('c'),
+    ];
+
+    const plan = planStaleAccessories(accessories, policy, NOW);
+
+    expect(plan.skipped).toBeUndefined();
+    expect(plan.pending).toHaveLength(2);
+  });
+
+  it('should not count accessories that were already missing against the threshold', () => {
+    const accessories: StaleAccessoryState[] = [
+      { parentId: 'a', missing: true, missingSince: NOW - DAY, missingSyncs: 1 },
+      { parentId: 'b', missing: true, missingSince: NOW - DAY, missingSyncs: 1 },
+      present('c'),
+    ];
+
+    expect(planStaleAccessories(accessories, policy, NOW).skipped).toBeUndefined();
+  });
+
+  it('should never skip with maxPercent 0', () => {
+    const accessories: StaleAccessoryState[] = [{ parentId: 'a', missing: true }];
+
+    expect(planStaleAccessories(accessories, { ...policy, maxPercent: 0 }, NOW).skipped).toBeUndefined();
+  });
+
+  it('should return a missing accessory that reappears', () => {
+    const back: StaleAccessoryState = { parentId: 'a', missing: false, missingSince: NOW - DAY, missingSyncs: 2 };
+
+    const plan = planStaleAccessories([back, present('b')], policy, NOW);
+
+    expect(plan.returned).toEqual([back]);
+    expect(plan.remove).toEqual([]);
+    expect(plan.pending).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StatusStorage, type PluginStatus } from '../../src/utils/status-storage.js';
+import { STATUS_TIMING } from '../../src/constants/timing-constants.js';
+import * as fs from 'fs';
+
+// Mock fs module
+vi.mock('fs', () => ({
+  writeFileSync: vi.fn(),
+  readFileSync: vi.fn(),
+  existsSync: vi.fn(),
+}));
+
+describe('StatusStorage', () => {
+  let storage: StatusStorage;
+  const log = { warn: vi.fn() };
+  const statusPath = '/tmp/test-storage/ewelink-status.json';
+  const watchPath = '/tmp/test-storage/ewelink-status.watch';
+
+  const status: Omit<PluginStatus, 'timestamp'> = {
+    cloudState: 'authenticated',
+    queue: { queueSize: 0, activeCount: 1 },
+    metrics: {
+      wsReconnects: 0,
+      commands: { lan: { success: 2, failure: 0 }, cloud: { success: 1, failure: 1 } },
+      apiErrors: { http: 0, api: 0 },
+      commandLatency: { count: 2, sumMs: 300 },
+    },
+    accessories: [{
+      id: '1000abcdefSW1',
+      deviceId: '1000abcdef',
+      name: 'Kitchen 1',
+      handler: 'SwitchAccessory',
+      online: true,
+      reachableLAN: true,
+      reachableWAN: false,
+      params: { switches: [{ switch: 'on', outlet: 0 }] },
+      lastUpdate: 900,
+      lastError: null,
+      lastErrorAt: null,
+      latencyMs: 120,
+    }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(Date, 'now').mockReturnValue(100_000);
+    storage = new StatusStorage('/tmp/test-storage', log);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('should write the status with a timestamp', () => {
+      storage.save(status);
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(statusPath, JSON.stringify({ timestamp: 100_000, ...status }), 'utf8');
+    });
+
+    it('should warn on write errors', () => {
+      vi.mocked(fs.writeFileSync).mockImplementationOnce(() => {
+        throw new Error('Write failed');
+      });
+
+      expect(() => storage.save(status)).not.toThrow();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to save status'));
+    });
+  });
+
+  describe('load', () => {
+    it('should return null if file does not exist', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(storage.load()).toBeNull();
+    });
+
+    it('should return the stored status', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ timestamp: 1000, ...status }));
+
+      expect(storage.load()).toEqual({ timestamp: 1000, ...status });
+    });
+
+    it('should return null for a file without accessories', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ timestamp: 1000 }));
+
+      expect(storage.load()).toBeNull();
+    });
+
+    it('should warn and return null on parse failure', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue('invalid json');
+
+      expect(storage.load()).toBeNull();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to load status'));
+    });
+  });
+
+  describe('watch', () => {
+    it('should stamp the watch file with the current time', () => {
+      storage.watch();
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(watchPath, '100000', 'utf8');
+    });
+
+    it('should be watched within the TTL of the last stamp', () => {
+      vi.mocked(fs.readFileSync).mockReturnValue(String(100_000 - STATUS_TIMING.WATCH_TTL_MS));
+
+      expect(storage.isWatched()).toBe(true);
+      expect(fs.readFileSync).toHaveBeenCalledWith(watchPath, 'utf8');
+    });
+
+    it('should not be watched once the stamp is older than the TTL', () => {
+      vi.mocked(fs.readFileSync).mockReturnValue(String(100_000 - STATUS_TIMING.WATCH_TTL_MS - 1));
+
+      expect(storage.isWatched()).toBe(false);
+    });
+
+    it('should not be watched without a watch file', () => {
+      vi.mocked(fs.readFileSync).mockImplementation(() => {
+        throw new Error('ENOENT');
+      });
+
+      expect(storage.isWatched()).toBe(false);
+    });
+  });
+
+  describe('isStale', () => {
+    it('should treat a missing or old status as stale', () => {
+      expect(StatusStorage.isStale(null)).toBe(true);
+      expect(StatusStorage.isStale({ timestamp: 100_000 - STATUS_TIMING.STALE_MS - 1, ...status })).toBe(true);
+      expect(StatusStorage.isStale({ timestamp: 100_000 - STATUS_TIMING.STALE_MS, ...status })).toBe(false);
+    });
+  });
+});
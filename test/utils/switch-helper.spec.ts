@@ -166,6 +166,29 @@ describe('SwitchHelper', () => {
     });
   });
 
+  describe('buildChannelCommand', () => {
+    const deviceParams: DeviceParams = {
+      switches: [{ outlet: 0, switch: 'off' }, { outlet: 1, switch: 'on' }],
+    };
+
+    it('should switch every outlet for channel 0', () => {
+      expect(SwitchHelper.buildChannelCommand(deviceParams, 0, { switch: 'on' })).toEqual({
+        switches: [{ outlet: 0, switch: 'on' }, { outlet: 1, switch: 'on' }],
+      });
+    });
+
+    it('should switch a single outlet and keep other params', () => {
+      expect(SwitchHelper.buildChannelCommand(deviceParams, 1, { switch: 'off', pulse: 'off' })).toEqual({
+        pulse: 'off',
+        switches: [{ outlet: 0, switch: 'off' }, { outlet: 1, switch: 'off' }],
+      });
+    });
+
+    it('should pass params through for single-channel devices', () => {
+      expect(SwitchHelper.buildChannelCommand({ switch: 'off' }, 1, { switch: 'on' })).toEqual({ switch: 'on' });
+    });
+  });
+
   describe('getChannelCount', () => {
     it('should return 1 for single-channel switch', () => {
       const params: DeviceParams = { switch: 'on' };
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import { TokenManager } from '../../src/utils/token-manager.js';
+import type { StoredTokens, TokenStorage } from '../../src/utils/token-storage.js';
+import { TOKEN_LIFECYCLE } from '../../src/constants/api-constants.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('TokenManager', () => {
+  let manager: TokenManager;
+  let storage: { save: Mock; load: Mock; lock: Mock; unlock: Mock };
+  let refresh: Mock;
+  let apply: Mock;
+  let log: { debug: Mock; info: Mock; warn: Mock };
+
+  const session = { accessToken: 'at-1', refreshToken: 'rt-1', apiKey: 'key', region: 'eu' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    // The file holds whatever was saved last
+    let file: StoredTokens | null = null;
+    storage = {
+      save: vi.fn((tokens: StoredTokens) => {
+        file = { ...tokens, timestamp: Date.now() };
+      }),
+      load: vi.fn(() => file),
+      lock: vi.fn().mockReturnValue(true),
+      unlock: vi.fn(),
+    };
+    refresh = vi.fn().mockResolvedValue({ accessToken: 'at-2', refreshToken: 'rt-2' });
+    apply = vi.fn();
+    log = { debug: vi.fn(), info: vi.fn(), warn: vi.fn() };
+
+    manager = new TokenManager({
+      storage: storage as unknown as TokenStorage,
+      log,
+      username: 'user@example.com',
+      refresh,
+      apply,
+    });
+  });
+
+  afterEach(() => {
+    manager.stop();
+    vi.useRealTimers();
+  });
+
+  describe('store', () => {
+    it('should record the expiry of both tokens and save them', () => {
+      manager.store(session);
+
+      expect(storage.save).toHaveBeenCalledWith(expect.objectContaining({
+        ...session,
+        username: 'user@example.com',
+        accessTokenExpiresAt: Date.now() + TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS,
+        refreshTokenExpiresAt: Date.now() + TOKEN_LIFECYCLE.REFRESH_TOKEN_TTL_MS,
+      }));
+      expect(apply).toHaveBeenCalledWith(session);
+      expect(manager.getExpiry()).toBe(Date.now() + TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS);
+    });
+  });
+
+  describe('reload', () => {
+    it('should return false without stored tokens', () => {
+      expect(manager.reload()).toBe(false);
+      expect(apply).not.toHaveBeenCalled();
+    });
+
+    it('should ignore expired tokens', () => {
+      manager.store(session);
+      vi.advanceTimersByTime(TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS);
+
+      expect(manager.reload()).toBe(false);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should share one refresh between concurrent calls', async () => {
+      manager.store(session);
+
+      await Promise.all([manager.refresh(), manager.refresh()]);
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledWith('rt-1');
+      expect(apply).toHaveBeenLastCalledWith({ ...session, accessToken: 'at-2', refreshToken: 'rt-2' });
+      expect(storage.unlock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait while the other process holds the lock', async () => {
+      manager.store(session);
+      storage.lock.mockReturnValueOnce(false).mockReturnValueOnce(false);
+
+      const done = manager.refresh();
+      await vi.advanceTimersByTimeAsync(2 * TOKEN_LIFECYCLE.LOCK_POLL_MS);
+      await done;
+
+      expect(storage.lock).toHaveBeenCalledTimes(3);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when the lock is never released', async () => {
+      manager.store(session);
+      storage.lock.mockReturnValue(false);
+
+      const done = manager.refresh();
+      const assertion = expect(done).rejects.toThrow('Timed out waiting for another process');
+      await vi.advanceTimersByTimeAsync(TOKEN_LIFECYCLE.LOCK_STALE_MS + 2 * TOKEN_LIFECYCLE.LOCK_POLL_MS);
+      await assertion;
+
+      expect(refresh).not.toHaveBeenCalled();
+      expect(storage.unlock).not.toHaveBeenCalled();
+    });
+
+    it('should release the lock when the refresh fails', async () => {
+      manager.store(session);
+      refresh.mockRejectedValueOnce(new Error('Failed to refresh token'));
+
+      await expect(manager.refresh()).rejects.toThrow('Failed to refresh token');
+
+      expect(storage.unlock).toHaveBeenCalled();
+    });
+  });
+
+  describe('renewIfDue', () => {
+    it('should not refresh a token that is far from expiry', async () => {
+      manager.store(session);
+
+      await manager.renewIfDue();
+
+      expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it('should refresh within the renewal margin', async () => {
+      manager.store(session);
+      vi.advanceTimersByTime(TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS - TOKEN_LIFECYCLE.RENEW_BEFORE_MS);
+
+      await manager.renewIfDue();
+
+      expect(refresh).toHaveBeenCalledWith('rt-1');
+      expect(log.info).toHaveBeenCalledWith(expect.stringContaining('eWeLink session renewed'));
+    });
+
+    it('should warn instead of refreshing with an expired refresh token', async () => {
+      manager.store(session);
+      vi.advanceTimersByTime(TOKEN_LIFECYCLE.REFRESH_TOKEN_TTL_MS);
+
+      await manager.renewIfDue();
+
+      expect(refresh).not.toHaveBeenCalled();
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('refresh token has expired'));
+    });
+
+    it('should log failed renewals without throwing', async () => {
+      manager.store(session);
+      vi.advanceTimersByTime(TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS - DAY_MS);
+      refresh.mockRejectedValueOnce(new Error('network down'));
+
+      await expect(manager.renewIfDue()).resolves.toBeUndefined();
+
+      expect(log.warn).toHaveBeenCalledWith('Failed to renew eWeLink session: network down');
+    });
+  });
+
+  describe('start', () => {
+    it('should renew on the periodic expiry check', async () => {
+      manager.store(session);
+      manager.start();
+
+      await vi.advanceTimersByTimeAsync(TOKEN_LIFECYCLE.ACCESS_TOKEN_TTL_MS - TOKEN_LIFECYCLE.RENEW_BEFORE_MS + TOKEN_LIFECYCLE.CHECK_INTERVAL_MS);
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pick up tokens rotated by the other process', async () => {
+      manager.store(session);
+      manager.start();
+      storage.save({ ...session, accessToken: 'ui-at', refreshToken: 'ui-rt', accessTokenExpiresAt: Date.now() + 20 * DAY_MS });
+
+      await vi.advanceTimersByTimeAsync(TOKEN_LIFECYCLE.CHECK_INTERVAL_MS);
+
+      expect(apply).toHaveBeenLastCalledWith({ ...session, accessToken: 'ui-at', refreshToken: 'ui-rt' });
+      expect(refresh).not.toHaveBeenCalled();
+    });
+  });
+});
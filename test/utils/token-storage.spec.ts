@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { TokenStorage, type StoredTokens } from '../../src/utils/token-storage.js';
+import { TokenStorage, TOKEN_SECRET_ENV, type StoredTokens } from '../../src/utils/token-storage.js';
 import * as fs from 'fs';
 
 // Mock fs module
@@ -7,6 +7,10 @@ vi.mock('fs', () => ({
   writeFileSync: vi.fn(),
   readFileSync: vi.fn(),
   existsSync: vi.fn(),
+  openSync: vi.fn(),
+  closeSync: vi.fn(),
+  unlinkSync: vi.fn(),
+  statSync: vi.fn(),
 }));
 
 describe('TokenStorage', () => {
@@ -34,6 +38,17 @@ describe('TokenStorage', () => {
     it('should create instance with correct storage path', () => {
       expect(tokenStorage).toBeDefined();
     });
+
+    it('should use a separate file per additional account', () => {
+      const accountStorage = new TokenStorage(storagePath, 'Second+Home@example.com');
+      accountStorage.save(mockTokens);
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        '/tmp/test-storage/ewelink-tokens-second_home_example.com.json',
+        expect.any(String),
+        'utf8',
+      );
+    });
   });
 
   describe('save', () => {
@@ -154,6 +169,163 @@ describe('TokenStorage', () => {
 
       expect(tokenStorage.isValid()).toBe(true);
     });
+
+    it('should use the recorded access token expiry', () => {
+      const storedTokens: StoredTokens = {
+        ...mockTokens,
+        timestamp: Date.now() - (10 * 24 * 60 * 60 * 1000), // 10 days ago
+        accessTokenExpiresAt: Date.now() + 60000,
+      };
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(storedTokens));
+
+      expect(tokenStorage.isValid()).toBe(true);
+    });
+
+    it('should return false once the recorded expiry has passed', () => {
+      const storedTokens: StoredTokens = { ...mockTokens, timestamp: Date.now(), accessTokenExpiresAt: Date.now() - 1 };
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(storedTokens));
+
+      expect(tokenStorage.isValid()).toBe(false);
+    });
+
+    it('should return false for cleared tokens', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue('{}');
+
+      expect(tokenStorage.isValid()).toBe(false);
+    });
+  });
+
+  describe('lock', () => {
+    const lockPath = `${expectedFilePath}.lock`;
+
+    it('should create the lock file exclusively', () => {
+      expect(tokenStorage.lock()).toBe(true);
+      expect(fs.openSync).toHaveBeenCalledWith(lockPath, 'wx');
+    });
+
+    it('should return false while another process holds a fresh lock', () => {
+      vi.mocked(fs.openSync).mockImplementationOnce(() => {
+        throw new Error('EEXIST');
+      });
+      vi.mocked(fs.statSync).mockReturnValue({ mtimeMs: Date.now() - 1000 } as fs.Stats);
+
+      expect(tokenStorage.lock()).toBe(false);
+      expect(fs.unlinkSync).not.toHaveBeenCalled();
+    });
+
+    it('should take over a stale lock', () => {
+      vi.mocked(fs.openSync).mockImplementationOnce(() => {
+        throw new Error('EEXIST');
+      });
+      vi.mocked(fs.statSync).mockReturnValue({ mtimeMs: Date.now() - 60000 } as fs.Stats);
+
+      expect(tokenStorage.lock()).toBe(true);
+      expect(fs.unlinkSync).toHaveBeenCalledWith(lockPath);
+      expect(fs.openSync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove the lock file on unlock', () => {
+      tokenStorage.unlock();
+
+      expect(fs.unlinkSync).toHaveBeenCalledWith(lockPath);
+    });
+  });
+
+  describe('encryption', () => {
+    let files: Map<string, string>;
+
+    const stored: StoredTokens = { ...mockTokens, timestamp: 1000, accessTokenExpiresAt: 2000 };
+
+    beforeEach(() => {
+      files = new Map();
+      vi.mocked(fs.existsSync).mockImplementation(path => files.has(String(path)));
+      vi.mocked(fs.readFileSync).mockImplementation(path => files.get(String(path))!);
+      vi.mocked(fs.writeFileSync).mockImplementation((path, data) => {
+        files.set(String(path), String(data));
+      });
+      vi.stubEnv(TOKEN_SECRET_ENV, 'env-secret');
+    });
+
+    afterEach(() => {
+      vi.mocked(fs.existsSync).mockReset();
+      vi.mocked(fs.readFileSync).mockReset();
+      vi.mocked(fs.writeFileSync).mockReset();
+      vi.unstubAllEnvs();
+    });
+
+    it('should write an encrypted file and nothing else', () => {
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+
+      const content = files.get(expectedFilePath)!;
+      expect(JSON.parse(content)).toEqual({ encrypted: expect.objectContaining({ iv: expect.any(String) }) });
+      expect(content).not.toContain(mockTokens.accessToken);
+      expect([...files.keys()]).toEqual([expectedFilePath]);
+    });
+
+    it('should read the encrypted file back', () => {
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+
+      expect(new TokenStorage(storagePath, undefined, true).load()).toEqual(expect.objectContaining(mockTokens));
+    });
+
+    it('should read the encrypted file without the option, as the UI server does', () => {
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+      const uiStorage = new TokenStorage(storagePath);
+
+      expect(uiStorage.load()).toEqual(expect.objectContaining(mockTokens));
+      expect(uiStorage.isValid()).toBe(true);
+    });
+
+    it('should keep the encrypted format when saving without the option', () => {
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+
+      new TokenStorage(storagePath).save({ ...mockTokens, accessToken: 'rotated-by-ui' });
+
+      expect(files.get(expectedFilePath)).not.toContain('rotated-by-ui');
+      expect(new TokenStorage(storagePath).load()?.accessToken).toBe('rotated-by-ui');
+    });
+
+    it('should not write the tokens without the secret', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubEnv(TOKEN_SECRET_ENV, '');
+
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+
+      expect(files.size).toBe(0);
+      expect(consoleError).toHaveBeenCalledWith('Failed to save tokens:', expect.objectContaining({
+        message: expect.stringContaining(TOKEN_SECRET_ENV),
+      }));
+    });
+
+    it('should encrypt an existing plaintext file when loaded', () => {
+      files.set(expectedFilePath, JSON.stringify(stored));
+
+      const tokens = new TokenStorage(storagePath, undefined, true).load();
+
+      expect(tokens).toEqual(stored);
+      expect(files.get(expectedFilePath)).not.toContain(mockTokens.accessToken);
+      expect(new TokenStorage(storagePath).load()).toEqual(stored);
+    });
+
+    it('should decrypt an encrypted file when encryption is turned off', () => {
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+
+      new TokenStorage(storagePath, undefined, false).load();
+
+      expect(JSON.parse(files.get(expectedFilePath)!)).toEqual(expect.objectContaining(mockTokens));
+    });
+
+    it('should return null when the secret is missing', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      new TokenStorage(storagePath, undefined, true).save(mockTokens);
+      vi.stubEnv(TOKEN_SECRET_ENV, '');
+
+      expect(new TokenStorage(storagePath).load()).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith('Failed to load tokens:', expect.any(Error));
+    });
   });
 
   describe('clear', () => {
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { getTrvParams } from '../../src/constants/device-catalog.js';
+import {
+  buildTrvModeParams,
+  buildTrvTargetParams,
+  getTrvMode,
+  getTrvTargetTemperature,
+  getTrvValvePosition,
+  isTrvHeating,
+  readTrvTemperature,
+  type TrvParams,
+} from '../../src/utils/trv-params.js';
+
+// Zigbee radiator valve: temperatures in 0.1°C, manual target written to manTargetTemp
+const trv = getTrvParams(7017)!;
+
+describe('trv-params', () => {
+  describe('temperatures', () => {
+    it('should scale raw temperatures by tempDivisor', () => {
+      expect(readTrvTemperature({ temperature: 215 }, trv, 'temperature', 20)).toBe(21.5);
+      expect(readTrvTemperature({ temperature: '190' }, trv, 'temperature', 20)).toBe(19);
+    });
+
+    it('should fall back when the param is missing', () => {
+      expect(readTrvTemperature({}, trv, 'temperature', 20)).toBe(20);
+    });
+
+    it('should clamp the reported target to the valve range', () => {
+      expect(getTrvTargetTemperature({ curTargetTemp: 225 }, trv, 20)).toBe(22.5);
+      expect(getTrvTargetTemperature({ curTargetTemp: 10 }, trv, 20)).toBe(trv.minTemp);
+      expect(getTrvTargetTemperature({ curTargetTemp: 500 }, trv, 20)).toBe(trv.maxTemp);
+    });
+  });
+
+  describe('modes', () => {
+    it('should map power and work mode to off, heat and auto', () => {
+      expect(getTrvMode({ switch: 'off', workMode: '1' }, trv)).toBe('off');
+      expect(getTrvMode({ switch: 'on', workMode: '0' }, trv)).toBe('heat');
+      expect(getTrvMode({ switch: 'on', workMode: '1' }, trv)).toBe('auto');
+    });
+
+    it('should build the params for each mode', () => {
+      expect(buildTrvModeParams(trv, 'off')).toEqual({ switch: 'off' });
+      expect(buildTrvModeParams(trv, 'heat')).toEqual({ switch: 'on', workMode: '0' });
+      expect(buildTrvModeParams(trv, 'auto')).toEqual({ switch: 'on', workMode: '1' });
+    });
+  });
+
+  describe('buildTrvTargetParams', () => {
+    it('should write the scaled target and report it in the target param', () => {
+      const { command, state, celsius } = buildTrvTargetParams({ switch: 'on', workMode: '0' }, trv, 21.5);
+
+      expect(command).toEqual({ manTargetTemp: 215 });
+      expect(state).toEqual({ manTargetTemp: 215, curTargetTemp: 215 });
+      expect(celsius).toBe(21.5);
+    });
+
+    it('should switch from auto to manual', () => {
+      const { command } = buildTrvTargetParams({ switch: 'on', workMode: '1' }, trv, 20);
+
+      expect(command).toEqual({ manTargetTemp: 200, workMode: '0' });
+    });
+
+    it('should clamp the target to the valve range', () => {
+      const { command, celsius } = buildTrvTargetParams({}, trv, 50);
+
+      expect(celsius).toBe(trv.maxTemp);
+      expect(command).toEqual({ manTargetTemp: trv.maxTemp * 10 });
+    });
+  });
+
+  describe('heating state', () => {
+    it('should follow the valve position when reported', () => {
+      expect(getTrvValvePosition({ openPercent: 42.4 }, trv)).toBe(42);
+      expect(isTrvHeating({ switch: 'on', openPercent: 30 }, trv, 25, 20)).toBe(true);
+      expect(isTrvHeating({ switch: 'on', openPercent: 0, curTargetTemp: 250 }, trv, 18, 20)).toBe(false);
+    });
+
+    it('should compare the temperatures without a valve position', () => {
+      expect(isTrvHeating({ switch: 'on', curTargetTemp: 220 }, trv, 19, 20)).toBe(true);
+      expect(isTrvHeating({ switch: 'on', curTargetTemp: 180 }, trv, 19, 20)).toBe(false);
+
+      const noValve: TrvParams = { ...trv, valvePosition: undefined };
+      expect(getTrvValvePosition({ openPercent: 30 }, noValve)).toBeUndefined();
+      expect(isTrvHeating({ switch: 'on', openPercent: 30, curTargetTemp: 180 }, noValve, 19, 20)).toBe(false);
+    });
+
+    it('should never heat while off', () => {
+      expect(isTrvHeating({ switch: 'off', openPercent: 80 }, trv, 10, 20)).toBe(false);
+    });
+  });
+});
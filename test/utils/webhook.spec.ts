@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { sendWebhook } from '../../src/utils/webhook.js';
+import { WEBHOOK } from '../../src/constants/network-constants.js';
+
+vi.mock('axios');
+
+describe('sendWebhook', () => {
+  const url = 'http://alarm.local/hook';
+  const payload = { deviceId: '1000ab23cdSW2', type: 'motion', label: 'Hallway', timestamp: '2026-01-01T00:00:00.000Z' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(axios.post).mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should POST the payload as JSON with a timeout', async () => {
+    vi.mocked(axios.post).mockResolvedValueOnce({ status: 200 });
+
+    await sendWebhook(url, payload);
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    expect(axios.post).toHaveBeenCalledWith(url, payload, {
+      timeout: WEBHOOK.TIMEOUT_MS,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+
+  it('should retry with backoff until it succeeds', async () => {
+    vi.mocked(axios.post)
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce({ status: 200 });
+
+    const promise = sendWebhook(url, payload, { retryDelay: 100 });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(axios.post).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(axios.post).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(promise).resolves.toBeUndefined();
+    expect(axios.post).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw the last error once all attempts fail', async () => {
+    vi.mocked(axios.post).mockRejectedValue(new Error('timeout of 5000ms exceeded'));
+
+    const promise = sendWebhook(url, payload, { maxAttempts: 2, retryDelay: 10 });
+    const assertion = expect(promise).rejects.toThrow('timeout of 5000ms exceeded');
+
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+    expect(axios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should make a single attempt when maxAttempts is 1', async () => {
+    vi.mocked(axios.post).mockRejectedValue(new Error('fail'));
+
+    await expect(sendWebhook(url, payload, { maxAttempts: 1 })).rejects.toThrow('fail');
+    expect(axios.post).toHaveBeenCalledTimes(1);
+  });
+});
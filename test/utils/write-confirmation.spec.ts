@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WriteConfirmation } from '../../src/utils/write-confirmation.js';
+
+describe('WriteConfirmation', () => {
+  let onUnconfirmed: ReturnType<typeof vi.fn>;
+  let confirmation: WriteConfirmation;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onUnconfirmed = vi.fn();
+    confirmation = new WriteConfirmation({ timeoutMs: 10000, onUnconfirmed });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('track', () => {
+    it('should not track values that match the current state', () => {
+      confirmation.track({ switch: 'on', bright: 50 }, { switch: 'on', bright: 20 });
+
+      expect(confirmation.size).toBe(1);
+    });
+
+    it('should track switches per outlet', () => {
+      confirmation.track(
+        { switches: [{ outlet: 0, switch: 'on' }, { outlet: 1, switch: 'off' }] },
+        { switches: [{ outlet: 0, switch: 'off' }, { outlet: 1, switch: 'off' }] },
+      );
+
+      expect(confirmation.size).toBe(1);
+    });
+  });
+
+  describe('confirm', () => {
+    it('should clear values reported by the device', async () => {
+      confirmation.track({ bright: 70 }, { bright: 20 });
+
+      confirmation.confirm({ bright: 70 });
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(confirmation.size).toBe(0);
+      expect(onUnconfirmed).not.toHaveBeenCalled();
+    });
+
+    it('should match nested objects on the written keys', async () => {
+      confirmation.track({ ltype: 'white', white: { br: 40, ct: 10 } }, { ltype: 'color', white: { br: 40, ct: 80 } });
+
+      confirmation.confirm({ ltype: 'white', white: { br: 40, ct: 10, extra: 1 } });
+
+      expect(confirmation.size).toBe(0);
+    });
+
+    it('should accept boolean switch values', () => {
+      confirmation.track({ switch: 'on' }, { switch: 'off' });
+
+      confirmation.confirm({ switch: true } as any);
+
+      expect(confirmation.size).toBe(0);
+    });
+
+    it('should confirm only the outlets an update carries', () => {
+      confirmation.track(
+        { switches: [{ outlet: 0, switch: 'on' }, { outlet: 1, switch: 'on' }] },
+        { switches: [{ outlet: 0, switch: 'off' }, { outlet: 1, switch: 'off' }] },
+      );
+
+      confirmation.confirm({ switches: [{ outlet: 1, switch: 'on' }] });
+
+      expect(confirmation.size).toBe(1);
+    });
+  });
+
+  describe('timeout', () => {
+    it('should report unconfirmed values with the last confirmed ones', async () => {
+      confirmation.track({ switch: 'on', bright: 70 }, { switch: 'off', bright: 20 });
+      confirmation.confirm({ switch: 'on' });
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(onUnconfirmed).toHaveBeenCalledWith({ bright: 70 }, { bright: 20 });
+      expect(confirmation.size).toBe(0);
+    });
+
+    it('should roll back to the latest reported value', async () => {
+      confirmation.track({ bright: 70 }, { bright: 20 });
+      confirmation.confirm({ bright: 45 });
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(onUnconfirmed).toHaveBeenCalledWith({ bright: 70 }, { bright: 45 });
+    });
+
+    it('should leave out values the device never reported', async () => {
+      confirmation.track({ speed: 2 }, {});
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(onUnconfirmed).toHaveBeenCalledWith({ speed: 2 }, {});
+    });
+
+    it('should rebuild switches for unconfirmed outlets', async () => {
+      confirmation.track(
+        { switches: [{ outlet: 2, switch: 'on' }] },
+        { switches: [{ outlet: 2, switch: 'off' }] },
+      );
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(onUnconfirmed).toHaveBeenCalledWith(
+        { switches: [{ outlet: 2, switch: 'on' }] },
+        { switches: [{ outlet: 2, switch: 'off' }] },
+      );
+    });
+
+    it('should restart the wait for a newer write and keep the original rollback value', async () => {
+      confirmation.track({ bright: 50 }, { bright: 20 });
+      await vi.advanceTimersByTimeAsync(6000);
+      confirmation.track({ bright: 80 }, { bright: 50 });
+
+      await vi.advanceTimersByTimeAsync(4000);
+      expect(onUnconfirmed).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(6000);
+      expect(onUnconfirmed).toHaveBeenCalledOnce();
+      expect(onUnconfirmed).toHaveBeenCalledWith({ bright: 80 }, { bright: 20 });
+    });
+
+    it('should verify before giving up', async () => {
+      const verify = vi.fn().mockImplementation(async () => {
+        verifying.confirm({ bright: 70 });
+      });
+      const verifying = new WriteConfirmation({ timeoutMs: 10000, verify, onUnconfirmed });
+      verifying.track({ bright: 70 }, { bright: 20 });
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(verify).toHaveBeenCalledOnce();
+      expect(onUnconfirmed).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when verification fails', async () => {
+      const verify = vi.fn().mockRejectedValue(new Error('Query timeout'));
+      const verifying = new WriteConfirmation({ timeoutMs: 10000, verify, onUnconfirmed });
+      verifying.track({ bright: 70 }, { bright: 20 });
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(onUnconfirmed).toHaveBeenCalledWith({ bright: 70 }, { bright: 20 });
+    });
+  });
+
+  describe('cancel', () => {
+    it('should stop waiting for a failed write', async () => {
+      const writeId = confirmation.track({ bright: 70 }, { bright: 20 });
+
+      confirmation.cancel(writeId);
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(confirmation.size).toBe(0);
+      expect(onUnconfirmed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clear', () => {
+    it('should stop waiting for all writes', async () => {
+      confirmation.track({ bright: 70 }, { bright: 20 });
+      confirmation.track({ switch: 'on' }, { switch: 'off' });
+
+      confirmation.clear();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(confirmation.size).toBe(0);
+      expect(onUnconfirmed).not.toHaveBeenCalled();
+    });
+  });
+});